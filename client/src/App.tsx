@@ -8,8 +8,10 @@ import { Navbar } from "@/components/ui/navbar";
 import NotFound from "@/pages/not-found";
 import CreateEvent from "@/pages/create-event";
 import JoinCamera from "@/pages/join-camera";
+import MyEvents from "@/pages/my-events";
 import DirectorDashboard from "@/pages/director-dashboard";
 import Viewer from "@/pages/viewer";
+import EventReport from "@/pages/event-report";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
 import { useEffect } from "react";
@@ -42,9 +44,13 @@ function Router() {
           <>
             <Route path="/" component={CreateEvent} />
             <Route path="/create" component={CreateEvent} />
+            <Route path="/events" component={MyEvents} />
             <Route path="/director/:eventId">
               {(params) => <DirectorDashboard eventId={params.eventId} />}
             </Route>
+            <Route path="/events/:eventId/report">
+              {(params) => <EventReport eventId={params.eventId} />}
+            </Route>
           </>
         ) : (
           <Route path="/" component={Login} />
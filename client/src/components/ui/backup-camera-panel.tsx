@@ -0,0 +1,81 @@
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type Camera } from "@shared/schema";
+import { ShieldCheck } from "lucide-react";
+
+interface BackupCameraPanelProps {
+  eventId: string;
+  cameras: Pick<Camera, "id" | "label">[];
+  backupCameraId: string | null;
+  autoFallback: boolean;
+}
+
+const NO_BACKUP = "none";
+
+export default function BackupCameraPanel({ eventId, cameras, backupCameraId, autoFallback }: BackupCameraPanelProps) {
+  const { toast } = useToast();
+
+  const updateBackupMutation = useMutation({
+    mutationFn: async (data: { cameraId: string | null; autoFallback: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/events/${eventId}/backup-camera`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update backup camera",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardContent className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <ShieldCheck className="h-5 w-5 text-green-500" />
+          <div>
+            <p className="text-white font-medium">Backup Camera</p>
+            <p className="text-sm text-gray-400">Cut here if the on-air camera stops responding</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-6">
+          <Select
+            value={backupCameraId ?? NO_BACKUP}
+            onValueChange={(value) => updateBackupMutation.mutate({
+              cameraId: value === NO_BACKUP ? null : value,
+              autoFallback,
+            })}
+          >
+            <SelectTrigger className="w-48 bg-gray-700 border-gray-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-700 border-gray-600">
+              <SelectItem value={NO_BACKUP}>No backup</SelectItem>
+              {cameras.map((camera) => (
+                <SelectItem key={camera.id} value={camera.id}>{camera.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="autoFallback"
+              checked={autoFallback}
+              disabled={!backupCameraId || updateBackupMutation.isPending}
+              onCheckedChange={(checked) => updateBackupMutation.mutate({ cameraId: backupCameraId, autoFallback: checked })}
+            />
+            <Label htmlFor="autoFallback" className="text-gray-300">Automatic fallback</Label>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
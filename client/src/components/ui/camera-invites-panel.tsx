@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type CameraInvite } from "@shared/schema";
+import { Copy, QrCode, X } from "lucide-react";
+
+type InviteWithToken = CameraInvite & { token: string };
+
+interface CameraInvitesPanelProps {
+  eventId: string;
+}
+
+function inviteUrl(token: string) {
+  return `${window.location.origin}/join?invite=${encodeURIComponent(token)}`;
+}
+
+function InviteQRCode({ token }: { token: string }) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    QRCode.toDataURL(inviteUrl(token), { width: 192, margin: 1 }).then(setSrc).catch(() => setSrc(null));
+  }, [token]);
+
+  return src ? (
+    <img src={src} alt="Camera invitation QR code" className="w-48 h-48 rounded bg-white" />
+  ) : (
+    <div className="w-48 h-48 rounded bg-gray-700" />
+  );
+}
+
+export default function CameraInvitesPanel({ eventId }: CameraInvitesPanelProps) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [maxUses, setMaxUses] = useState(1);
+  const [expiresInMinutes, setExpiresInMinutes] = useState(60);
+
+  const { data } = useQuery<{ invites: InviteWithToken[] }>({
+    queryKey: ["/api/events", eventId, "camera-invites"],
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/camera-invites`, {
+        label: label.trim() || undefined,
+        maxUses,
+        expiresInMinutes,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setLabel("");
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "camera-invites"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/camera-invites/${inviteId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "camera-invites"] });
+    },
+  });
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(inviteUrl(token));
+    toast({ title: "Invitation link copied" });
+  };
+
+  const invites = data?.invites ?? [];
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <QrCode className="mr-2 h-5 w-5" />
+          Camera Invitations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createInviteMutation.mutate();
+          }}
+        >
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="inviteLabel" className="text-gray-300">Camera label (optional)</Label>
+            <Input
+              id="inviteLabel"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="End Zone"
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="inviteUses" className="text-gray-300">Uses</Label>
+            <Input
+              id="inviteUses"
+              type="number"
+              min={1}
+              max={20}
+              value={maxUses}
+              onChange={(e) => setMaxUses(Math.max(1, Number(e.target.value) || 1))}
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="inviteExpiry" className="text-gray-300">Expires in (min)</Label>
+            <Input
+              id="inviteExpiry"
+              type="number"
+              min={5}
+              max={1440}
+              value={expiresInMinutes}
+              onChange={(e) => setExpiresInMinutes(Math.max(5, Number(e.target.value) || 60))}
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={createInviteMutation.isPending}
+            className="md:col-span-4 bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            Generate QR Code
+          </Button>
+        </form>
+
+        {invites.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {invites.map((invite) => (
+              <div key={invite.id} className="bg-gray-700 rounded-lg p-4 flex flex-col items-center space-y-3">
+                <InviteQRCode token={invite.token} />
+                <div className="text-center">
+                  <p className="text-white font-medium">{invite.label || "Any camera"}</p>
+                  <p className="text-xs text-gray-400">
+                    {invite.maxUses - invite.uses} of {invite.maxUses} uses left · expires{" "}
+                    {new Date(invite.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => copyLink(invite.token)}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-600"
+                  >
+                    <Copy className="mr-1 h-4 w-4" />
+                    Copy Link
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => revokeInviteMutation.mutate(invite.id)}
+                    disabled={revokeInviteMutation.isPending}
+                    className="text-gray-400 hover:text-red-400"
+                  >
+                    <X className="mr-1 h-4 w-4" />
+                    Revoke
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
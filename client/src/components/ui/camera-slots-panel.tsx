@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type Camera, type CameraSlot } from "@shared/schema";
+import { ArrowDown, ArrowUp, LayoutGrid, Plus, QrCode, Trash2 } from "lucide-react";
+
+interface CameraSlotsPanelProps {
+  eventId: string;
+  slots: CameraSlot[];
+  cameras: Pick<Camera, "id" | "label">[];
+  maxCameras: number;
+}
+
+export default function CameraSlotsPanel({ eventId, slots, cameras, maxCameras }: CameraSlotsPanelProps) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+
+  const invalidateEvent = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createSlotMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/camera-slots`, { label: label.trim() });
+      return response.json();
+    },
+    onSuccess: () => {
+      setLabel("");
+      invalidateEvent();
+    },
+    onError: onError("Failed to reserve slot"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (slotIds: string[]) => {
+      const response = await apiRequest("PUT", `/api/events/${eventId}/camera-slots/order`, { slotIds });
+      return response.json();
+    },
+    onSuccess: invalidateEvent,
+    onError: onError("Failed to reorder slots"),
+  });
+
+  const deleteSlotMutation = useMutation({
+    mutationFn: async (slotId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/camera-slots/${slotId}`);
+      return response.json();
+    },
+    onSuccess: invalidateEvent,
+    onError: onError("Failed to remove slot"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (slotId: string) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/camera-invites`, { slotId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Invitation created", description: "Scan its QR code under Camera Invitations" });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "camera-invites"] });
+    },
+    onError: onError("Failed to create invitation"),
+  });
+
+  const move = (index: number, offset: number) => {
+    const slotIds = slots.map((slot) => slot.id);
+    const [moved] = slotIds.splice(index, 1);
+    slotIds.splice(index + offset, 0, moved);
+    reorderMutation.mutate(slotIds);
+  };
+
+  const emptySlots = slots.filter((slot) => !slot.cameraId).length;
+  const remaining = maxCameras - cameras.length - emptySlots;
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          <span className="flex items-center">
+            <LayoutGrid className="mr-2 h-5 w-5" />
+            Camera Slots
+          </span>
+          <span className="text-sm font-normal text-gray-400">
+            {cameras.length} / {maxCameras} cameras
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (label.trim()) createSlotMutation.mutate();
+          }}
+        >
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Sideline Left"
+            className="flex-1 bg-gray-700 border-gray-600 text-white"
+          />
+          <Button
+            type="submit"
+            disabled={createSlotMutation.isPending || !label.trim() || remaining <= 0}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Reserve Slot
+          </Button>
+        </form>
+
+        {slots.length === 0 ? (
+          <p className="text-sm text-gray-400">No reserved slots. Cameras fill the grid in the order they join.</p>
+        ) : (
+          <div className="divide-y divide-gray-700">
+            {slots.map((slot, index) => {
+              const camera = cameras.find((c) => c.id === slot.cameraId);
+              return (
+                <div key={slot.id} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="text-white">{slot.label}</p>
+                    <p className="text-xs text-gray-400">{camera ? `Filled by ${camera.label}` : "Waiting for a camera"}</p>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    {!camera && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => inviteMutation.mutate(slot.id)}
+                        disabled={inviteMutation.isPending}
+                        className="text-gray-400 hover:text-white"
+                      >
+                        <QrCode className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0 || reorderMutation.isPending}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => move(index, 1)}
+                      disabled={index === slots.length - 1 || reorderMutation.isPending}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteSlotMutation.mutate(slot.id)}
+                      disabled={deleteSlotMutation.isPending}
+                      className="text-gray-400 hover:text-red-400"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,306 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatChatTime, type EventChat } from "@/lib/chat";
+import { type ChatBan, type ChatModerationLog } from "@shared/schema";
+import { Ban, Clock, Eye, EyeOff, MessageSquareWarning } from "lucide-react";
+
+interface ChatModerationPanelProps {
+  eventId: string;
+  chat: EventChat;
+}
+
+interface ChatSettingsResponse {
+  slowModeSeconds: number;
+  registeredOnly: boolean;
+  blockedWords?: string[];
+}
+
+const SLOW_MODE_OPTIONS = [0, 5, 10, 30, 60, 120];
+const TIMEOUT_MINUTES = 5;
+
+const actionLabels: Record<string, string> = {
+  hide: "hid a message from",
+  unhide: "restored a message from",
+  timeout: "timed out",
+  ban: "banned",
+  unban: "lifted the ban on",
+  settings: "changed chat settings",
+};
+
+export default function ChatModerationPanel({ eventId, chat }: ChatModerationPanelProps) {
+  const { toast } = useToast();
+  const [blockedWords, setBlockedWords] = useState("");
+
+  const { data: settings } = useQuery<ChatSettingsResponse>({
+    queryKey: ["/api/events", eventId, "chat", "settings"],
+  });
+
+  const { data: bansData } = useQuery<{ bans: ChatBan[] }>({
+    queryKey: ["/api/events", eventId, "chat", "bans"],
+  });
+
+  const { data: auditData } = useQuery<{ logs: (ChatModerationLog & { moderatorName: string | null })[] }>({
+    queryKey: ["/api/events", eventId, "chat", "audit"],
+  });
+
+  useEffect(() => {
+    if (settings?.blockedWords) {
+      setBlockedWords(settings.blockedWords.join("\n"));
+    }
+  }, [settings?.blockedWords]);
+
+  const invalidateModeration = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "chat", "bans"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "chat", "audit"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const settingsMutation = useMutation({
+    mutationFn: async (updates: Partial<ChatSettingsResponse>) => {
+      const response = await apiRequest("PATCH", `/api/events/${eventId}/chat/settings`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "chat", "settings"] });
+      invalidateModeration();
+    },
+    onError: onError("Failed to update chat settings"),
+  });
+
+  const hideMutation = useMutation({
+    mutationFn: async ({ messageId, hidden }: { messageId: string; hidden: boolean }) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/chat/messages/${messageId}/${hidden ? "hide" : "unhide"}`);
+      return response.json();
+    },
+    onSuccess: (_data, { messageId, hidden }) => {
+      // Restored messages come back over the WebSocket
+      if (hidden) chat.hide(messageId);
+      invalidateModeration();
+    },
+    onError: onError("Failed to moderate message"),
+  });
+
+  const banMutation = useMutation({
+    mutationFn: async (data: { messageId: string; durationMinutes?: number }) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/chat/bans`, data);
+      return response.json();
+    },
+    onSuccess: (_data, { durationMinutes }) => {
+      toast({ title: durationMinutes ? `Timed out for ${durationMinutes} minutes` : "Banned from chat" });
+      invalidateModeration();
+    },
+    onError: onError("Failed to ban chat user"),
+  });
+
+  const liftBanMutation = useMutation({
+    mutationFn: async (banId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/chat/bans/${banId}`);
+      return response.json();
+    },
+    onSuccess: invalidateModeration,
+    onError: onError("Failed to lift ban"),
+  });
+
+  const saveBlockedWords = () => {
+    const words = blockedWords.split(/[\n,]/).map((word) => word.trim()).filter(Boolean);
+    settingsMutation.mutate({ blockedWords: words });
+  };
+
+  const bans = bansData?.bans ?? [];
+  const logs = auditData?.logs ?? [];
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <MessageSquareWarning className="mr-2 h-5 w-5" />
+          Chat Moderation
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="messages">
+          <TabsList className="bg-gray-700 mb-4">
+            <TabsTrigger value="messages">Messages</TabsTrigger>
+            <TabsTrigger value="bans">Bans ({bans.length})</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+            <TabsTrigger value="audit">Audit Log</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="messages">
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-700">
+              {chat.messages.length === 0 && (
+                <p className="text-sm text-gray-400 py-2">No chat messages yet</p>
+              )}
+              {chat.messages.map((message) => (
+                <div key={message.id} className={`flex items-start justify-between py-2 ${message.isModerated ? "opacity-50" : ""}`}>
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold text-sm text-white">{message.username}</span>
+                      <span className="text-xs text-gray-500">{formatChatTime(message.createdAt)}</span>
+                      {message.isModerated && <Badge className="bg-red-700 text-white">Hidden</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-300 break-words">{message.message}</p>
+                  </div>
+                  <div className="flex items-center space-x-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={message.isModerated ? "Restore" : "Hide"}
+                      onClick={() => hideMutation.mutate({ messageId: message.id, hidden: !message.isModerated })}
+                      disabled={hideMutation.isPending}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      {message.isModerated ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={`Time out for ${TIMEOUT_MINUTES} minutes`}
+                      onClick={() => banMutation.mutate({ messageId: message.id, durationMinutes: TIMEOUT_MINUTES })}
+                      disabled={banMutation.isPending}
+                      className="text-gray-400 hover:text-yellow-400"
+                    >
+                      <Clock className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Ban"
+                      onClick={() => banMutation.mutate({ messageId: message.id })}
+                      disabled={banMutation.isPending}
+                      className="text-gray-400 hover:text-red-400"
+                    >
+                      <Ban className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {chat.hasMore && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => chat.loadMore()}
+                  disabled={chat.isLoadingMore}
+                  className="w-full text-gray-400 hover:text-white"
+                >
+                  Load earlier messages
+                </Button>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="bans">
+            {bans.length === 0 ? (
+              <p className="text-sm text-gray-400">Nobody is timed out or banned</p>
+            ) : (
+              <div className="divide-y divide-gray-700">
+                {bans.map((ban) => (
+                  <div key={ban.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="text-white">{ban.username}</p>
+                      <p className="text-xs text-gray-400">
+                        {ban.expiresAt ? `Timed out until ${new Date(ban.expiresAt).toLocaleTimeString()}` : "Banned"}
+                        {ban.reason ? ` · ${ban.reason}` : ""}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => liftBanMutation.mutate(ban.id)}
+                      disabled={liftBanMutation.isPending}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      Lift
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="settings" className="space-y-6">
+            <div className="flex flex-col md:flex-row gap-6">
+              <div className="space-y-2">
+                <Label className="text-gray-300">Slow mode</Label>
+                <Select
+                  value={String(settings?.slowModeSeconds ?? 0)}
+                  onValueChange={(value) => settingsMutation.mutate({ slowModeSeconds: parseInt(value, 10) })}
+                >
+                  <SelectTrigger className="w-48 bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    {SLOW_MODE_OPTIONS.map((seconds) => (
+                      <SelectItem key={seconds} value={String(seconds)}>
+                        {seconds === 0 ? "Off" : `One message every ${seconds}s`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center space-x-2 md:pt-6">
+                <Switch
+                  id="registeredOnly"
+                  checked={!!settings?.registeredOnly}
+                  disabled={settingsMutation.isPending}
+                  onCheckedChange={(checked) => settingsMutation.mutate({ registeredOnly: checked })}
+                />
+                <Label htmlFor="registeredOnly" className="text-gray-300">Signed-in viewers only</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blockedWords" className="text-gray-300">Blocked words (one per line, masked with ***)</Label>
+              <Textarea
+                id="blockedWords"
+                value={blockedWords}
+                onChange={(e) => setBlockedWords(e.target.value)}
+                rows={4}
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+              <Button
+                onClick={saveBlockedWords}
+                disabled={settingsMutation.isPending}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                Save Blocked Words
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="audit">
+            {logs.length === 0 ? (
+              <p className="text-sm text-gray-400">No moderation actions yet</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto divide-y divide-gray-700">
+                {logs.map((log) => (
+                  <div key={log.id} className="py-2 text-sm">
+                    <p className="text-gray-300">
+                      <span className="text-white font-medium">{log.moderatorName ?? "A moderator"}</span>{" "}
+                      {actionLabels[log.action] ?? log.action}
+                      {log.targetUsername && <span className="text-white font-medium"> {log.targetUsername}</span>}
+                      {log.details && <span className="text-gray-400"> ({log.details})</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">{log.createdAt ? new Date(log.createdAt).toLocaleString() : ""}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type EventMember, type MemberRole } from "@shared/schema";
+import { UserPlus, Users, X } from "lucide-react";
+
+interface EventMembersPanelProps {
+  eventId: string;
+  canManageMembers: boolean;
+}
+
+const roleLabels: Record<MemberRole, string> = {
+  director: "Co-director",
+  producer: "Producer",
+  moderator: "Chat moderator",
+  camera_operator: "Camera operator",
+  scorekeeper: "Scorekeeper",
+};
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-yellow-600",
+  accepted: "bg-green-600",
+  declined: "bg-gray-600",
+  revoked: "bg-red-700",
+};
+
+export default function EventMembersPanel({ eventId, canManageMembers }: EventMembersPanelProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MemberRole>("director");
+
+  const { data } = useQuery<{ members: EventMember[] }>({
+    queryKey: ["/api/events", eventId, "members"],
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/members`, { email, role });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitation sent",
+        description: `${email} has been invited as ${roleLabels[role].toLowerCase()}`,
+      });
+      setEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "members"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to send invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/members/${memberId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "members"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to revoke member",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const members = (data?.members ?? []).filter(member => member.status !== "revoked");
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <Users className="mr-2 h-5 w-5" />
+          Event Team
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManageMembers && (
+          <form
+            className="flex flex-col md:flex-row gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (email.trim()) inviteMutation.mutate();
+            }}
+          >
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="volunteer@example.com"
+              className="flex-1 bg-gray-700 border-gray-600 text-white"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as MemberRole)}>
+              <SelectTrigger className="md:w-48 bg-gray-700 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-700 border-gray-600">
+                {Object.entries(roleLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="submit"
+              disabled={inviteMutation.isPending || !email.trim()}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invite
+            </Button>
+          </form>
+        )}
+
+        {members.length === 0 ? (
+          <p className="text-sm text-gray-400">No collaborators yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-700">
+            {members.map((member) => (
+              <div key={member.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="text-white">{member.email}</p>
+                  <p className="text-sm text-gray-400">{roleLabels[member.role as MemberRole] ?? member.role}</p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Badge className={`${statusStyles[member.status] ?? "bg-gray-600"} text-white`}>
+                    {member.status}
+                  </Badge>
+                  {canManageMembers && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(member.id)}
+                      disabled={revokeMutation.isPending}
+                      className="text-gray-400 hover:text-red-400"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { markerKinds, sportMarkerKinds, type EventMarker, type HighlightReel, type MarkerKind } from "@shared/schema";
+import { Download, Flag, Sparkles, Trash2, X } from "lucide-react";
+
+interface HighlightsPanelProps {
+  eventId: string;
+  sportType: string;
+  // Moments are marked as they happen, so only while the event is live
+  canMark: boolean;
+}
+
+const statusStyles: Record<string, string> = {
+  queued: "bg-gray-600 text-white",
+  rendering: "bg-yellow-600 text-white",
+  ready: "bg-green-600 text-white",
+  failed: "bg-red-600 text-white",
+};
+
+export default function HighlightsPanel({ eventId, sportType, canMark }: HighlightsPanelProps) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const kinds = sportMarkerKinds[sportType] ?? (Object.keys(markerKinds) as MarkerKind[]);
+
+  const { data: markersData } = useQuery<{ markers: EventMarker[] }>({
+    queryKey: ["/api/events", eventId, "markers"],
+  });
+
+  const { data: reelsData } = useQuery<{ reels: HighlightReel[] }>({
+    queryKey: ["/api/events", eventId, "highlight-reels"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const invalidate = (key: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, key] });
+  };
+
+  const markMutation = useMutation({
+    mutationFn: async (data: { kind: MarkerKind; label?: string }) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/markers`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setLabel("");
+      invalidate("markers")();
+    },
+    onError: onError("Failed to add marker"),
+  });
+
+  const deleteMarkerMutation = useMutation({
+    mutationFn: async (markerId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/markers/${markerId}`);
+      return response.json();
+    },
+    onSuccess: invalidate("markers"),
+    onError: onError("Failed to delete marker"),
+  });
+
+  const createReelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/highlight-reels`);
+      return response.json();
+    },
+    onSuccess: invalidate("highlight-reels"),
+    onError: onError("Failed to build highlight reel"),
+  });
+
+  const deleteReelMutation = useMutation({
+    mutationFn: async (reelId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/highlight-reels/${reelId}`);
+      return response.json();
+    },
+    onSuccess: invalidate("highlight-reels"),
+    onError: onError("Failed to delete highlight reel"),
+  });
+
+  const markers = markersData?.markers ?? [];
+  const reels = reelsData?.reels ?? [];
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <Flag className="mr-2 h-5 w-5" />
+          Markers & Highlights
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Marking moments */}
+        <div className="space-y-3">
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <Input
+              placeholder="Label (optional), e.g. #10 Smith"
+              value={label}
+              maxLength={100}
+              onChange={(e) => setLabel(e.target.value)}
+              className="md:w-64 bg-gray-700 border-gray-600 text-white"
+            />
+            <div className="flex flex-wrap gap-2">
+              {kinds.map((kind) => (
+                <Button
+                  key={kind}
+                  size="sm"
+                  onClick={() => markMutation.mutate({ kind, label: label.trim() || undefined })}
+                  disabled={!canMark || markMutation.isPending}
+                  className={markerKinds[kind].highlight ? "bg-indigo-600 hover:bg-indigo-700 text-white" : "bg-gray-600 hover:bg-gray-500 text-white"}
+                >
+                  {markerKinds[kind].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          {markers.length > 0 && (
+            <div className="divide-y divide-gray-700 max-h-64 overflow-y-auto">
+              {markers.map((marker) => (
+                <div key={marker.id} className="flex items-center justify-between py-2">
+                  <p className="text-sm text-gray-300">
+                    <span className="text-gray-400">{new Date(marker.at).toLocaleTimeString()}</span>
+                    <span className="ml-3 text-white font-medium">
+                      {marker.label || markerKinds[marker.kind as MarkerKind]?.label || marker.kind}
+                    </span>
+                    {marker.label && <span className="ml-2 text-gray-400">{markerKinds[marker.kind as MarkerKind]?.label}</span>}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Delete"
+                    onClick={() => deleteMarkerMutation.mutate(marker.id)}
+                    disabled={deleteMarkerMutation.isPending}
+                    className="text-gray-400 hover:text-white"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Highlight reels */}
+        <div className="space-y-3 border-t border-gray-700 pt-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-400">Highlights are cut from the recording once the broadcast has ended</p>
+            <Button
+              onClick={() => createReelMutation.mutate()}
+              disabled={createReelMutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              <Sparkles className="mr-2 h-4 w-4" />
+              Build Highlight Reel
+            </Button>
+          </div>
+          {reels.map((reel) => (
+            <div key={reel.id} className="rounded-lg bg-gray-700 p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Badge className={statusStyles[reel.status] ?? "bg-gray-600 text-white"}>{reel.status}</Badge>
+                  <span className="text-sm text-white">
+                    {reel.segments.length} highlight{reel.segments.length === 1 ? "" : "s"}
+                  </span>
+                  <span className="text-xs text-gray-400">{reel.createdAt && new Date(reel.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {reel.status === "ready" && (
+                    <Button asChild size="sm" className="bg-green-600 hover:bg-green-700 text-white">
+                      <a href={`/api/events/${eventId}/highlight-reels/${reel.id}/reel.mp4`} download>
+                        <Download className="mr-1 h-4 w-4" />
+                        Reel
+                      </a>
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Delete"
+                    onClick={() => deleteReelMutation.mutate(reel.id)}
+                    disabled={reel.status === "rendering" || deleteReelMutation.isPending}
+                    className="text-gray-400 hover:text-red-400"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {reel.failureReason && <p className="text-xs text-red-400">{reel.failureReason}</p>}
+              {reel.status === "ready" && (
+                <div className="flex flex-wrap gap-2">
+                  {reel.segments.map((segment, index) => (
+                    <a
+                      key={segment.markerId}
+                      href={`/api/events/${eventId}/highlight-reels/${reel.id}/clips/${index + 1}.mp4`}
+                      download
+                      className="text-xs text-indigo-300 hover:text-indigo-200 underline"
+                    >
+                      {index + 1}. {segment.title}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
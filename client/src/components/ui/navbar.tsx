@@ -50,6 +50,9 @@ export function Navbar() {
           
           {isAuthenticated && (
             <div className="hidden md:flex items-center space-x-6">
+              <Link href="/events" className="text-gray-300 hover:text-white transition-colors">
+                My Events
+              </Link>
               <Link href="/create" className="text-gray-300 hover:text-white transition-colors">
                 Create Event
               </Link>
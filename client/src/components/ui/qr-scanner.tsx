@@ -1,4 +1,5 @@
 import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { X, Camera } from "lucide-react";
@@ -10,6 +11,8 @@ interface QRScannerProps {
 
 export default function QRScanner({ onResult, onClose }: QRScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frameRef = useRef<number | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -30,13 +33,44 @@ export default function QRScanner({ onResult, onClose }: QRScannerProps) {
         videoRef.current.srcObject = stream;
         videoRef.current.play();
         setIsScanning(true);
+        frameRef.current = requestAnimationFrame(scanFrame);
       }
     } catch (err) {
       setError("Camera access denied. Please allow camera permissions.");
     }
   };
 
+  // Decode the current video frame; keeps polling until a QR code is found
+  const scanFrame = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (video.readyState === video.HAVE_ENOUGH_DATA && video.videoWidth > 0) {
+      const canvas = canvasRef.current ?? (canvasRef.current = document.createElement("canvas"));
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const context = canvas.getContext("2d", { willReadFrequently: true });
+
+      if (context) {
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+        if (code?.data) {
+          stopCamera();
+          onResult(code.data);
+          return;
+        }
+      }
+    }
+
+    frameRef.current = requestAnimationFrame(scanFrame);
+  };
+
   const stopCamera = () => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
     if (videoRef.current && videoRef.current.srcObject) {
       const stream = videoRef.current.srcObject as MediaStream;
       stream.getTracks().forEach(track => track.stop());
@@ -45,7 +79,7 @@ export default function QRScanner({ onResult, onClose }: QRScannerProps) {
   };
 
   const handleManualInput = () => {
-    const code = prompt("Enter event code manually:");
+    const code = prompt("Enter event code or invitation link:");
     if (code) {
       onResult(code);
     }
@@ -0,0 +1,130 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type Recording } from "@shared/schema";
+import { Eye, EyeOff, Film, Trash2 } from "lucide-react";
+
+interface RecordingsPanelProps {
+  eventId: string;
+}
+
+const statusStyles: Record<string, string> = {
+  preparing: "bg-yellow-600 text-white",
+  ready: "bg-green-600 text-white",
+  errored: "bg-red-600 text-white",
+};
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return "";
+  const minutes = Math.floor(seconds / 60);
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+    : `${minutes}m ${seconds % 60}s`;
+}
+
+export default function RecordingsPanel({ eventId }: RecordingsPanelProps) {
+  const { toast } = useToast();
+
+  // Organizers see hidden recordings too
+  const { data } = useQuery<{ recordings: Recording[] }>({
+    queryKey: ["/api/events", eventId, "recordings", { includeHidden: true }],
+    queryFn: async () => {
+      const response = await fetch(`/api/events/${eventId}/recordings?includeHidden=true`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json();
+    },
+  });
+
+  const invalidateRecordings = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "recordings"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const hideMutation = useMutation({
+    mutationFn: async ({ recordingId, hidden }: { recordingId: string; hidden: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/events/${eventId}/recordings/${recordingId}`, { hidden });
+      return response.json();
+    },
+    onSuccess: invalidateRecordings,
+    onError: onError("Failed to update recording"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (recordingId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/recordings/${recordingId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Recording deleted" });
+      invalidateRecordings();
+    },
+    onError: onError("Failed to delete recording"),
+  });
+
+  const recordings = data?.recordings ?? [];
+  if (recordings.length === 0) return null;
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <Film className="mr-2 h-5 w-5" />
+          Recordings
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y divide-gray-700">
+          {recordings.map((recording) => (
+            <div key={recording.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className={`text-sm font-medium ${recording.hidden ? "text-gray-500" : "text-white"}`}>
+                  {recording.cameraId ? recording.cameraLabel || "Camera angle" : "Full broadcast"}
+                  <span className="ml-2 text-gray-400 font-normal">
+                    {recording.recordedAt && new Date(recording.recordedAt).toLocaleString()}
+                    {recording.durationSeconds !== null && ` · ${formatDuration(recording.durationSeconds)}`}
+                  </span>
+                </p>
+                {recording.hidden && <p className="text-xs text-gray-500">Hidden from viewers</p>}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Badge className={statusStyles[recording.status] ?? "bg-gray-600 text-white"}>{recording.status}</Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title={recording.hidden ? "Show to viewers" : "Hide from viewers"}
+                  onClick={() => hideMutation.mutate({ recordingId: recording.id, hidden: !recording.hidden })}
+                  disabled={hideMutation.isPending}
+                  className="text-gray-400 hover:text-white"
+                >
+                  {recording.hidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Delete"
+                  onClick={() => {
+                    if (window.confirm("Delete this recording? It can't be played back afterwards.")) {
+                      deleteMutation.mutate(recording.id);
+                    }
+                  }}
+                  disabled={deleteMutation.isPending}
+                  className="text-gray-400 hover:text-red-400"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type OnAirReplay } from "@/lib/event-updates";
+import { type ReplayMark } from "@shared/schema";
+import { Bookmark, History, Play, Square } from "lucide-react";
+
+interface ReplayPanelProps {
+  eventId: string;
+  // Marking needs a camera on air; rolling needs the broadcast running
+  canMark: boolean;
+  isLive: boolean;
+  onAir: OnAirReplay | null;
+}
+
+const MARK_LENGTHS = ["5", "10", "15", "30"];
+
+const statusStyles: Record<string, string> = {
+  preparing: "bg-yellow-600 text-white",
+  ready: "bg-green-600 text-white",
+  failed: "bg-red-600 text-white",
+};
+
+export default function ReplayPanel({ eventId, canMark, isLive, onAir }: ReplayPanelProps) {
+  const { toast } = useToast();
+  const [seconds, setSeconds] = useState("10");
+  const [label, setLabel] = useState("");
+
+  const { data } = useQuery<{ replays: ReplayMark[] }>({
+    queryKey: ["/api/events", eventId, "replays"],
+  });
+
+  const invalidateReplays = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "replays"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const markMutation = useMutation({
+    mutationFn: async (data: { seconds: number; label?: string }) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/replays`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setLabel("");
+      invalidateReplays();
+    },
+    onError: onError("Failed to mark replay"),
+  });
+
+  const rollMutation = useMutation({
+    mutationFn: async (replayId: string) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/replays/${replayId}/roll`);
+      return response.json();
+    },
+    onSuccess: invalidateReplays,
+    onError: onError("Failed to roll replay"),
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/replays/stop`);
+      return response.json();
+    },
+    onError: onError("Failed to stop replay"),
+  });
+
+  // Newest first, so the moment just marked is at the top
+  const replays = [...(data?.replays ?? [])].reverse();
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          <span className="flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            Instant Replay
+          </span>
+          {onAir && (
+            <span className="flex items-center space-x-3">
+              <Badge className="bg-yellow-500 text-black">REPLAY ON AIR</Badge>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => stopMutation.mutate()}
+                disabled={stopMutation.isPending}
+                className="border-gray-600 text-gray-300"
+              >
+                <Square className="mr-1 h-4 w-4" />
+                Back to Live
+              </Button>
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <Select value={seconds} onValueChange={setSeconds}>
+            <SelectTrigger className="w-32 bg-gray-700 border-gray-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-700 border-gray-600">
+              {MARK_LENGTHS.map((length) => (
+                <SelectItem key={length} value={length}>Last {length}s</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Label (optional)"
+            value={label}
+            maxLength={100}
+            onChange={(e) => setLabel(e.target.value)}
+            className="md:w-64 bg-gray-700 border-gray-600 text-white"
+          />
+          <Button
+            onClick={() => markMutation.mutate({ seconds: parseInt(seconds, 10), label: label.trim() || undefined })}
+            disabled={!canMark || markMutation.isPending}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            <Bookmark className="mr-2 h-4 w-4" />
+            Mark Replay
+          </Button>
+        </div>
+
+        {replays.length === 0 ? (
+          <p className="text-sm text-gray-400">Marked moments appear here</p>
+        ) : (
+          <div className="divide-y divide-gray-700">
+            {replays.map((replay) => (
+              <div key={replay.id} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm text-white font-medium">
+                    {replay.label || replay.cameraLabel}
+                    <span className="ml-2 text-gray-400 font-normal">
+                      {new Date(replay.startAt).toLocaleTimeString()}
+                      {" · "}
+                      {Math.round((new Date(replay.endAt).getTime() - new Date(replay.startAt).getTime()) / 1000)}s
+                      {replay.label && ` · ${replay.cameraLabel}`}
+                    </span>
+                  </p>
+                  {replay.failureReason && <p className="text-xs text-red-400">{replay.failureReason}</p>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge className={statusStyles[replay.status] ?? "bg-gray-600 text-white"}>{replay.status}</Badge>
+                  <Button
+                    size="sm"
+                    onClick={() => rollMutation.mutate(replay.id)}
+                    disabled={!isLive || replay.status !== "ready" || onAir?.id === replay.id || rollMutation.isPending}
+                    className="bg-green-600 hover:bg-green-700 text-white"
+                  >
+                    <Play className="mr-1 h-4 w-4" />
+                    Roll
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
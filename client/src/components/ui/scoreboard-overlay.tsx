@@ -0,0 +1,39 @@
+import { useClockSeconds, useScoreboard, formatClock } from "@/lib/scoreboard";
+import { getScoreboardPreset } from "@shared/schema";
+
+interface ScoreboardOverlayProps {
+  eventId: string;
+  sportType: string;
+}
+
+// Score bug drawn over the player while the scorekeeper has it switched on
+export default function ScoreboardOverlay({ eventId, sportType }: ScoreboardOverlayProps) {
+  const { scoreboard, receivedAt } = useScoreboard(eventId);
+  const preset = getScoreboardPreset(sportType);
+  const countdown = preset.clock === "down";
+  const clockSeconds = useClockSeconds(preset.clock === "none" ? null : scoreboard?.clock, countdown, receivedAt);
+  const shotClockSeconds = useClockSeconds(scoreboard?.shotClock, true, receivedAt);
+
+  if (!scoreboard?.visible) return null;
+
+  return (
+    <div className="absolute top-4 right-4 flex items-stretch rounded overflow-hidden text-white text-sm font-bold shadow-lg">
+      {[
+        { side: "home", name: scoreboard.homeName, color: scoreboard.homeColor, score: scoreboard.homeScore },
+        { side: "away", name: scoreboard.awayName, color: scoreboard.awayColor, score: scoreboard.awayScore },
+      ].map((team) => (
+        <div key={team.side} className="flex items-center">
+          <span className="px-2 py-1 max-w-[8rem] truncate" style={{ backgroundColor: team.color }}>{team.name}</span>
+          <span className="px-2 py-1 bg-black/80 tabular-nums">{team.score}</span>
+        </div>
+      ))}
+      <div className="flex items-center space-x-2 px-2 py-1 bg-gray-900/90 font-medium">
+        <span className="text-gray-300">{preset.periodLabel} {scoreboard.period}</span>
+        {clockSeconds !== null && <span className="tabular-nums">{formatClock(clockSeconds, countdown)}</span>}
+        {shotClockSeconds !== null && (
+          <span className="tabular-nums text-yellow-400">{Math.ceil(shotClockSeconds)}</span>
+        )}
+      </div>
+    </div>
+  );
+}
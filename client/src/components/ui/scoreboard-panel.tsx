@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useClockSeconds, useScoreboard, formatClock } from "@/lib/scoreboard";
+import {
+  getScoreboardPreset,
+  type AddScoreData, type ScoreboardClockData, type ScoreChange, type ScoreTeam, type UpdateScoreboardData,
+} from "@shared/schema";
+import { type ScoreboardPayload } from "@shared/ws-protocol";
+import { Minus, Pause, Play, Plus, RotateCcw, Trophy } from "lucide-react";
+
+interface ScoreboardPanelProps {
+  eventId: string;
+  sportType: string;
+}
+
+type TeamFields = Pick<ScoreboardPayload, "homeName" | "awayName" | "homeColor" | "awayColor">;
+
+// "12:34" or "95" into seconds
+function parseClock(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  return parseInt(match[1] ?? "0", 10) * 60 + parseFloat(match[2]);
+}
+
+export default function ScoreboardPanel({ eventId, sportType }: ScoreboardPanelProps) {
+  const { toast } = useToast();
+  const preset = getScoreboardPreset(sportType);
+  const countdown = preset.clock === "down";
+  const { scoreboard, receivedAt } = useScoreboard(eventId);
+  const clockSeconds = useClockSeconds(preset.clock === "none" ? null : scoreboard?.clock, countdown, receivedAt);
+  const shotClockSeconds = useClockSeconds(scoreboard?.shotClock, true, receivedAt);
+  // Unsaved edits to the team names and colours
+  const [teams, setTeams] = useState<TeamFields | null>(null);
+  const [clockInput, setClockInput] = useState("");
+
+  const { data: historyData } = useQuery<{ changes: ScoreChange[] }>({
+    queryKey: ["/api/events", eventId, "scoreboard", "history"],
+  });
+
+  const setScoreboard = (data: { scoreboard: ScoreboardPayload }) => {
+    queryClient.setQueryData(["/api/events", eventId, "scoreboard"], { scoreboard: data.scoreboard });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: UpdateScoreboardData) => {
+      const response = await apiRequest("PATCH", `/api/events/${eventId}/scoreboard`, data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setTeams(null);
+      setScoreboard(data);
+    },
+    onError: onError("Failed to update scoreboard"),
+  });
+
+  const scoreMutation = useMutation({
+    mutationFn: async (data: AddScoreData) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/scoreboard/score`, data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setScoreboard(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "scoreboard", "history"] });
+    },
+    onError: onError("Failed to update score"),
+  });
+
+  const clockMutation = useMutation({
+    mutationFn: async (data: ScoreboardClockData) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/scoreboard/clock`, data);
+      return response.json();
+    },
+    onSuccess: setScoreboard,
+    onError: onError("Failed to update clock"),
+  });
+
+  if (!scoreboard) return null;
+
+  const fields = teams ?? scoreboard;
+  const editTeams = (updates: Partial<TeamFields>) => setTeams({ ...fields, ...updates });
+  const setClock = () => {
+    const seconds = parseClock(clockInput);
+    if (seconds === null) {
+      toast({ title: "Enter the clock as m:ss", variant: "destructive" });
+      return;
+    }
+    clockMutation.mutate({ clock: "game", action: "set", seconds });
+    setClockInput("");
+  };
+
+  const recentChanges = [...(historyData?.changes ?? [])].reverse().slice(0, 5);
+  const teamName = (team: string) => (team === "home" ? scoreboard.homeName : scoreboard.awayName);
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          <span className="flex items-center">
+            <Trophy className="mr-2 h-5 w-5" />
+            Scoreboard
+          </span>
+          <span className="flex items-center space-x-2">
+            <Label htmlFor="scoreboardVisible" className="text-sm text-gray-300 font-normal">Show on stream</Label>
+            <Switch
+              id="scoreboardVisible"
+              checked={scoreboard.visible}
+              disabled={updateMutation.isPending}
+              onCheckedChange={(visible) => updateMutation.mutate({ visible })}
+            />
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Teams and score */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(["home", "away"] as ScoreTeam[]).map((team) => {
+            const name = team === "home" ? fields.homeName : fields.awayName;
+            const color = team === "home" ? fields.homeColor : fields.awayColor;
+            const score = team === "home" ? scoreboard.homeScore : scoreboard.awayScore;
+            return (
+              <div key={team} className="rounded-lg bg-gray-700 p-4 space-y-3">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="color"
+                    value={color}
+                    title="Team colour"
+                    onChange={(e) => editTeams(team === "home" ? { homeColor: e.target.value } : { awayColor: e.target.value })}
+                    className="h-9 w-9 rounded bg-transparent cursor-pointer"
+                  />
+                  <Input
+                    value={name}
+                    maxLength={40}
+                    onChange={(e) => editTeams(team === "home" ? { homeName: e.target.value } : { awayName: e.target.value })}
+                    className="bg-gray-600 border-gray-500 text-white"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-4xl font-bold text-white tabular-nums">{score}</span>
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    {preset.scoreButtons.map((points) => (
+                      <Button
+                        key={points}
+                        size="sm"
+                        onClick={() => scoreMutation.mutate({ team, points })}
+                        disabled={scoreMutation.isPending}
+                        className="bg-indigo-600 hover:bg-indigo-700 text-white"
+                      >
+                        +{points}
+                      </Button>
+                    ))}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Correct the score"
+                      onClick={() => scoreMutation.mutate({ team, points: -1 })}
+                      disabled={score === 0 || scoreMutation.isPending}
+                      className="border-gray-500 text-gray-300"
+                    >
+                      -1
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {teams && (
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setTeams(null)} className="border-gray-600 text-gray-300">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateMutation.mutate({
+                homeName: teams.homeName.trim() || "Home",
+                awayName: teams.awayName.trim() || "Away",
+                homeColor: teams.homeColor,
+                awayColor: teams.awayColor,
+              })}
+              disabled={updateMutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              Save Teams
+            </Button>
+          </div>
+        )}
+
+        {/* Period and clocks */}
+        <div className="flex flex-col md:flex-row md:items-center gap-6 border-t border-gray-700 pt-4">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-400">{preset.periodLabel}</span>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => updateMutation.mutate({ period: scoreboard.period - 1 })}
+              disabled={scoreboard.period <= 1 || updateMutation.isPending}
+              className="text-gray-300"
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+            <span className="text-xl font-bold text-white tabular-nums">{scoreboard.period}</span>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => updateMutation.mutate({ period: scoreboard.period + 1 })}
+              disabled={updateMutation.isPending}
+              className="text-gray-300"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {clockSeconds !== null && (
+            <div className="flex items-center space-x-2">
+              <span className="text-2xl font-bold text-white tabular-nums w-20">{formatClock(clockSeconds, countdown)}</span>
+              <Button
+                size="sm"
+                onClick={() => clockMutation.mutate({ clock: "game", action: scoreboard.clock.running ? "stop" : "start" })}
+                disabled={clockMutation.isPending}
+                className={scoreboard.clock.running ? "bg-red-600 hover:bg-red-700 text-white" : "bg-green-600 hover:bg-green-700 text-white"}
+              >
+                {scoreboard.clock.running ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Reset clock"
+                onClick={() => clockMutation.mutate({ clock: "game", action: "reset" })}
+                disabled={clockMutation.isPending}
+                className="text-gray-300"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+              <Input
+                placeholder="m:ss"
+                value={clockInput}
+                onChange={(e) => setClockInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && setClock()}
+                className="w-20 bg-gray-700 border-gray-600 text-white"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={setClock}
+                disabled={!clockInput.trim() || clockMutation.isPending}
+                className="border-gray-600 text-gray-300"
+              >
+                Set
+              </Button>
+            </div>
+          )}
+
+          {shotClockSeconds !== null && (
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-400">Shot</span>
+              <span className="text-2xl font-bold text-yellow-400 tabular-nums w-10">{Math.ceil(shotClockSeconds)}</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                title={scoreboard.shotClock?.running ? "Stop shot clock" : "Start shot clock"}
+                onClick={() => clockMutation.mutate({ clock: "shot", action: scoreboard.shotClock?.running ? "stop" : "start" })}
+                disabled={clockMutation.isPending}
+                className="text-gray-300"
+              >
+                {scoreboard.shotClock?.running ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Reset shot clock"
+                onClick={() => clockMutation.mutate({ clock: "shot", action: "reset" })}
+                disabled={clockMutation.isPending}
+                className="text-gray-300"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Latest score changes */}
+        {recentChanges.length > 0 && (
+          <div className="divide-y divide-gray-700 border-t border-gray-700">
+            {recentChanges.map((change) => (
+              <p key={change.id} className="text-sm text-gray-300 py-2">
+                <span className="text-gray-400">{new Date(change.at).toLocaleTimeString()}</span>
+                <span className="ml-3 text-white font-medium">
+                  {teamName(change.team)} {change.points > 0 ? `+${change.points}` : change.points}
+                </span>
+                <span className="ml-2 text-gray-400">
+                  {change.homeScore}–{change.awayScore} · {preset.periodLabel} {change.period}
+                </span>
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type Camera, type ScheduledSwitch, type SwitchSequence } from "@shared/schema";
+import { CalendarClock, Pause, Play, Repeat, X } from "lucide-react";
+
+interface SwitchSchedulePanelProps {
+  eventId: string;
+  cameras: Pick<Camera, "id" | "label" | "isLive">[];
+}
+
+interface SwitchSchedule {
+  switches: ScheduledSwitch[];
+  sequences: SwitchSequence[];
+}
+
+export default function SwitchSchedulePanel({ eventId, cameras }: SwitchSchedulePanelProps) {
+  const { toast } = useToast();
+  const [switchCameraId, setSwitchCameraId] = useState("");
+  const [delaySeconds, setDelaySeconds] = useState("10");
+  const [sequenceCameraIds, setSequenceCameraIds] = useState<string[]>([]);
+  const [intervalSeconds, setIntervalSeconds] = useState("20");
+
+  const { data: schedule } = useQuery<SwitchSchedule>({
+    queryKey: ["/api/events", eventId, "switch-schedule"],
+  });
+
+  const invalidateSchedule = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "switch-schedule"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (data: { cameraId: string; delaySeconds: number }) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/scheduled-switches`, data);
+      return response.json();
+    },
+    onSuccess: invalidateSchedule,
+    onError: onError("Failed to schedule switch"),
+  });
+
+  const cancelSwitchMutation = useMutation({
+    mutationFn: async (switchId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/scheduled-switches/${switchId}`);
+      return response.json();
+    },
+    onSuccess: invalidateSchedule,
+    onError: onError("Failed to cancel switch"),
+  });
+
+  const startSequenceMutation = useMutation({
+    mutationFn: async (data: { cameraIds: string[]; intervalSeconds: number }) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/switch-sequences`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setSequenceCameraIds([]);
+      invalidateSchedule();
+    },
+    onError: onError("Failed to start sequence"),
+  });
+
+  const resumeSequenceMutation = useMutation({
+    mutationFn: async (sequenceId: string) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/switch-sequences/${sequenceId}/resume`);
+      return response.json();
+    },
+    onSuccess: invalidateSchedule,
+    onError: onError("Failed to resume sequence"),
+  });
+
+  const cancelSequenceMutation = useMutation({
+    mutationFn: async (sequenceId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/switch-sequences/${sequenceId}`);
+      return response.json();
+    },
+    onSuccess: invalidateSchedule,
+    onError: onError("Failed to stop sequence"),
+  });
+
+  const cameraLabel = (cameraId: string) => cameras.find((camera) => camera.id === cameraId)?.label ?? "Removed camera";
+  const switches = schedule?.switches ?? [];
+  const sequence = schedule?.sequences[0];
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <CalendarClock className="mr-2 h-5 w-5" />
+          Scheduled Switching
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Single switches */}
+        <div className="space-y-3">
+          <div className="flex flex-col md:flex-row md:items-end gap-3">
+            <div className="space-y-2">
+              <Label className="text-gray-300">Cut to</Label>
+              <Select value={switchCameraId} onValueChange={setSwitchCameraId}>
+                <SelectTrigger className="w-48 bg-gray-700 border-gray-600 text-white">
+                  <SelectValue placeholder="Choose camera" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600">
+                  {cameras.map((camera) => (
+                    <SelectItem key={camera.id} value={camera.id}>{camera.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delaySeconds" className="text-gray-300">In seconds</Label>
+              <Input
+                id="delaySeconds"
+                type="number"
+                min={1}
+                value={delaySeconds}
+                onChange={(e) => setDelaySeconds(e.target.value)}
+                className="w-28 bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+            <Button
+              onClick={() => scheduleMutation.mutate({ cameraId: switchCameraId, delaySeconds: parseInt(delaySeconds, 10) })}
+              disabled={!switchCameraId || !(parseInt(delaySeconds, 10) > 0) || scheduleMutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              Schedule
+            </Button>
+          </div>
+          {switches.length > 0 && (
+            <div className="divide-y divide-gray-700">
+              {switches.map((scheduled) => (
+                <div key={scheduled.id} className="flex items-center justify-between py-2">
+                  <p className="text-sm text-gray-300">
+                    <span className="text-white font-medium">{cameraLabel(scheduled.cameraId)}</span>
+                    {" at "}
+                    {new Date(scheduled.executeAt).toLocaleTimeString()}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Cancel"
+                    onClick={() => cancelSwitchMutation.mutate(scheduled.id)}
+                    disabled={cancelSwitchMutation.isPending}
+                    className="text-gray-400 hover:text-white"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Rotation */}
+        <div className="space-y-3 border-t border-gray-700 pt-4">
+          {sequence ? (
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <Repeat className="h-4 w-4 text-gray-400" />
+                  <span className="text-white font-medium">
+                    {sequence.cameraIds.map(cameraLabel).join(" → ")}
+                  </span>
+                  <Badge className={sequence.status === "running" ? "bg-green-600 text-white" : "bg-yellow-600 text-white"}>
+                    {sequence.status === "running" ? `Every ${sequence.intervalSeconds}s` : "Paused"}
+                  </Badge>
+                </div>
+                {sequence.pausedReason && <p className="text-sm text-yellow-400 mt-1">{sequence.pausedReason}</p>}
+              </div>
+              <div className="flex items-center space-x-2">
+                {sequence.status === "paused" && (
+                  <Button
+                    size="sm"
+                    onClick={() => resumeSequenceMutation.mutate(sequence.id)}
+                    disabled={resumeSequenceMutation.isPending}
+                    className="bg-green-600 hover:bg-green-700 text-white"
+                  >
+                    <Play className="mr-1 h-4 w-4" />
+                    Resume
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => cancelSequenceMutation.mutate(sequence.id)}
+                  disabled={cancelSequenceMutation.isPending}
+                  className="border-gray-600 text-gray-300"
+                >
+                  <Pause className="mr-1 h-4 w-4" />
+                  Stop
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-400">Click cameras in the order to cycle through them</p>
+              <div className="flex flex-wrap gap-2">
+                {cameras.map((camera) => (
+                  <Button
+                    key={camera.id}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setSequenceCameraIds((ids) => [...ids, camera.id])}
+                    disabled={!camera.isLive}
+                    className="border-gray-600 text-gray-300"
+                  >
+                    {camera.label}
+                  </Button>
+                ))}
+              </div>
+              {sequenceCameraIds.length > 0 && (
+                <div className="flex items-center gap-2 text-sm text-white">
+                  <span>{sequenceCameraIds.map(cameraLabel).join(" → ")}</span>
+                  <Button variant="ghost" size="sm" title="Clear" onClick={() => setSequenceCameraIds([])} className="text-gray-400 hover:text-white">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              <div className="flex items-end gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="intervalSeconds" className="text-gray-300">Seconds per camera</Label>
+                  <Input
+                    id="intervalSeconds"
+                    type="number"
+                    min={5}
+                    value={intervalSeconds}
+                    onChange={(e) => setIntervalSeconds(e.target.value)}
+                    className="w-28 bg-gray-700 border-gray-600 text-white"
+                  />
+                </div>
+                <Button
+                  onClick={() => startSequenceMutation.mutate({ cameraIds: sequenceCameraIds, intervalSeconds: parseInt(intervalSeconds, 10) })}
+                  disabled={sequenceCameraIds.length < 2 || startSequenceMutation.isPending}
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white"
+                >
+                  Start Rotation
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { cameraQualityProfiles, type CameraQuality } from "@shared/schema";
+
+export type FacingMode = "user" | "environment";
+
+const FRAME_RATE = 30;
+const CHUNK_INTERVAL_MS = 500;
+// Give up when this much encoded video is waiting to be uploaded
+const MAX_BUFFERED_BYTES = 4 * 1024 * 1024;
+
+// Containers ffmpeg can read from a pipe, in order of preference; Safari only records MP4
+const MIME_TYPES = [
+  "video/webm;codecs=vp8,opus",
+  "video/webm;codecs=h264,opus",
+  "video/webm",
+  "video/mp4",
+];
+
+function pickMimeType(): string | undefined {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+// Captures the phone camera and publishes it to the server's relay. Frames go
+// through a canvas so flipping between front and back cameras swaps only the
+// source: the recorder, and the stream viewers see, keep running.
+export function useCameraPublisher(quality: string) {
+  const profile = cameraQualityProfiles[quality as CameraQuality] ?? cameraQualityProfiles["720p"];
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+  const audioTrackRef = useRef<MediaStreamTrack | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawTimerRef = useRef<number | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+
+  const [facingMode, setFacingMode] = useState<FacingMode>("environment");
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const drawFrame = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!video || !canvas || !context || video.videoWidth === 0) return;
+
+    // Letterbox so portrait phones don't get stretched into a landscape frame
+    const scale = Math.min(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+    const width = video.videoWidth * scale;
+    const height = video.videoHeight * scale;
+    context.fillStyle = "black";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(video, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+  }, []);
+
+  const startPreview = useCallback(async (facing: FacingMode) => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: {
+          facingMode: facing,
+          width: { ideal: profile.width },
+          height: { ideal: profile.height },
+          frameRate: { ideal: FRAME_RATE },
+        },
+        // The microphone is opened once and kept across camera flips
+        audio: !audioTrackRef.current,
+      });
+
+      cameraStreamRef.current?.getTracks().forEach((track) => track.stop());
+      cameraStreamRef.current = new MediaStream(stream.getVideoTracks());
+      audioTrackRef.current = audioTrackRef.current ?? stream.getAudioTracks()[0] ?? null;
+      setFacingMode(facing);
+
+      if (videoRef.current) {
+        videoRef.current.srcObject = cameraStreamRef.current;
+        await videoRef.current.play().catch(() => {});
+      }
+
+      if (!canvasRef.current) {
+        canvasRef.current = document.createElement("canvas");
+        canvasRef.current.width = profile.width;
+        canvasRef.current.height = profile.height;
+      }
+      if (drawTimerRef.current === null) {
+        drawTimerRef.current = window.setInterval(drawFrame, 1000 / FRAME_RATE);
+      }
+      setIsPreviewing(true);
+    } catch (err) {
+      setError("Camera access denied. Please allow camera and microphone permissions.");
+    }
+  }, [profile.width, profile.height, drawFrame]);
+
+  const stopPreview = useCallback(() => {
+    if (drawTimerRef.current !== null) {
+      clearInterval(drawTimerRef.current);
+      drawTimerRef.current = null;
+    }
+    cameraStreamRef.current?.getTracks().forEach((track) => track.stop());
+    cameraStreamRef.current = null;
+    audioTrackRef.current?.stop();
+    audioTrackRef.current = null;
+    setIsPreviewing(false);
+  }, []);
+
+  const switchCamera = useCallback(() => {
+    return startPreview(facingMode === "user" ? "environment" : "user");
+  }, [facingMode, startPreview]);
+
+  const stopPublishing = useCallback(() => {
+    if (recorderRef.current && recorderRef.current.state !== "inactive") {
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+    socketRef.current?.close();
+    socketRef.current = null;
+    setIsPublishing(false);
+  }, []);
+
+  const startPublishing = useCallback((cameraId: string, cameraToken: string) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !cameraStreamRef.current) {
+      setError("Start the camera preview first");
+      return;
+    }
+
+    const mimeType = pickMimeType();
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws/publish`);
+    socketRef.current = socket;
+    setError(null);
+
+    // The token goes in the first message, never in the URL
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: "publish_auth", cameraId, token: cameraToken }));
+    };
+
+    // The relay only takes media once it has accepted the camera
+    const startRecording = () => {
+      // Audio comes straight from the microphone; video from the canvas
+      const stream = new MediaStream([
+        ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+        ...(audioTrackRef.current ? [audioTrackRef.current] : []),
+      ]);
+      const recorder = new MediaRecorder(stream, {
+        mimeType,
+        videoBitsPerSecond: parseInt(profile.videoBitrate, 10) * 1000,
+      });
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size === 0 || socket.readyState !== WebSocket.OPEN) return;
+        if (socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+          setError("Your connection is too slow for this quality");
+          stopPublishing();
+          return;
+        }
+        socket.send(event.data);
+      };
+
+      recorder.start(CHUNK_INTERVAL_MS);
+      recorderRef.current = recorder;
+      setIsPublishing(true);
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === "PUBLISH_READY" && socketRef.current === socket) {
+          startRecording();
+        } else if (message.type === "PUBLISH_ERROR") {
+          setError(message.message);
+        }
+      } catch (err) {
+        console.error("Error parsing publish relay message:", err);
+      }
+    };
+
+    socket.onclose = (event) => {
+      if (event.code === 4401) {
+        setError("The streaming server didn't accept this camera");
+      }
+      if (socketRef.current === socket) {
+        stopPublishing();
+      }
+    };
+
+    socket.onerror = () => {
+      setError("Lost connection to the streaming server");
+    };
+  }, [profile.videoBitrate, stopPublishing]);
+
+  useEffect(() => {
+    return () => {
+      stopPublishing();
+      stopPreview();
+    };
+  }, [stopPublishing, stopPreview]);
+
+  return {
+    videoRef,
+    facingMode,
+    isPreviewing,
+    isPublishing,
+    error,
+    startPreview,
+    stopPreview,
+    switchCamera,
+    startPublishing,
+    stopPublishing,
+  };
+}
@@ -0,0 +1,118 @@
+import { useCallback, useMemo, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { type ChatMessagePayload } from "@shared/ws-protocol";
+
+interface ChatHistoryPage {
+  messages: ChatMessagePayload[];
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 50;
+const CLIENT_ID_KEY = "sportstream-chat-client";
+
+interface EventChatOptions {
+  // Moderators see hidden messages, flagged, instead of losing them
+  includeHidden?: boolean;
+  enabled?: boolean;
+}
+
+// Random ID this browser chats and watches under, so moderators can time out
+// and ban guests and a guest with several tabs open counts as one viewer
+export function getChatClientId(): string {
+  let clientId = localStorage.getItem(CLIENT_ID_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, clientId);
+  }
+  return clientId;
+}
+
+function createdTime(message: ChatMessagePayload): number {
+  return message.createdAt ? new Date(message.createdAt).getTime() : 0;
+}
+
+// Event chat: history is paged in over REST, while new, restored and hidden
+// messages arrive over the event's WebSocket room and are passed to `receive`
+// and `hide`. Messages are newest first.
+export function useEventChat(eventId: string, { includeHidden = false, enabled = true }: EventChatOptions = {}) {
+  const [liveMessages, setLiveMessages] = useState<ChatMessagePayload[]>([]);
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(() => new Set());
+
+  const history = useInfiniteQuery<ChatHistoryPage>({
+    queryKey: ["/api/events", eventId, "chat", { includeHidden }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (pageParam) params.set("before", pageParam as string);
+      if (includeHidden) params.set("includeHidden", "true");
+      const response = await fetch(`/api/events/${eventId}/chat?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+  });
+
+  // A restored message arrives again as a regular message
+  const receive = useCallback((message: ChatMessagePayload) => {
+    setLiveMessages((prev) => [message, ...prev.filter((m) => m.id !== message.id)]);
+    setHiddenIds((prev) => {
+      if (!prev.has(message.id)) return prev;
+      const next = new Set(prev);
+      next.delete(message.id);
+      return next;
+    });
+  }, []);
+
+  const hide = useCallback((messageId: string) => {
+    setHiddenIds((prev) => new Set(prev).add(messageId));
+  }, []);
+
+  // A message can show up both live and in a history page fetched after it was
+  // sent; the live copy is the newer one
+  const messages = useMemo(() => {
+    const byId = new Map<string, ChatMessagePayload>();
+    const all = [...liveMessages, ...(history.data?.pages.flatMap((page) => page.messages) ?? [])];
+    all.forEach((message) => {
+      if (!byId.has(message.id)) byId.set(message.id, message);
+    });
+
+    return Array.from(byId.values())
+      .map((message) => (hiddenIds.has(message.id) ? { ...message, isModerated: true } : message))
+      .filter((message) => includeHidden || !message.isModerated)
+      .sort((a, b) => createdTime(b) - createdTime(a));
+  }, [liveMessages, hiddenIds, history.data, includeHidden]);
+
+  return {
+    messages,
+    receive,
+    hide,
+    isLoading: history.isLoading,
+    hasMore: history.hasNextPage,
+    loadMore: history.fetchNextPage,
+    isLoadingMore: history.isFetchingNextPage,
+  };
+}
+
+export type EventChat = ReturnType<typeof useEventChat>;
+
+export function formatChatTime(createdAt: Date | string | null): string {
+  if (!createdAt) return "";
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(createdAt).getTime()) / 1000));
+  if (seconds < 10) return "now";
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return new Date(createdAt).toLocaleDateString();
+}
+
+export function chatInitials(username: string): string {
+  return username
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
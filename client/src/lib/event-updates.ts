@@ -0,0 +1,72 @@
+import { useEffect, useRef } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { type CameraSlot, type Event } from "@shared/schema";
+import { type CameraPayload, type ScoreboardPayload } from "@shared/ws-protocol";
+import { type useWebSocket } from "@/lib/websocket";
+
+type EventSocket = Pick<ReturnType<typeof useWebSocket>, "subscribe">;
+
+// The replay rolling in the program, if any
+export interface OnAirReplay {
+  id: string;
+  label: string | null;
+}
+
+// The parts of the cached /api/events/:id payload that live updates touch
+type LiveEvent = Pick<Event, "status" | "activeCamera" | "backupCameraId" | "viewerCount" | "peakViewerCount"> & {
+  cameras: CameraPayload[];
+  slots?: CameraSlot[];
+  replay?: OnAirReplay | null;
+};
+
+// How often pages poll the event while the WebSocket is down
+export const DISCONNECTED_POLL_MS = 5000;
+
+// Applies the event room's WebSocket updates straight to the cached event, so
+// pages stay current without polling. After a reconnect the server replays
+// what was missed; when it can't, the event is refetched instead.
+export function useEventLiveUpdates(eventId: string, { subscribe }: EventSocket) {
+  const hasJoinedRef = useRef(false);
+
+  useEffect(() => {
+    hasJoinedRef.current = false;
+    const queryKey = ["/api/events", eventId];
+    const update = (apply: (event: LiveEvent) => Partial<LiveEvent>) => {
+      queryClient.setQueryData<LiveEvent>(queryKey, (event) => event && { ...event, ...apply(event) });
+    };
+
+    const unsubscribers = [
+      subscribe("CAMERA_ADDED", ({ camera, slotId }) => update((event) => ({
+        cameras: event.cameras.some((c) => c.id === camera.id) ? event.cameras : [...event.cameras, camera],
+        slots: event.slots?.map((slot) => (slot.id === slotId ? { ...slot, cameraId: camera.id } : slot)),
+      }))),
+      subscribe("CAMERA_REMOVED", ({ cameraId }) => update((event) => ({
+        cameras: event.cameras.filter((camera) => camera.id !== cameraId),
+        slots: event.slots?.map((slot) => (slot.cameraId === cameraId ? { ...slot, cameraId: null } : slot)),
+        activeCamera: event.activeCamera === cameraId ? null : event.activeCamera,
+        backupCameraId: event.backupCameraId === cameraId ? null : event.backupCameraId,
+      }))),
+      subscribe("CAMERA_UPDATE", ({ cameraId, isLive }) => update((event) => ({
+        cameras: event.cameras.map((camera) => (camera.id === cameraId ? { ...camera, isLive } : camera)),
+      }))),
+      subscribe("PROGRAM_UPDATE", ({ activeCamera }) => update(() => ({ activeCamera }))),
+      subscribe("PROGRAM_REPLAY_UPDATE", ({ replayId, label, onAir }) => update((event) => ({
+        replay: onAir ? { id: replayId, label } : event.replay?.id === replayId ? null : event.replay,
+      }))),
+      subscribe("EVENT_STATUS_UPDATE", ({ status }) => update(() => ({ status }))),
+      subscribe("VIEWER_COUNT_UPDATE", ({ count, peak }) => update(() => ({ viewerCount: count, peakViewerCount: peak }))),
+      subscribe("SCOREBOARD_UPDATE", ({ scoreboard }) => {
+        queryClient.setQueryData<{ scoreboard: ScoreboardPayload }>(["/api/events", eventId, "scoreboard"], { scoreboard });
+      }),
+      subscribe("JOINED", (message) => {
+        if (message.eventId !== eventId) return;
+        // The first join follows the page's own fetch; later ones are reconnects
+        if (hasJoinedRef.current && !message.resumed) {
+          queryClient.invalidateQueries({ queryKey: ["/api/events", eventId] });
+        }
+        hasJoinedRef.current = true;
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [eventId, subscribe]);
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type ScoreboardPayload } from "@shared/ws-protocol";
+
+type ScoreboardClock = ScoreboardPayload["clock"];
+
+// The event's scoreboard, kept current by SCOREBOARD_UPDATE (see
+// useEventLiveUpdates). receivedAt is when the clocks were last read.
+export function useScoreboard(eventId: string) {
+  const { data, dataUpdatedAt } = useQuery<{ scoreboard: ScoreboardPayload }>({
+    queryKey: ["/api/events", eventId, "scoreboard"],
+  });
+  return { scoreboard: data?.scoreboard, receivedAt: dataUpdatedAt };
+}
+
+// A clock's current reading, ticking while it runs. Counting from when the
+// reading arrived keeps it right whatever this device's clock says.
+export function useClockSeconds(clock: ScoreboardClock | null | undefined, countdown: boolean, receivedAt: number): number | null {
+  const [now, setNow] = useState(() => Date.now());
+  const running = !!clock?.running;
+
+  useEffect(() => {
+    if (!running) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(timer);
+  }, [running, receivedAt]);
+
+  if (!clock) return null;
+  if (!clock.running) return clock.seconds;
+  const elapsed = Math.max(0, now - receivedAt) / 1000;
+  return countdown ? Math.max(0, clock.seconds - elapsed) : clock.seconds + elapsed;
+}
+
+// m:ss, with tenths in a countdown's last minute
+export function formatClock(seconds: number, countdown: boolean): string {
+  if (countdown && seconds < 60) {
+    return (Math.floor(seconds * 10) / 10).toFixed(1);
+  }
+  const whole = countdown ? Math.ceil(seconds) : Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
@@ -1,14 +1,38 @@
 import { useEffect, useRef, useState, useCallback } from "react";
+import {
+  serverMessageSchema, WS_CLOSE_UPGRADE_REQUIRED, WS_PROTOCOL_VERSION,
+  type ClientMessage, type ServerMessage, type ServerMessageOf, type ServerMessageType,
+} from "@shared/ws-protocol";
+import { toast } from "@/hooks/use-toast";
 
-interface WebSocketMessage {
-  type: string;
-  [key: string]: any;
+type Handler<T extends ServerMessageType> = (message: ServerMessageOf<T>) => void;
+type JoinEventMessage = Extract<ClientMessage, { type: "join_event" }>;
+type ResumePoint = NonNullable<JoinEventMessage["resume"]>;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Exponential backoff with jitter, so a server restart isn't met by every
+// page reconnecting in the same instant
+function reconnectDelay(attempt: number): number {
+  const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
 }
 
 export function useWebSocket(path: string) {
   const [isConnected, setIsConnected] = useState(false);
+  const [upgradeRequired, setUpgradeRequired] = useState(false);
   const ws = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  const reconnectAttemptRef = useRef(0);
+  // The room this page is in, rejoined after every reconnect
+  const roomRef = useRef<Omit<JoinEventMessage, "type" | "resume"> | null>(null);
+  const resumeRef = useRef<ResumePoint | null>(null);
+  const handlersRef = useRef(new Map<ServerMessageType, Set<(message: ServerMessage) => void>>());
+
+  const dispatch = useCallback((message: ServerMessage) => {
+    handlersRef.current.get(message.type)?.forEach((handler) => handler(message));
+  }, []);
 
   const connect = useCallback(() => {
     if (ws.current?.readyState === WebSocket.OPEN) {
@@ -17,48 +41,78 @@ export function useWebSocket(path: string) {
 
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}${path}`;
-    
+
     try {
-      ws.current = new WebSocket(wsUrl);
-      
-      ws.current.onopen = () => {
+      const socket = new WebSocket(wsUrl);
+      ws.current = socket;
+
+      socket.onopen = () => {
         console.log("WebSocket connected");
+        // Say which protocol version this page speaks before anything else
+        socket.send(JSON.stringify({ type: "hello", version: WS_PROTOCOL_VERSION } satisfies ClientMessage));
+        if (roomRef.current) {
+          const join: JoinEventMessage = { type: "join_event", ...roomRef.current, resume: resumeRef.current ?? undefined };
+          socket.send(JSON.stringify(join));
+        }
         setIsConnected(true);
         if (reconnectTimeoutRef.current) {
           clearTimeout(reconnectTimeoutRef.current);
         }
       };
-      
-      ws.current.onclose = () => {
+
+      socket.onclose = (event) => {
         console.log("WebSocket disconnected");
         setIsConnected(false);
-        
-        // Reconnect after 3 seconds
+
+        // Reconnecting won't help a page the server no longer speaks to
+        if (event.code === WS_CLOSE_UPGRADE_REQUIRED) {
+          setUpgradeRequired(true);
+          return;
+        }
+
         reconnectTimeoutRef.current = setTimeout(() => {
           connect();
-        }, 3000);
+        }, reconnectDelay(reconnectAttemptRef.current++));
       };
-      
-      ws.current.onerror = (error) => {
+
+      socket.onerror = (error) => {
         console.error("WebSocket error:", error);
         setIsConnected(false);
       };
-      
-      ws.current.onmessage = (event) => {
+
+      socket.onmessage = (event) => {
+        let data: unknown;
         try {
-          const message = JSON.parse(event.data);
-          console.log("WebSocket message received:", message);
-          // Handle different message types here if needed
+          data = JSON.parse(event.data);
         } catch (error) {
           console.error("Error parsing WebSocket message:", error);
+          return;
+        }
+
+        const parsed = serverMessageSchema.safeParse(data);
+        if (!parsed.success) {
+          console.warn("Ignoring unrecognized WebSocket message:", data);
+          return;
         }
+
+        const message = parsed.data;
+        if (message.type === "WELCOME") {
+          reconnectAttemptRef.current = 0;
+        } else if (message.type === "JOINED") {
+          resumeRef.current = { epoch: message.epoch, seq: message.seq };
+        } else if (message.type === "ERROR" && message.code === "UPGRADE_REQUIRED") {
+          toast({ title: "New version available", description: message.message, variant: "destructive" });
+        } else if ("seq" in message && message.seq !== undefined && resumeRef.current) {
+          resumeRef.current = { ...resumeRef.current, seq: Math.max(resumeRef.current.seq, message.seq) };
+        }
+        dispatch(message);
       };
     } catch (error) {
       console.error("Error creating WebSocket connection:", error);
     }
-  }, [path]);
+  }, [path, dispatch]);
 
-  const sendMessage = useCallback((message: WebSocketMessage) => {
+  const sendMessage = useCallback((message: ClientMessage) => {
     if (ws.current?.readyState === WebSocket.OPEN) {
       ws.current.send(JSON.stringify(message));
     } else {
@@ -66,18 +120,56 @@ export function useWebSocket(path: string) {
     }
   }, []);
 
+  // Joins an event room now if connected, and again after every reconnect,
+  // resuming from the last message seen
+  const joinEvent = useCallback((room: Omit<JoinEventMessage, "type" | "resume">) => {
+    if (roomRef.current?.eventId !== room.eventId) {
+      resumeRef.current = null;
+    }
+    roomRef.current = room;
+    if (ws.current?.readyState === WebSocket.OPEN) {
+      ws.current.send(JSON.stringify({ type: "join_event", ...room, resume: resumeRef.current ?? undefined } satisfies JoinEventMessage));
+    }
+  }, []);
+
+  const leaveEvent = useCallback(() => {
+    const room = roomRef.current;
+    roomRef.current = null;
+    resumeRef.current = null;
+    if (room && ws.current?.readyState === WebSocket.OPEN) {
+      ws.current.send(JSON.stringify({ type: "leave_event", eventId: room.eventId } satisfies ClientMessage));
+    }
+  }, []);
+
+  // Registers a handler for one message type; returns the unsubscribe function,
+  // so it can be returned straight from a useEffect
+  const subscribe = useCallback(<T extends ServerMessageType>(type: T, handler: Handler<T>) => {
+    const handlers = handlersRef.current;
+    if (!handlers.has(type)) {
+      handlers.set(type, new Set());
+    }
+    const listener = handler as (message: ServerMessage) => void;
+    handlers.get(type)!.add(listener);
+    return () => {
+      handlers.get(type)?.delete(listener);
+    };
+  }, []);
+
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
     }
     if (ws.current) {
+      // Closing on purpose, so skip the reconnect in onclose
+      ws.current.onclose = null;
       ws.current.close();
+      setIsConnected(false);
     }
   }, []);
 
   useEffect(() => {
     connect();
-    
+
     return () => {
       disconnect();
     };
@@ -85,7 +177,11 @@ export function useWebSocket(path: string) {
 
   return {
     isConnected,
+    upgradeRequired,
     sendMessage,
+    joinEvent,
+    leaveEvent,
+    subscribe,
     disconnect,
   };
 }
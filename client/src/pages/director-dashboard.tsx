@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,9 +6,21 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useWebSocket } from "@/lib/websocket";
-import { type Event, type Camera } from "@shared/schema";
-import { Video, Play, Square, Share, Eye, Clock, Users } from "lucide-react";
+import { useEventChat } from "@/lib/chat";
+import { useEventLiveUpdates, DISCONNECTED_POLL_MS, type OnAirReplay } from "@/lib/event-updates";
+import { type Event, type Camera, type CameraSlot } from "@shared/schema";
+import { Video, Play, Square, Share, Eye, Clock, Users, RefreshCw, X, AlertTriangle } from "lucide-react";
 import { Link } from "wouter";
+import EventMembersPanel from "@/components/ui/event-members-panel";
+import CameraInvitesPanel from "@/components/ui/camera-invites-panel";
+import CameraSlotsPanel from "@/components/ui/camera-slots-panel";
+import BackupCameraPanel from "@/components/ui/backup-camera-panel";
+import SwitchSchedulePanel from "@/components/ui/switch-schedule-panel";
+import ReplayPanel from "@/components/ui/replay-panel";
+import RecordingsPanel from "@/components/ui/recordings-panel";
+import HighlightsPanel from "@/components/ui/highlights-panel";
+import ScoreboardPanel from "@/components/ui/scoreboard-panel";
+import ChatModerationPanel from "@/components/ui/chat-moderation-panel";
 
 interface DirectorDashboardProps {
   eventId: string;
@@ -16,14 +28,63 @@ interface DirectorDashboardProps {
 
 export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
   const { toast } = useToast();
-  const [viewerCount, setViewerCount] = useState(847);
-  const { isConnected, sendMessage } = useWebSocket(`/ws`);
+  const { isConnected, joinEvent, subscribe } = useWebSocket(`/ws`);
+  useEventLiveUpdates(eventId, { subscribe });
 
-  const { data: event, isLoading } = useQuery<Event & { cameras: Camera[] }>({
+  // Live updates keep the event current; poll only while the socket is down
+  const { data: event, isLoading } = useQuery<Event & { cameras: Camera[]; slots: CameraSlot[]; replay: OnAirReplay | null; role: string | null }>({
     queryKey: ["/api/events", eventId],
-    refetchInterval: 5000,
+    refetchInterval: isConnected ? false : DISCONNECTED_POLL_MS,
   });
 
+  const canModerate = ["owner", "director", "producer", "moderator"].includes(event?.role ?? "");
+  const chat = useEventChat(eventId, { includeHidden: true, enabled: canModerate });
+
+  useEffect(() => {
+    const unsubscribers = [
+      subscribe("CHAT_MESSAGE", (message) => chat.receive(message.message)),
+      subscribe("CHAT_MESSAGE_HIDDEN", (message) => chat.hide(message.messageId)),
+      subscribe("CHAT_SETTINGS_UPDATE", () => {
+        queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "chat", "settings"] });
+      }),
+      subscribe("ACTIVE_CAMERA_OFFLINE", (message) => {
+        toast({
+          title: "On-air camera went offline",
+          description: message.fallbackCameraId ? "Switched to the backup camera" : "Cut to another camera now",
+          variant: "destructive",
+        });
+      }),
+      subscribe("SCHEDULED_SWITCH_UPDATE", () => {
+        queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "switch-schedule"] });
+      }),
+      subscribe("SWITCH_SEQUENCE_UPDATE", (message) => {
+        if (message.status === "paused" && message.pausedReason) {
+          toast({ title: "Camera rotation paused", description: message.pausedReason, variant: "destructive" });
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "switch-schedule"] });
+      }),
+      subscribe("SCOREBOARD_UPDATE", () => {
+        queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "scoreboard", "history"] });
+      }),
+      subscribe("RECORDING_READY", () => {
+        queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "recordings"] });
+      }),
+      subscribe("HIGHLIGHT_REEL_UPDATE", (message) => {
+        if (message.status === "failed" && message.failureReason) {
+          toast({ title: "Highlight reel failed", description: message.failureReason, variant: "destructive" });
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "highlight-reels"] });
+      }),
+      subscribe("REPLAY_MARK_UPDATE", (message) => {
+        if (message.status === "failed" && message.failureReason) {
+          toast({ title: "Replay clip failed", description: message.failureReason, variant: "destructive" });
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "replays"] });
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [subscribe, eventId, chat.receive, chat.hide, toast]);
+
   const startStreamMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", `/api/events/${eventId}/start`);
@@ -85,6 +146,49 @@ export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
     },
   });
 
+  const kickCameraMutation = useMutation({
+    mutationFn: async (cameraId: string) => {
+      const response = await apiRequest("DELETE", `/api/events/${eventId}/cameras/${cameraId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Camera removed",
+        description: "The operator has been disconnected",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to remove camera",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const replaceCameraMutation = useMutation({
+    mutationFn: async (cameraId: string) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/cameras/${cameraId}/replace`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Camera replaced",
+        description: "Scan the new QR code under Camera Invitations with the replacement phone",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "camera-invites"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to replace camera",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const addSimulcastMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", `/api/events/${eventId}/simulcast`, {});
@@ -107,14 +211,8 @@ export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
   });
 
   useEffect(() => {
-    if (isConnected && eventId) {
-      sendMessage({
-        type: "join_event",
-        eventId,
-        userId: "director",
-      });
-    }
-  }, [isConnected, eventId, sendMessage]);
+    joinEvent({ eventId });
+  }, [eventId, joinEvent]);
 
   if (isLoading) {
     return (
@@ -133,7 +231,21 @@ export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
   }
 
   const liveCameras = event.cameras.filter(camera => camera.isLive);
-  const availableSlots = 9 - event.cameras.length;
+  const canDirect = event.role === "owner" || event.role === "director";
+  const canManage = canDirect || event.role === "producer";
+  const canKeepScore = canDirect || event.role === "scorekeeper";
+  const maxCameras = event.maxCameras ?? 9;
+
+  // Slotted cameras first, in slot order, then cameras that joined without a slot
+  const slotByCamera = new Map(event.slots.filter(slot => slot.cameraId).map(slot => [slot.cameraId, slot]));
+  const orderedCameras = [
+    ...event.slots.flatMap(slot => event.cameras.filter(camera => camera.id === slot.cameraId)),
+    ...event.cameras.filter(camera => !slotByCamera.has(camera.id)),
+  ];
+  const emptySlots = event.slots.filter(slot => !slot.cameraId);
+  const availableSlots = Math.max(0, maxCameras - event.cameras.length - emptySlots.length);
+  const onAirCamera = event.cameras.find(camera => camera.id === event.activeCamera);
+  const onAirOffline = !!onAirCamera && !onAirCamera.isLive;
 
   return (
     <div className="min-h-screen bg-gray-900">
@@ -155,6 +267,9 @@ export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
               <Link href={`/viewer/${eventId}`} className="text-gray-300 hover:text-white transition-colors">
                 Viewer
               </Link>
+              <Link href={`/events/${eventId}/report`} className="text-gray-300 hover:text-white transition-colors">
+                Report
+              </Link>
             </div>
           </div>
         </div>
@@ -175,14 +290,32 @@ export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
                   <span className="text-sm font-medium text-white">LIVE</span>
                 </div>
               )}
+              {event.status === "disconnected" && (
+                <div className="flex items-center space-x-2">
+                  <div className="w-3 h-3 bg-yellow-500 rounded-full animate-pulse"></div>
+                  <span className="text-sm font-medium text-yellow-400">ENCODER DISCONNECTED</span>
+                </div>
+              )}
               <div className="text-sm text-gray-400 flex items-center space-x-1">
                 <Users className="w-4 h-4" />
-                <span>{viewerCount} viewers</span>
+                <span>{event.viewerCount ?? 0} viewers</span>
+                <span className="text-gray-500">· peak {event.peakViewerCount ?? 0}</span>
               </div>
             </div>
           </div>
         </div>
 
+        {/* On-air camera lost */}
+        {onAirOffline && (
+          <div className="mb-8 bg-red-900/60 border-2 border-red-500 rounded-lg p-4 flex items-center space-x-3 animate-pulse">
+            <AlertTriangle className="h-6 w-6 text-red-400 flex-shrink-0" />
+            <div>
+              <p className="text-white font-bold">ON-AIR CAMERA OFFLINE: {onAirCamera!.label}</p>
+              <p className="text-sm text-red-200">Viewers are seeing a frozen picture. Switch to a live camera.</p>
+            </div>
+          </div>
+        )}
+
         {/* Stream Controls */}
         <Card className="bg-gray-800 border-gray-700 mb-8">
           <CardContent className="p-6">
@@ -284,7 +417,7 @@ export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
 
         {/* Camera Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
-          {event.cameras.map((camera) => (
+          {orderedCameras.map((camera) => (
             <Card
               key={camera.id}
               className={`bg-gray-800 border-gray-700 cursor-pointer hover:ring-2 hover:ring-indigo-500 transition-all ${
@@ -294,7 +427,7 @@ export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
             >
               <div className="aspect-video bg-black relative">
                 <img
-                  src="https://images.unsplash.com/photo-1560272564-c83b66b1ad12?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=450"
+                  src={camera.thumbnailUrl || "https://images.unsplash.com/photo-1560272564-c83b66b1ad12?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=450"}
                   alt={`Live camera feed from ${camera.label}`}
                   className="w-full h-full object-cover"
                 />
@@ -318,11 +451,53 @@ export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
                   <h3 className="font-semibold text-white">{camera.label}</h3>
                   <span className="text-sm text-gray-400">{camera.quality}</span>
                 </div>
-                <p className="text-sm text-gray-400 mt-1">{camera.operatorName || "Unknown operator"}</p>
+                <div className="flex items-center justify-between mt-1">
+                  <p className="text-sm text-gray-400">
+                    {camera.operatorName || "Unknown operator"}
+                    {slotByCamera.has(camera.id) && ` · ${slotByCamera.get(camera.id)!.label}`}
+                  </p>
+                  {canDirect && (
+                    <div className="flex space-x-1" onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Replace camera"
+                        onClick={() => replaceCameraMutation.mutate(camera.id)}
+                        disabled={replaceCameraMutation.isPending}
+                        className="h-7 px-2 text-gray-400 hover:text-white"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Kick camera"
+                        onClick={() => kickCameraMutation.mutate(camera.id)}
+                        disabled={kickCameraMutation.isPending}
+                        className="h-7 px-2 text-gray-400 hover:text-red-400"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
               </CardContent>
             </Card>
           ))}
 
+          {/* Reserved slots waiting for a camera */}
+          {emptySlots.map((slot) => (
+            <Card key={slot.id} className="bg-gray-700 border-dashed border-indigo-500/60">
+              <div className="aspect-video flex items-center justify-center">
+                <div className="text-center text-gray-400">
+                  <Video className="mx-auto text-3xl mb-2" />
+                  <p className="text-white">{slot.label}</p>
+                  <p className="text-sm">Reserved slot</p>
+                </div>
+              </div>
+            </Card>
+          ))}
+
           {/* Placeholder slots */}
           {Array.from({ length: Math.min(availableSlots, 3) }).map((_, index) => (
             <Card key={`placeholder-${index}`} className="bg-gray-700 border-dashed border-gray-600">
@@ -337,6 +512,47 @@ export default function DirectorDashboard({ eventId }: DirectorDashboardProps) {
           ))}
         </div>
 
+        {/* Scoreboard */}
+        {canKeepScore && <ScoreboardPanel eventId={eventId} sportType={event.sportType} />}
+
+        {/* Camera Slots and Invitations */}
+        {canDirect && (
+          <>
+            <BackupCameraPanel
+              eventId={eventId}
+              cameras={event.cameras}
+              backupCameraId={event.backupCameraId}
+              autoFallback={!!event.autoFallback}
+            />
+            <SwitchSchedulePanel eventId={eventId} cameras={event.cameras} />
+            <ReplayPanel
+              eventId={eventId}
+              canMark={event.status === "live" && !!event.activeCamera}
+              isLive={event.status === "live"}
+              onAir={event.replay}
+            />
+            <HighlightsPanel eventId={eventId} sportType={event.sportType} canMark={event.status === "live"} />
+            <CameraSlotsPanel
+              eventId={eventId}
+              slots={event.slots}
+              cameras={event.cameras}
+              maxCameras={maxCameras}
+            />
+            <CameraInvitesPanel eventId={eventId} />
+          </>
+        )}
+
+        {/* Recordings */}
+        {canManage && <RecordingsPanel eventId={eventId} />}
+
+        {/* Chat Moderation */}
+        {canModerate && <ChatModerationPanel eventId={eventId} chat={chat} />}
+
+        {/* Collaborators */}
+        {(event.role === "owner" || event.role === "director" || event.role === "producer") && (
+          <EventMembersPanel eventId={eventId} canManageMembers={event.role === "owner"} />
+        )}
+
         {/* Stream Status */}
         <Card className="bg-gray-800 border-gray-700">
           <CardHeader>
@@ -0,0 +1,230 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { type Event } from "@shared/schema";
+import { BarChart3, Download, Scissors, Timer, Video } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Link } from "wouter";
+
+interface ReportCamera {
+  cameraId: string;
+  label: string;
+  operatorName: string | null;
+  onAirSeconds: number;
+  shots: number;
+  averageShotSeconds: number;
+  share: number;
+}
+
+interface SwitchReport {
+  durationSeconds: number;
+  cuts: number;
+  averageShotSeconds: number;
+  cutsBySource: Record<string, number>;
+  cameras: ReportCamera[];
+  shots: { cameraId: string; cameraLabel: string; source: string; startSeconds: number; endSeconds: number }[];
+}
+
+interface EventReportProps {
+  eventId: string;
+}
+
+const chartConfig = {
+  onAirMinutes: { label: "On air (min)", color: "#6366f1" },
+  camera: { label: "Camera", color: "#6366f1" },
+} satisfies ChartConfig;
+
+function formatSeconds(seconds: number): string {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+    : `${minutes}m ${total % 60}s`;
+}
+
+export default function EventReport({ eventId }: EventReportProps) {
+  const { data: event } = useQuery<Event>({
+    queryKey: ["/api/events", eventId],
+  });
+
+  const { data: report, isLoading, error } = useQuery<SwitchReport>({
+    queryKey: ["/api/events", eventId, "switch-report"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white text-lg">Loading report...</div>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white text-lg">{error ? error.message : "Report not available"}</div>
+      </div>
+    );
+  }
+
+  const usage = report.cameras.map((camera) => ({
+    label: camera.label,
+    onAirMinutes: Math.round((camera.onAirSeconds / 60) * 10) / 10,
+  }));
+
+  // Step line through camera rows: each shot holds its row until the next cut
+  const rows = report.cameras.map((camera) => camera.cameraId);
+  const labels = new Map(report.cameras.map((camera, index) => [index, camera.label]));
+  const timeline = report.shots.flatMap((shot) => [
+    { minute: shot.startSeconds / 60, camera: rows.indexOf(shot.cameraId) },
+    { minute: shot.endSeconds / 60, camera: rows.indexOf(shot.cameraId) },
+  ]);
+
+  const exportUrl = (format: "csv" | "json") => `/api/events/${eventId}/switch-report/export?format=${format}`;
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <div className="container mx-auto px-4 max-w-5xl">
+        <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between">
+          <div>
+            <h2 className="text-3xl font-bold text-white mb-2">Broadcast Report</h2>
+            <p className="text-gray-400">
+              {event?.name}
+              {" · "}
+              <Link href={`/director/${eventId}`} className="text-indigo-400 hover:underline">Back to dashboard</Link>
+            </p>
+          </div>
+          <div className="flex items-center space-x-2 mt-4 md:mt-0">
+            <Button asChild variant="outline" className="border-gray-600 text-gray-300">
+              <a href={exportUrl("csv")} download>
+                <Download className="mr-2 h-4 w-4" />
+                CSV
+              </a>
+            </Button>
+            <Button asChild variant="outline" className="border-gray-600 text-gray-300">
+              <a href={exportUrl("json")} download>
+                <Download className="mr-2 h-4 w-4" />
+                JSON
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          {[
+            { icon: Timer, label: "Broadcast", value: formatSeconds(report.durationSeconds) },
+            { icon: Scissors, label: "Cuts", value: report.cuts },
+            { icon: BarChart3, label: "Average shot", value: `${report.averageShotSeconds}s` },
+            { icon: Video, label: "Cameras", value: report.cameras.length },
+          ].map(({ icon: Icon, label, value }) => (
+            <Card key={label} className="bg-gray-800 border-gray-700">
+              <CardContent className="pt-6">
+                <p className="text-sm text-gray-400 flex items-center">
+                  <Icon className="mr-2 h-4 w-4" />
+                  {label}
+                </p>
+                <p className="text-2xl font-bold text-white mt-1">{value}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {report.shots.length === 0 ? (
+          <Card className="bg-gray-800 border-gray-700 mb-8">
+            <CardContent className="pt-6">
+              <p className="text-gray-400">No camera was on air during the broadcast</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="bg-gray-800 border-gray-700 mb-8">
+              <CardHeader>
+                <CardTitle className="text-white">On-Air Time per Camera</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <BarChart data={usage} layout="vertical" margin={{ left: 24 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" dataKey="onAirMinutes" unit="m" />
+                    <YAxis type="category" dataKey="label" width={100} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="onAirMinutes" fill="var(--color-onAirMinutes)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gray-800 border-gray-700 mb-8">
+              <CardHeader>
+                <CardTitle className="text-white">Timeline</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <LineChart data={timeline} margin={{ left: 24 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      type="number"
+                      dataKey="minute"
+                      domain={[0, report.durationSeconds / 60]}
+                      tickFormatter={(minute: number) => `${Math.round(minute)}m`}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="camera"
+                      domain={[0, Math.max(rows.length - 1, 1)]}
+                      ticks={rows.map((_, index) => index)}
+                      tickFormatter={(index: number) => labels.get(index) ?? ""}
+                      width={100}
+                      reversed
+                    />
+                    <Line type="stepAfter" dataKey="camera" stroke="var(--color-camera)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <Card className="bg-gray-800 border-gray-700 mb-8">
+          <CardHeader>
+            <CardTitle className="text-white">Cameras</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 font-medium">Camera</th>
+                  <th className="py-2 font-medium">Operator</th>
+                  <th className="py-2 font-medium text-right">On air</th>
+                  <th className="py-2 font-medium text-right">Share</th>
+                  <th className="py-2 font-medium text-right">Shots</th>
+                  <th className="py-2 font-medium text-right">Avg shot</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {report.cameras.map((camera) => (
+                  <tr key={camera.cameraId} className="text-white">
+                    <td className="py-2">{camera.label}</td>
+                    <td className="py-2 text-gray-300">{camera.operatorName ?? "—"}</td>
+                    <td className="py-2 text-right">{formatSeconds(camera.onAirSeconds)}</td>
+                    <td className="py-2 text-right">{Math.round(camera.share * 100)}%</td>
+                    <td className="py-2 text-right">{camera.shots}</td>
+                    <td className="py-2 text-right">{camera.averageShotSeconds}s</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {Object.keys(report.cutsBySource).length > 0 && (
+              <p className="text-xs text-gray-400 mt-4">
+                Cuts by source:{" "}
+                {Object.entries(report.cutsBySource).map(([source, count]) => `${source} ${count}`).join(" · ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
@@ -8,8 +8,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useWebSocket } from "@/lib/websocket";
+import { useCameraPublisher } from "@/lib/camera-publisher";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cameraQualityProfiles } from "@shared/schema";
 import { z } from "zod";
-import { Video, QrCode, Camera, Smartphone, Link as LinkIcon, Radio } from "lucide-react";
+import { Video, QrCode, Camera, Smartphone, Link as LinkIcon, Radio, SwitchCamera } from "lucide-react";
 import { Link } from "wouter";
 import QRScanner from "@/components/ui/qr-scanner";
 
@@ -26,11 +30,28 @@ const cameraConfigSchema = z.object({
 type JoinCameraForm = z.infer<typeof joinCameraFormSchema>;
 type CameraConfigForm = z.infer<typeof cameraConfigSchema>;
 
+interface InvitePreview {
+  eventId: string;
+  eventName: string;
+  label: string | null;
+}
+
+// QR codes from the director dashboard encode a /join?invite=... link
+function extractInviteToken(value: string): string | null {
+  try {
+    return new URL(value, window.location.origin).searchParams.get("invite");
+  } catch {
+    return null;
+  }
+}
+
 interface CameraDetails {
   cameraId: string;
   streamKey: string;
   ingestUrl: string;
   label: string;
+  quality: string;
+  cameraToken: string;
 }
 
 export default function JoinCamera() {
@@ -39,6 +60,25 @@ export default function JoinCamera() {
   const [cameraDetails, setCameraDetails] = useState<CameraDetails | null>(null);
   const [showQRScanner, setShowQRScanner] = useState(false);
   const [isLive, setIsLive] = useState(false);
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [removedReason, setRemovedReason] = useState<"kicked" | "replaced" | null>(null);
+  const [useExternalApp, setUseExternalApp] = useState(false);
+  const publisher = useCameraPublisher(cameraDetails?.quality ?? "720p");
+
+  const { joinEvent, subscribe } = useWebSocket(`/ws`);
+
+  // The director can kick or replace this camera at any time
+  useEffect(() => subscribe("CAMERA_REMOVED", (message) => {
+    if (message.cameraId !== cameraDetails?.cameraId) return;
+    publisher.stopPublishing();
+    setCameraDetails(null);
+    setIsLive(false);
+    setEventId(null);
+    setInvite(null);
+    setInviteToken(null);
+    setRemovedReason(message.reason);
+  }), [subscribe, cameraDetails?.cameraId, publisher.stopPublishing]);
 
   const joinForm = useForm<JoinCameraForm>({
     resolver: zodResolver(joinCameraFormSchema),
@@ -77,10 +117,47 @@ export default function JoinCamera() {
     },
   });
 
+  const previewInviteMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const response = await apiRequest("GET", `/api/camera-invites/${encodeURIComponent(token)}`);
+      return response.json() as Promise<InvitePreview>;
+    },
+    onSuccess: (preview, token) => {
+      setInviteToken(token);
+      setInvite(preview);
+      setRemovedReason(null);
+      setEventId(preview.eventId);
+      if (preview.label) {
+        cameraForm.setValue("label", preview.label);
+      }
+      toast({
+        title: "Invitation accepted",
+        description: `Ready to join ${preview.eventName}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Invalid invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("invite");
+    if (token) {
+      previewInviteMutation.mutate(token);
+    }
+  }, []);
+
   const joinCameraMutation = useMutation({
     mutationFn: async (data: CameraConfigForm) => {
       if (!eventId) throw new Error("No event selected");
-      const response = await apiRequest("POST", `/api/events/${eventId}/cameras`, data);
+      const response = await apiRequest("POST", `/api/events/${eventId}/cameras`, {
+        ...data,
+        inviteToken: inviteToken ?? undefined,
+      });
       return response.json();
     },
     onSuccess: (camera) => {
@@ -104,7 +181,7 @@ export default function JoinCamera() {
       if (!cameraDetails) throw new Error("No camera registered");
       const response = await apiRequest("PATCH", `/api/cameras/${cameraDetails.cameraId}/status`, {
         isLive,
-      });
+      }, { "X-Camera-Token": cameraDetails.cameraToken });
       return response.json();
     },
     onSuccess: () => {
@@ -123,10 +200,59 @@ export default function JoinCamera() {
     },
   });
 
+  // Preview the phone camera as soon as it's registered, unless an RTMP app does the streaming
+  useEffect(() => {
+    if (cameraDetails && !useExternalApp && !publisher.isPreviewing) {
+      publisher.startPreview(publisher.facingMode);
+    }
+  }, [cameraDetails, useExternalApp]);
+
+  // A relay failure takes the camera off air
+  useEffect(() => {
+    if (!publisher.error || !cameraDetails) return;
+    toast({
+      title: "Camera problem",
+      description: publisher.error,
+      variant: "destructive",
+    });
+    if (isLive && !publisher.isPublishing) {
+      updateCameraStatusMutation.mutate(false);
+    }
+  }, [publisher.error]);
+
+  // Heartbeat so the server can tell a live phone from one that died mid-stream
+  useEffect(() => {
+    if (!cameraDetails) return;
+
+    const sendHeartbeat = () => {
+      // A live phone re-asserts it, so a camera the sweeper timed out comes back on its own
+      apiRequest("POST", `/api/cameras/${cameraDetails.cameraId}/heartbeat`, isLive ? { isLive } : {}, {
+        "X-Camera-Token": cameraDetails.cameraToken,
+      }).catch((error) => console.error("Camera heartbeat failed:", error));
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, 10000);
+    return () => clearInterval(interval);
+  }, [cameraDetails, isLive]);
+
+  useEffect(() => {
+    if (eventId && cameraDetails) {
+      joinEvent({ eventId, cameraToken: cameraDetails.cameraToken });
+    }
+  }, [eventId, cameraDetails, joinEvent]);
+
   const handleQRScan = (result: string) => {
-    // Extract event code from QR result (assuming QR contains the event code)
-    joinForm.setValue("eventCode", result);
     setShowQRScanner(false);
+
+    const token = extractInviteToken(result);
+    if (token) {
+      previewInviteMutation.mutate(token);
+      return;
+    }
+
+    // Older QR codes carry a bare event code
+    joinForm.setValue("eventCode", result);
     findEventMutation.mutate(result);
   };
 
@@ -139,6 +265,13 @@ export default function JoinCamera() {
   };
 
   const handleGoLive = () => {
+    if (cameraDetails && !useExternalApp) {
+      if (isLive) {
+        publisher.stopPublishing();
+      } else {
+        publisher.startPublishing(cameraDetails.cameraId, cameraDetails.cameraToken);
+      }
+    }
     updateCameraStatusMutation.mutate(!isLive);
   };
 
@@ -177,6 +310,15 @@ export default function JoinCamera() {
             </CardHeader>
 
             <CardContent className="space-y-6">
+              {removedReason && (
+                <div className="bg-red-900/40 border border-red-700 rounded-lg p-4 text-center space-y-1">
+                  <p className="text-white font-medium">
+                    {removedReason === "replaced" ? "This camera was replaced by the director" : "The director removed this camera"}
+                  </p>
+                  <p className="text-sm text-gray-300">Stop your streaming app. Scan a new invitation to join again.</p>
+                </div>
+              )}
+
               {!eventId && (
                 <>
                   {/* QR Scanner Section */}
@@ -233,16 +375,41 @@ export default function JoinCamera() {
 
               {eventId && !cameraDetails && (
                 <form onSubmit={cameraForm.handleSubmit(onCameraSubmit)} className="space-y-4">
+                  {invite && (
+                    <div className="bg-gray-700 rounded-lg p-3 text-center">
+                      <p className="text-sm text-gray-400">Invited to</p>
+                      <p className="text-white font-medium">{invite.eventName}</p>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label htmlFor="label" className="text-white">Camera Label</Label>
                     <Input
                       id="label"
                       {...cameraForm.register("label")}
+                      readOnly={!!invite?.label}
                       placeholder="Main Camera"
                       className="bg-gray-700 border-gray-600 text-white focus:ring-green-500 focus:border-green-500"
                     />
                   </div>
                   
+                  <div className="space-y-2">
+                    <Label className="text-white">Quality</Label>
+                    <Select
+                      value={cameraForm.watch("quality")}
+                      onValueChange={(value) => cameraForm.setValue("quality", value)}
+                    >
+                      <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-700 border-gray-600">
+                        {Object.keys(cameraQualityProfiles).map((quality) => (
+                          <SelectItem key={quality} value={quality}>{quality}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="operatorName" className="text-white">Your Name (Optional)</Label>
                     <Input
@@ -273,25 +440,61 @@ export default function JoinCamera() {
               {cameraDetails && (
                 <div className="space-y-6">
                   {/* Camera Preview */}
-                  <div className="bg-black rounded-lg aspect-video flex items-center justify-center">
-                    <div className="text-center text-gray-500">
-                      <Video className="mx-auto text-3xl mb-2" />
-                      <p>Camera Preview</p>
-                      <p className="text-sm">Use RTMP streaming app</p>
-                    </div>
-                  </div>
+                  {useExternalApp ? (
+                    <>
+                      <div className="bg-black rounded-lg aspect-video flex items-center justify-center">
+                        <div className="text-center text-gray-500">
+                          <Video className="mx-auto text-3xl mb-2" />
+                          <p>Streaming from an external app</p>
+                        </div>
+                      </div>
 
-                  {/* Stream Details */}
-                  <div className="bg-gray-700 rounded-lg p-4 space-y-2">
-                    <div>
-                      <Label className="text-gray-400">Stream URL:</Label>
-                      <p className="text-xs text-white font-mono break-all">{cameraDetails.ingestUrl}</p>
-                    </div>
-                    <div>
-                      <Label className="text-gray-400">Stream Key:</Label>
-                      <p className="text-xs text-white font-mono break-all">{cameraDetails.streamKey}</p>
+                      {/* Stream Details */}
+                      <div className="bg-gray-700 rounded-lg p-4 space-y-2">
+                        <div>
+                          <Label className="text-gray-400">Stream URL:</Label>
+                          <p className="text-xs text-white font-mono break-all">{cameraDetails.ingestUrl}</p>
+                        </div>
+                        <div>
+                          <Label className="text-gray-400">Stream Key:</Label>
+                          <p className="text-xs text-white font-mono break-all">{cameraDetails.streamKey}</p>
+                        </div>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="bg-black rounded-lg aspect-video relative overflow-hidden">
+                      <video
+                        ref={publisher.videoRef}
+                        className={`w-full h-full object-contain ${publisher.facingMode === "user" ? "-scale-x-100" : ""}`}
+                        autoPlay
+                        muted
+                        playsInline
+                      />
+                      {!publisher.isPreviewing && (
+                        <div className="absolute inset-0 flex items-center justify-center text-center text-gray-500">
+                          <div>
+                            <Video className="mx-auto text-3xl mb-2" />
+                            <p>Starting camera...</p>
+                          </div>
+                        </div>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => publisher.switchCamera()}
+                        disabled={!publisher.isPreviewing}
+                        className="absolute top-3 right-3 bg-black/50 text-white hover:bg-black/70"
+                      >
+                        <SwitchCamera className="h-5 w-5" />
+                      </Button>
+                      {publisher.isPublishing && (
+                        <div className="absolute top-3 left-3 flex items-center space-x-1 bg-red-600 text-white text-xs font-bold px-2 py-1 rounded">
+                          <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
+                          <span>LIVE · {cameraDetails.quality}</span>
+                        </div>
+                      )}
                     </div>
-                  </div>
+                  )}
 
                   {/* Go Live Button */}
                   <Button
@@ -314,8 +517,23 @@ export default function JoinCamera() {
                   </Button>
 
                   <div className="text-center text-sm text-gray-400">
-                    <p>Use an RTMP streaming app like Larix Broadcaster</p>
-                    <p>Configure with the URL and key above</p>
+                    {useExternalApp ? (
+                      <p>Configure an RTMP app like Larix Broadcaster with the URL and key above</p>
+                    ) : (
+                      <p>Keep this page open while you stream</p>
+                    )}
+                    <Button
+                      variant="link"
+                      size="sm"
+                      disabled={isLive}
+                      onClick={() => {
+                        if (!useExternalApp) publisher.stopPreview();
+                        setUseExternalApp(!useExternalApp);
+                      }}
+                      className="text-indigo-400"
+                    >
+                      {useExternalApp ? "Stream from this browser instead" : "Use an external streaming app instead"}
+                    </Button>
                   </div>
                 </div>
               )}
@@ -0,0 +1,131 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type Event, type EventMember } from "@shared/schema";
+import { Calendar, Check, Mail, X } from "lucide-react";
+import { Link } from "wouter";
+
+type Invitation = EventMember & {
+  eventName?: string;
+  eventStartDateTime?: string;
+};
+
+export default function MyEvents() {
+  const { toast } = useToast();
+
+  const { data: eventsData, isLoading } = useQuery<{ events: Event[] }>({
+    queryKey: ["/api/events"],
+  });
+
+  const { data: invitationsData } = useQuery<{ invitations: Invitation[] }>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ token, accept }: { token: string; accept: boolean }) => {
+      const response = await apiRequest("POST", `/api/invitations/${token}/${accept ? "accept" : "decline"}`);
+      return response.json();
+    },
+    onSuccess: (_data, { accept }) => {
+      toast({
+        title: accept ? "Invitation accepted" : "Invitation declined",
+        description: accept ? "The event is now in your list" : "You won't be added to the event",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to respond to invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const invitations = invitationsData?.invitations ?? [];
+  const events = eventsData?.events ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <div className="container mx-auto px-4 max-w-3xl space-y-8">
+        {invitations.length > 0 && (
+          <Card className="bg-gray-800 border-gray-700">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center">
+                <Mail className="mr-2 h-5 w-5" />
+                Invitations
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="divide-y divide-gray-700">
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-white font-medium">{invitation.eventName ?? "Event"}</p>
+                    <p className="text-sm text-gray-400">Invited as {invitation.role.replace("_", " ")}</p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      onClick={() => respondMutation.mutate({ token: invitation.inviteToken, accept: true })}
+                      disabled={respondMutation.isPending}
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                    >
+                      <Check className="mr-1 h-4 w-4" />
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => respondMutation.mutate({ token: invitation.inviteToken, accept: false })}
+                      disabled={respondMutation.isPending}
+                      className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                    >
+                      <X className="mr-1 h-4 w-4" />
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-gray-800 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center">
+              <Calendar className="mr-2 h-5 w-5" />
+              My Events
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-gray-400">Loading...</p>
+            ) : events.length === 0 ? (
+              <p className="text-gray-400">
+                No events yet. <Link href="/create" className="text-indigo-400 hover:underline">Create one</Link>
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-700">
+                {events.map((event) => (
+                  <Link key={event.id} href={`/director/${event.id}`} className="flex items-center justify-between py-3 hover:bg-gray-700/50 px-2 rounded">
+                    <div>
+                      <p className="text-white font-medium">{event.name}</p>
+                      <p className="text-sm text-gray-400">{new Date(event.startDateTime).toLocaleString()}</p>
+                    </div>
+                    <Badge className={event.status === "live" ? "bg-red-500 text-white" : "bg-gray-600 text-white"}>
+                      {event.status}
+                    </Badge>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -4,67 +4,136 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useWebSocket } from "@/lib/websocket";
-import { type Event, type Camera } from "@shared/schema";
+import { useEventChat, formatChatTime, chatInitials, getChatClientId } from "@/lib/chat";
+import { useEventLiveUpdates, DISCONNECTED_POLL_MS, type OnAirReplay } from "@/lib/event-updates";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { type Event, type Camera, type Recording } from "@shared/schema";
 import { Video, Eye, Clock, Play, VolumeX, Volume2, Maximize, Send } from "lucide-react";
 import { Link } from "wouter";
+import ScoreboardOverlay from "@/components/ui/scoreboard-overlay";
 
 interface ViewerProps {
   eventId: string;
 }
 
-interface ChatMessage {
-  id: string;
-  user: string;
-  text: string;
-  time: string;
-  avatar: string;
+const CHAT_NAME_KEY = "sportstream-chat-name";
+
+interface Chapter {
+  title: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+// The full broadcast first, then each camera's own angle
+function playableRecordings(recordings: Recording[] = []): Recording[] {
+  return recordings
+    .filter((recording) => recording.status === "ready" && recording.playbackUrl)
+    .sort((a, b) => Number(a.cameraId !== null) - Number(b.cameraId !== null));
+}
+
+function defaultRecordingId(recordings: Recording[] | undefined): string | null {
+  return playableRecordings(recordings)[0]?.id ?? null;
+}
+
+function formatChapterTime(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+interface ChatRules {
+  slowModeSeconds: number;
+  registeredOnly: boolean;
 }
 
 export default function Viewer({ eventId }: ViewerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [chatMessage, setChatMessage] = useState("");
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
-    {
-      id: "1",
-      user: "JohnSports",
-      text: "Great camera work! 🔥",
-      time: "2m",
-      avatar: "JS"
-    },
-    {
-      id: "2", 
-      user: "SportsFan99",
-      text: "Love the multiple angles!",
-      time: "1m",
-      avatar: "SF"
-    },
-    {
-      id: "3",
-      user: "TeamCaptain",
-      text: "Let's go Bulldogs! 🐕",
-      time: "30s",
-      avatar: "TC"
-    }
-  ]);
-  const [viewerCount, setViewerCount] = useState(847);
+  const [guestName, setGuestName] = useState(() => localStorage.getItem(CHAT_NAME_KEY) ?? "");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const chat = useEventChat(eventId);
+  const [chatNotice, setChatNotice] = useState<string | null>(null);
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const [selectedRecordingId, setSelectedRecordingId] = useState<string | null>(null);
+  const lastSentRef = useRef("");
   const videoRef = useRef<HTMLVideoElement>(null);
-  const { isConnected, sendMessage } = useWebSocket(`/ws`);
+  const { isConnected, sendMessage, joinEvent, subscribe } = useWebSocket(`/ws`);
+  useEventLiveUpdates(eventId, { subscribe });
+
+  useEffect(() => {
+    const unsubscribers = [
+      subscribe("CHAT_MESSAGE", (message) => chat.receive(message.message)),
+      subscribe("CHAT_MESSAGE_HIDDEN", (message) => chat.hide(message.messageId)),
+      subscribe("CHAT_SETTINGS_UPDATE", (message) => {
+        queryClient.setQueryData<ChatRules>(["/api/events", eventId, "chat", "settings"], {
+          slowModeSeconds: message.slowModeSeconds,
+          registeredOnly: message.registeredOnly,
+        });
+      }),
+      subscribe("RECORDING_READY", () => {
+        queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "recordings"] });
+      }),
+      subscribe("ERROR", (message) => {
+        if (message.code === "CHAT_REJECTED") {
+          // Give the rejected text back so it isn't lost
+          setChatMessage((current) => current || lastSentRef.current);
+          setChatNotice(message.reason === "rate_limited" ? "Slow down! You're sending messages too quickly." : message.message);
+          if (message.retryAfterMs) {
+            setCooldownUntil(Date.now() + message.retryAfterMs);
+          }
+        } else if (message.code.startsWith("CHAT_")) {
+          toast({ title: "Message not sent", description: message.message, variant: "destructive" });
+        }
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [subscribe, eventId, chat.receive, chat.hide, toast]);
+
+  // Lift the cooldown, and its notice, once the server says sending is allowed again
+  useEffect(() => {
+    if (cooldownUntil === null) return;
+    const timer = setTimeout(() => {
+      setCooldownUntil(null);
+      setChatNotice(null);
+    }, Math.max(0, cooldownUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [cooldownUntil]);
+
+  const { data: chatRules } = useQuery<ChatRules>({
+    queryKey: ["/api/events", eventId, "chat", "settings"],
+  });
+
+  // Signed-in viewers chat under their profile name; guests pick one
+  const chatName = user
+    ? user.displayName || [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email.split("@")[0]
+    : guestName.trim();
 
-  const { data: event, isLoading } = useQuery<Event & { cameras: Camera[] }>({
+  const { data: event, isLoading } = useQuery<Event & { cameras: Camera[]; playbackUrl: string | null; replay: OnAirReplay | null }>({
     queryKey: ["/api/events", eventId],
-    refetchInterval: 10000,
+    // Live updates keep the event current; poll only while the socket is down
+    refetchInterval: isConnected ? false : DISCONNECTED_POLL_MS,
+  });
+
+  // Once the broadcast has ended its recordings replace the live stream
+  const hasEnded = event?.status === "ended";
+  const { data: recordingsData } = useQuery<{ recordings: Recording[] }>({
+    queryKey: ["/api/events", eventId, "recordings"],
+    enabled: hasEnded,
+  });
+
+  const playingRecordingId = selectedRecordingId ?? defaultRecordingId(recordingsData?.recordings);
+  const { data: chaptersData } = useQuery<{ chapters: Chapter[] }>({
+    queryKey: ["/api/events", eventId, "recordings", playingRecordingId, "chapters"],
+    enabled: hasEnded && !!playingRecordingId,
   });
 
   useEffect(() => {
-    if (isConnected && eventId) {
-      sendMessage({
-        type: "join_event",
-        eventId,
-        userId: "viewer",
-      });
-    }
-  }, [isConnected, eventId, sendMessage]);
+    joinEvent({ eventId, clientId: getChatClientId() });
+  }, [eventId, joinEvent]);
 
   const togglePlay = () => {
     if (videoRef.current) {
@@ -94,18 +163,20 @@ export default function Viewer({ eventId }: ViewerProps) {
     }
   };
 
+  // The message appears once the server echoes it back to the room
   const sendChatMessage = () => {
-    if (chatMessage.trim()) {
-      const newMessage: ChatMessage = {
-        id: Date.now().toString(),
-        user: "You",
-        text: chatMessage,
-        time: "now",
-        avatar: "Y"
-      };
-      setChatMessages(prev => [newMessage, ...prev]);
-      setChatMessage("");
+    if (!chatMessage.trim() || !chatName || cooldownUntil) return;
+    if (!isConnected) {
+      toast({ title: "Message not sent", description: "Reconnecting to chat...", variant: "destructive" });
+      return;
+    }
+    if (!user) {
+      localStorage.setItem(CHAT_NAME_KEY, chatName);
     }
+    lastSentRef.current = chatMessage.trim();
+    sendMessage({ type: "chat_send", username: chatName, message: lastSentRef.current });
+    setChatMessage("");
+    setChatNotice(null);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -130,7 +201,17 @@ export default function Viewer({ eventId }: ViewerProps) {
     );
   }
 
-  const playbackUrl = event.playbackId ? `https://stream.mux.com/${event.playbackId}.m3u8` : '';
+  const recordings = playableRecordings(recordingsData?.recordings);
+  const chapters = chaptersData?.chapters ?? [];
+  const broadcastParts = recordings.filter((recording) => recording.cameraId === null);
+  const recording = recordings.find((r) => r.id === playingRecordingId);
+  const recordingTitle = (r: Recording) => r.cameraId
+    ? r.cameraLabel || "Camera angle"
+    : broadcastParts.length > 1 ? `Full broadcast (part ${broadcastParts.indexOf(r) + 1})` : "Full broadcast";
+
+  // The event stream carries the program output, which the server cuts on
+  // every switch; after the event its recording plays instead
+  const playbackUrl = hasEnded ? recording?.playbackUrl || '' : event.playbackUrl || '';
   const activeCamera = event.cameras.find(c => c.id === event.activeCamera);
 
   return (
@@ -173,7 +254,15 @@ export default function Viewer({ eventId }: ViewerProps) {
                       poster="https://images.unsplash.com/photo-1578662996442-48f60103fc96?auto=format&fit=crop&w=1200&h=675"
                       onPlay={() => setIsPlaying(true)}
                       onPause={() => setIsPlaying(false)}
-                    />
+                    >
+                      {recording && (
+                        <track
+                          kind="chapters"
+                          src={`/api/events/${eventId}/recordings/${recording.id}/chapters?format=vtt`}
+                          default
+                        />
+                      )}
+                    </video>
                   ) : (
                     <img
                       src="https://images.unsplash.com/photo-1578662996442-48f60103fc96?auto=format&fit=crop&w=1200&h=675"
@@ -181,6 +270,22 @@ export default function Viewer({ eventId }: ViewerProps) {
                       className="w-full h-full object-cover"
                     />
                   )}
+
+                  {hasEnded && !recording && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+                      <p className="text-white text-lg">This event has ended. Its recording will appear here once it is ready.</p>
+                    </div>
+                  )}
+
+                  {/* The program is showing a replay rather than live action */}
+                  {event.replay && (
+                    <div className="absolute top-4 left-4 bg-yellow-500 text-black px-3 py-1 rounded text-sm font-bold tracking-wide">
+                      REPLAY{event.replay.label ? ` · ${event.replay.label}` : ""}
+                    </div>
+                  )}
+
+                  {/* Live score; recordings don't carry it */}
+                  {!hasEnded && <ScoreboardOverlay eventId={eventId} sportType={event.sportType} />}
                   
                   {/* Video Controls Overlay */}
                   <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
@@ -235,7 +340,7 @@ export default function Viewer({ eventId }: ViewerProps) {
                   <div className="flex flex-wrap items-center gap-4 text-gray-400">
                     <div className="flex items-center space-x-2">
                       <Eye className="h-4 w-4" />
-                      <span>{viewerCount} watching</span>
+                      <span>{event.viewerCount ?? 0} watching</span>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Clock className="h-4 w-4" />
@@ -246,6 +351,43 @@ export default function Viewer({ eventId }: ViewerProps) {
                       <span>{activeCamera?.label || "No active camera"}</span>
                     </div>
                   </div>
+                  {recordings.length > 1 && (
+                    <div className="flex flex-wrap gap-2 mt-4">
+                      {recordings.map((r) => (
+                        <Button
+                          key={r.id}
+                          size="sm"
+                          variant={r.id === recording?.id ? "default" : "outline"}
+                          onClick={() => setSelectedRecordingId(r.id)}
+                          className={r.id === recording?.id ? "bg-indigo-600 hover:bg-indigo-700 text-white" : "border-gray-600 text-gray-300"}
+                        >
+                          {recordingTitle(r)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  {chapters.length > 1 && (
+                    <div className="mt-4">
+                      <h3 className="text-sm font-semibold text-white mb-2">Chapters</h3>
+                      <div className="divide-y divide-gray-700">
+                        {chapters.map((chapter) => (
+                          <button
+                            key={chapter.startSeconds}
+                            onClick={() => {
+                              if (videoRef.current) {
+                                videoRef.current.currentTime = chapter.startSeconds;
+                                videoRef.current.play();
+                              }
+                            }}
+                            className="w-full flex items-center space-x-3 py-2 text-left text-sm text-gray-300 hover:text-white"
+                          >
+                            <span className="text-indigo-300 tabular-nums">{formatChapterTime(chapter.startSeconds)}</span>
+                            <span>{chapter.title}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -255,39 +397,76 @@ export default function Viewer({ eventId }: ViewerProps) {
               <Card className="bg-gray-900 border-gray-700 shadow-2xl h-full flex flex-col">
                 <CardHeader className="border-b border-gray-700">
                   <CardTitle className="text-white">Live Chat</CardTitle>
-                  <p className="text-sm text-gray-400">{viewerCount} watching</p>
+                  <p className="text-sm text-gray-400">{event.viewerCount ?? 0} watching</p>
                 </CardHeader>
                 
                 {/* Chat Messages */}
                 <div className="flex-1 p-4 space-y-3 overflow-y-auto" style={{ maxHeight: "400px" }}>
-                  {chatMessages.map((message) => (
-                    <div key={message.id} className="flex space-x-3">
-                      <div className="w-8 h-8 bg-indigo-600 rounded-full flex items-center justify-center text-xs font-bold text-white">
-                        {message.avatar}
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-2">
-                          <span className="font-semibold text-sm text-white">{message.user}</span>
-                          <span className="text-xs text-gray-500">{message.time}</span>
+                  {chat.isLoading ? (
+                    <p className="text-sm text-gray-500">Loading chat...</p>
+                  ) : chat.messages.length === 0 ? (
+                    <p className="text-sm text-gray-500">No messages yet. Say hello!</p>
+                  ) : (
+                    chat.messages.map((message) => (
+                      <div key={message.id} className="flex space-x-3">
+                        <div className="w-8 h-8 bg-indigo-600 rounded-full flex items-center justify-center text-xs font-bold text-white">
+                          {chatInitials(message.username)}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center space-x-2">
+                            <span className="font-semibold text-sm text-white">{message.username}</span>
+                            <span className="text-xs text-gray-500">{formatChatTime(message.createdAt)}</span>
+                          </div>
+                          <p className="text-sm text-gray-300 break-words">{message.message}</p>
                         </div>
-                        <p className="text-sm text-gray-300">{message.text}</p>
                       </div>
-                    </div>
-                  ))}
+                    ))
+                  )}
+                  {chat.hasMore && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => chat.loadMore()}
+                      disabled={chat.isLoadingMore}
+                      className="w-full text-gray-400 hover:text-white"
+                    >
+                      {chat.isLoadingMore ? "Loading..." : "Load earlier messages"}
+                    </Button>
+                  )}
                 </div>
                 
                 {/* Chat Input */}
-                <div className="p-4 border-t border-gray-700">
+                <div className="p-4 border-t border-gray-700 space-y-2">
+                  {chatNotice && (
+                    <p className="text-xs text-red-400">{chatNotice}</p>
+                  )}
+                  {chatRules?.registeredOnly && !user && (
+                    <p className="text-xs text-amber-400">Chat is limited to signed-in viewers</p>
+                  )}
+                  {!!chatRules?.slowModeSeconds && (
+                    <p className="text-xs text-gray-400">Slow mode: one message every {chatRules.slowModeSeconds}s</p>
+                  )}
+                  {!user && (
+                    <Input
+                      value={guestName}
+                      onChange={(e) => setGuestName(e.target.value)}
+                      placeholder="Your name"
+                      maxLength={32}
+                      className="bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+                    />
+                  )}
                   <div className="flex space-x-2">
                     <Input
                       value={chatMessage}
                       onChange={(e) => setChatMessage(e.target.value)}
                       onKeyPress={handleKeyPress}
                       placeholder="Say something..."
+                      maxLength={500}
                       className="flex-1 bg-gray-700 border-gray-600 text-white placeholder-gray-400 focus:ring-indigo-500 focus:border-indigo-500"
                     />
                     <Button
                       onClick={sendChatMessage}
+                      disabled={!chatMessage.trim() || !chatName || !!cooldownUntil}
                       className="bg-indigo-600 hover:bg-indigo-700 text-white"
                     >
                       <Send className="h-4 w-4" />
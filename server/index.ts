@@ -2,8 +2,27 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
 const app = express();
-app.use(express.json());
+// Behind a reverse proxy, set TRUST_PROXY (e.g. 1 for a single hop) so client
+// addresses come from X-Forwarded-For; otherwise the header is ignored
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+app.use(express.json({
+  // Keep the raw bytes around for webhook signature verification
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
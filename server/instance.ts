@@ -0,0 +1,6 @@
+import crypto from 'crypto';
+
+// Identifies this server process among the instances sharing the database.
+// A fresh ID per process, so a restarted instance never inherits rows left
+// behind by the one it replaced.
+export const instanceId = crypto.randomUUID();
@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { Camera, Event } from '@shared/schema';
+import { storage } from '../storage';
+import { eventAccess, type AccessContext, type EventPermission, type EventRole } from '../services/event-access';
+import { optionalAuth } from './auth';
+
+declare global {
+  namespace Express {
+    interface Request {
+      event?: Event;
+      eventRole?: EventRole | null;
+      camera?: Camera;
+    }
+  }
+}
+
+function accessContext(req: Request): AccessContext {
+  return {
+    user: req.user ?? null,
+    cameraToken: req.get('x-camera-token') ?? null,
+  };
+}
+
+// Attach the signed-in user, if any, before looking at event roles
+function loadUser(req: Request, res: Response): Promise<void> {
+  return new Promise((resolve) => optionalAuth(req, res, () => resolve()));
+}
+
+function deny(req: Request, res: Response) {
+  // Anonymous callers are asked to sign in; signed-in callers simply lack the role
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  return res.status(403).json({ error: 'Insufficient permissions' });
+}
+
+// Loads the event with `loadEvent` and checks the caller's role on it. The
+// event and role are left on the request for the handler.
+const authorizeEvent = (
+  permission: EventPermission,
+  loadEvent: (req: Request) => Promise<Event | undefined>,
+): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await loadUser(req, res);
+
+      const event = await loadEvent(req);
+      if (!event) {
+        return res.status(404).json({ error: 'Event not found' });
+      }
+
+      const role = await eventAccess.resolveRole(event, accessContext(req));
+      if (!eventAccess.hasPermission(role, permission)) {
+        return deny(req, res);
+      }
+
+      req.event = event;
+      req.eventRole = role;
+      next();
+    } catch (error) {
+      console.error('Event authorization error:', error);
+      res.status(500).json({ error: 'Authorization error' });
+    }
+  };
+};
+
+// The event named by its ID in a route parameter
+export const requireEventPermission = (permission: EventPermission, param = 'id'): RequestHandler =>
+  authorizeEvent(permission, (req) => storage.getEvent(req.params[param]));
+
+// The event named by its share code, as typed in on the camera join page
+export const requireEventCodePermission = (permission: EventPermission, param = 'code'): RequestHandler =>
+  authorizeEvent(permission, (req) => storage.getEventByCode(req.params[param]));
+
+// Camera routes: the caller must operate this specific camera or direct its event
+export const requireCameraOperator = (param = 'id'): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await loadUser(req, res);
+
+      const camera = await storage.getCamera(req.params[param]);
+      if (!camera) {
+        return res.status(404).json({ error: 'Camera not found' });
+      }
+
+      const event = await storage.getEvent(camera.eventId);
+      if (!event) {
+        return res.status(404).json({ error: 'Event not found' });
+      }
+
+      const context = accessContext(req);
+      const role = await eventAccess.resolveRole(event, context);
+      if (!eventAccess.canOperateCamera(role, camera, context)) {
+        return deny(req, res);
+      }
+
+      req.event = event;
+      req.eventRole = role;
+      req.camera = camera;
+      next();
+    } catch (error) {
+      console.error('Camera authorization error:', error);
+      res.status(500).json({ error: 'Authorization error' });
+    }
+  };
+};
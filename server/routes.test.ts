@@ -0,0 +1,431 @@
+import express from "express";
+import session from "express-session";
+import request from "supertest";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Server } from "http";
+import type { Camera, CameraInvite, Event, EventMember, MemberRole, Scoreboard, ScoreChange, SwitchLog, User } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { streamingProvider } from "./services/streaming";
+import { cameraInviteService } from "./services/camera-invites";
+
+// Every storage method resolves to undefined unless a test says otherwise
+const storage = vi.hoisted(() => {
+  const methods: Record<string, ReturnType<typeof vi.fn>> = {};
+  return new Proxy(methods, {
+    get: (target, name: string) => (target[name] ??= vi.fn(async () => undefined)),
+  });
+});
+
+vi.mock("./storage", () => ({ storage }));
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+// Sessions live in memory instead of the sessions table
+vi.mock("connect-pg-simple", () => ({ default: () => session.MemoryStore }));
+vi.mock("./services/auth", () => ({
+  authService: {
+    login: vi.fn(async ({ email }: { email: string }) => {
+      const user = users.find((candidate) => candidate.email === email);
+      if (!user) throw new Error("Invalid email or password");
+      return user;
+    }),
+    getUserById: vi.fn(async (id: string) => users.find((user) => user.id === id) ?? null),
+  },
+}));
+
+function makeUser(id: string, role = "user"): User {
+  return { id, email: `${id}@example.com`, role, displayName: id } as User;
+}
+
+const memberRoles: MemberRole[] = ["director", "producer", "moderator", "camera_operator", "scorekeeper"];
+
+// Each member is named after the role they hold on the event
+const users = [
+  makeUser("organizer"),
+  makeUser("admin", "admin"),
+  makeUser("stranger"),
+  ...memberRoles.map((role) => makeUser(role)),
+];
+
+const privateEvent = {
+  id: "event-1",
+  name: "Cup Final",
+  sportType: "soccer",
+  eventCode: "CUPFINAL-1",
+  organizerId: "organizer",
+  isPublic: false,
+  status: "idle",
+  playbackId: null,
+  streamKey: "secret-key",
+  ingestUrl: "rtmp://ingest",
+} as Event;
+
+const phone = {
+  id: "camera-1",
+  eventId: privateEvent.id,
+  label: "Goal line",
+  operatorId: null,
+  accessToken: "phone-token",
+} as Camera;
+
+let app: express.Express;
+let server: Server;
+let event: Event;
+// The event's stream on the local provider, so start/stop work without Mux
+let streamId: string;
+
+async function signIn(userId: string) {
+  const agent = request.agent(app);
+  await agent.post("/api/auth/login").send({ email: `${userId}@example.com`, password: "password" }).expect(200);
+  return agent;
+}
+
+beforeAll(async () => {
+  storage.getPendingScheduledSwitches.mockResolvedValue([]);
+  storage.getActiveSwitchSequences.mockResolvedValue([]);
+  storage.getHighlightReelsByStatus.mockResolvedValue([]);
+  storage.touchViewerPresence.mockResolvedValue(0);
+  storage.pruneViewerPresence.mockResolvedValue([]);
+
+  streamId = (await streamingProvider.createLiveStream()).id;
+
+  app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  event = { ...privateEvent, muxStreamId: streamId };
+  storage.getEvent.mockImplementation(async (id: string) => (id === event.id ? event : undefined));
+  storage.getEventByCode.mockImplementation(async (code: string) => (code === event.eventCode ? event : undefined));
+  storage.getCamerasByEvent.mockResolvedValue([phone]);
+  storage.getCameraSlotsByEvent.mockResolvedValue([]);
+  storage.getSwitchLogsByEvent.mockResolvedValue([]);
+  storage.getAcceptedMembership.mockImplementation(async (eventId: string, userId: string) => {
+    const role = memberRoles.find((memberRole) => memberRole === userId);
+    return role ? ({ eventId, userId, role, status: "accepted" } as EventMember) : undefined;
+  });
+});
+
+describe("GET /api/events/code/:code", () => {
+  it("returns 404 for an unknown code", async () => {
+    await request(app).get("/api/events/code/NOPE").expect(404);
+  });
+
+  it("lets anyone read a public event as a viewer", async () => {
+    event.isPublic = true;
+    const response = await request(app).get(`/api/events/code/${event.eventCode}`).expect(200);
+    expect(response.body.id).toBe(event.id);
+    expect(response.body.role).toBe("viewer");
+    expect(response.body.streamKey).toBeUndefined();
+  });
+
+  it("asks anonymous callers to sign in for a private event", async () => {
+    const response = await request(app).get(`/api/events/code/${event.eventCode}`).expect(401);
+    expect(response.body.id).toBeUndefined();
+  });
+
+  it("refuses signed-in callers without a role on a private event", async () => {
+    const agent = await signIn("stranger");
+    const response = await agent.get(`/api/events/code/${event.eventCode}`).expect(403);
+    expect(response.body.id).toBeUndefined();
+  });
+
+  it("lets the organizer and admins read a private event as its owner", async () => {
+    for (const userId of ["organizer", "admin"]) {
+      const agent = await signIn(userId);
+      const response = await agent.get(`/api/events/code/${event.eventCode}`).expect(200);
+      expect(response.body.role).toBe("owner");
+    }
+  });
+
+  it.each(memberRoles)("lets a %s read a private event with their role", async (role) => {
+    const agent = await signIn(role);
+    const response = await agent.get(`/api/events/code/${event.eventCode}`).expect(200);
+    expect(response.body.role).toBe(role);
+  });
+
+  it("lets a camera phone read a private event with its camera token", async () => {
+    const response = await request(app)
+      .get(`/api/events/code/${event.eventCode}`)
+      .set("x-camera-token", phone.accessToken!)
+      .expect(200);
+    expect(response.body.role).toBe("camera_operator");
+  });
+
+  it("refuses a wrong camera token on a private event", async () => {
+    await request(app)
+      .get(`/api/events/code/${event.eventCode}`)
+      .set("x-camera-token", "not-the-token")
+      .expect(401);
+  });
+});
+
+describe("POST /api/events", () => {
+  it("requires a signed-in user", async () => {
+    await request(app).post("/api/events").send({ name: "Derby" }).expect(401);
+  });
+
+  it("creates the event's live stream with the configured provider", async () => {
+    storage.createEvent.mockImplementation(async (data: Partial<Event>) => ({ ...privateEvent, ...data, id: "event-2" }));
+    storage.updateEvent.mockImplementation(async (id: string, updates: Partial<Event>) => ({ ...privateEvent, id, ...updates }));
+
+    const agent = await signIn("organizer");
+    const response = await agent
+      .post("/api/events")
+      .send({ name: "Derby", sportType: "soccer", startDateTime: new Date().toISOString(), duration: 2 })
+      .expect(200);
+
+    expect(response.body.eventId).toBe("event-2");
+    expect(response.body.eventCode).toMatch(/^DERBY-/);
+    expect(storage.createEvent).toHaveBeenCalledWith(expect.objectContaining({ organizerId: "organizer" }));
+    const { muxStreamId } = storage.updateEvent.mock.calls.at(-1)![1];
+    expect(await streamingProvider.getLiveStreamStatus(muxStreamId)).toBe("idle");
+  });
+});
+
+// Who may use each guarded route on a private event. Everyone else with an
+// account is refused with 403; anonymous callers are asked to sign in.
+const guardedRoutes: Array<{
+  route: string;
+  allowed: string[];
+  send: (agent: ReturnType<typeof request.agent>) => request.Test;
+}> = [
+  {
+    route: "GET /api/events/:id",
+    allowed: ["organizer", "admin", ...memberRoles],
+    send: (agent) => agent.get(`/api/events/${privateEvent.id}`),
+  },
+  {
+    route: "PATCH /api/events/:id/backup-camera",
+    allowed: ["organizer", "admin", "director"],
+    send: (agent) => agent.patch(`/api/events/${privateEvent.id}/backup-camera`).send({ cameraId: null, autoFallback: false }),
+  },
+  {
+    route: "GET /api/events/:id/program",
+    allowed: ["organizer", "admin", "director"],
+    send: (agent) => agent.get(`/api/events/${privateEvent.id}/program`),
+  },
+  {
+    route: "POST /api/events/:id/stop",
+    allowed: ["organizer", "admin", "director", "producer"],
+    send: (agent) => agent.post(`/api/events/${privateEvent.id}/stop`),
+  },
+  {
+    route: "GET /api/events/:id/switch-report",
+    allowed: ["organizer", "admin", "director", "producer"],
+    send: (agent) => agent.get(`/api/events/${privateEvent.id}/switch-report`),
+  },
+  {
+    route: "POST /api/cameras/:id/heartbeat",
+    allowed: ["organizer", "admin", "director"],
+    send: (agent) => agent.post(`/api/cameras/${phone.id}/heartbeat`).send({}),
+  },
+];
+
+describe.each(guardedRoutes)("$route", ({ allowed, send }) => {
+  beforeEach(() => {
+    storage.getCamera.mockImplementation(async (id: string) => (id === phone.id ? phone : undefined));
+  });
+
+  it("asks anonymous callers to sign in", async () => {
+    await send(request.agent(app)).expect(401);
+  });
+
+  it.each(users.map((user) => user.id))("answers %s according to their role", async (userId) => {
+    const agent = await signIn(userId);
+    await send(agent).expect(allowed.includes(userId) ? 200 : 403);
+  });
+});
+
+describe("switch report", () => {
+  const startedAt = new Date("2026-01-01T12:00:00Z");
+  const at = (seconds: number) => new Date(startedAt.getTime() + seconds * 1000);
+  const bench = { ...phone, id: "camera-2", label: "Bench, home side", operatorName: "Sam" } as Camera;
+  // Newest first, as storage returns them
+  const logs = [
+    { id: "log-3", eventId: privateEvent.id, cameraId: bench.id, source: "scheduled", switchedAt: at(60) },
+    { id: "log-2", eventId: privateEvent.id, cameraId: phone.id, source: "manual", switchedAt: at(-10) },
+  ] as SwitchLog[];
+
+  beforeEach(() => {
+    event = { ...event, startedAt, endedAt: at(100) };
+    storage.getSwitchLogsByEvent.mockResolvedValue(logs);
+    storage.getCamerasByEvent.mockResolvedValue([phone, bench]);
+  });
+
+  it("totals on-air time and cuts per camera from the start of the broadcast", async () => {
+    const agent = await signIn("producer");
+    const { body } = await agent.get(`/api/events/${privateEvent.id}/switch-report`).expect(200);
+
+    expect(body).toMatchObject({ durationSeconds: 100, cuts: 2, averageShotSeconds: 50, cutsBySource: { manual: 1, scheduled: 1 } });
+    expect(body.cameras).toEqual([
+      expect.objectContaining({ cameraId: phone.id, onAirSeconds: 60, shots: 1, share: 0.6 }),
+      expect.objectContaining({ cameraId: bench.id, onAirSeconds: 40, shots: 1, share: 0.4, operatorName: "Sam" }),
+    ]);
+  });
+
+  it("lists the switch logs oldest first", async () => {
+    const agent = await signIn("director");
+    const { body } = await agent.get(`/api/events/${privateEvent.id}/switch-logs`).expect(200);
+    expect(body.switchLogs.map((log: SwitchLog) => log.id)).toEqual(["log-2", "log-3"]);
+  });
+
+  it("exports one CSV row per shot", async () => {
+    const agent = await signIn("director");
+    const response = await agent.get(`/api/events/${privateEvent.id}/switch-report/export?format=csv`).expect(200);
+
+    expect(response.headers["content-disposition"]).toContain("switch-report-CUPFINAL-1.csv");
+    expect(response.text).toBe([
+      "shot,camera,operator,source,start_seconds,end_seconds,duration_seconds",
+      "1,Goal line,,manual,0,60,60",
+      '2,"Bench, home side",Sam,scheduled,60,100,40',
+      "",
+    ].join("\n"));
+  });
+
+  it("rejects an unknown export format", async () => {
+    const agent = await signIn("director");
+    await agent.get(`/api/events/${privateEvent.id}/switch-report/export?format=xml`).expect(400);
+  });
+});
+
+describe("scoreboard", () => {
+  // The event's scoreboards row and score_changes table
+  let scoreboard: Scoreboard | undefined;
+  let changes: ScoreChange[];
+  const score = (agent: ReturnType<typeof request.agent>, body: object) =>
+    agent.post(`/api/events/${privateEvent.id}/scoreboard/score`).send(body);
+  const clock = (agent: ReturnType<typeof request.agent>, body: object) =>
+    agent.post(`/api/events/${privateEvent.id}/scoreboard/clock`).send(body);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    event = { ...event, sportType: "basketball" };
+    scoreboard = undefined;
+    changes = [];
+    storage.getScoreboard.mockImplementation(async () => scoreboard);
+    storage.createScoreboard.mockImplementation(async (eventId: string, defaults: Partial<Scoreboard>) =>
+      (scoreboard = { ...defaults, eventId, updatedAt: new Date() } as Scoreboard));
+    storage.updateScoreboard.mockImplementation(async (_eventId: string, updates: Partial<Scoreboard>) =>
+      scoreboard && (scoreboard = { ...scoreboard, ...updates }));
+    storage.addScore.mockImplementation(async (_eventId: string, team: "home" | "away", points: number) =>
+      scoreboard && (scoreboard = team === "home"
+        ? { ...scoreboard, homeScore: scoreboard.homeScore + points }
+        : { ...scoreboard, awayScore: scoreboard.awayScore + points }));
+    storage.createScoreChange.mockImplementation(async (change: ScoreChange) => {
+      changes.push(change);
+      return change;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each(users.map((user) => user.id))("lets %s keep score according to their role", async (userId) => {
+    const agent = await signIn(userId);
+    const allowed = ["organizer", "admin", "director", "scorekeeper"].includes(userId);
+    await score(agent, { team: "home", points: 2 }).expect(allowed ? 200 : 403);
+  });
+
+  it("adds points and keeps each change with the clock", async () => {
+    const agent = await signIn("scorekeeper");
+    await score(agent, { team: "home", points: 3 }).expect(200);
+    const { body } = await score(agent, { team: "away", points: 2 }).expect(200);
+
+    expect(body.scoreboard).toMatchObject({ homeScore: 3, awayScore: 2, period: 1 });
+    expect(changes).toEqual([
+      expect.objectContaining({ team: "home", points: 3, homeScore: 3, awayScore: 0, clockMs: 600 * 1000, createdBy: "scorekeeper" }),
+      expect.objectContaining({ team: "away", points: 2, homeScore: 3, awayScore: 2 }),
+    ]);
+  });
+
+  it("won't take a score below zero", async () => {
+    const agent = await signIn("scorekeeper");
+    const { body } = await score(agent, { team: "away", points: -1 }).expect(400);
+    expect(body.error).toBe("Score can't go below zero");
+    expect(changes).toEqual([]);
+  });
+
+  it("runs the game clock and the shot clock down together", async () => {
+    const agent = await signIn("scorekeeper");
+    await clock(agent, { action: "start" }).expect(200);
+
+    vi.setSystemTime(new Date("2026-01-01T12:00:30Z"));
+    const { body } = await clock(agent, { action: "stop" }).expect(200);
+
+    expect(body.scoreboard.clock).toEqual({ seconds: 570, running: false });
+    // The 24 second shot clock stops at zero
+    expect(body.scoreboard.shotClock).toEqual({ seconds: 0, running: false });
+  });
+
+  it("refuses a shot clock for a sport without one", async () => {
+    event = { ...event, sportType: "soccer" };
+    const agent = await signIn("director");
+    const { body } = await clock(agent, { clock: "shot", action: "start" }).expect(400);
+    expect(body.error).toBe("soccer has no shot clock");
+  });
+
+  it("shows viewers the default scoreboard before anything is scored", async () => {
+    event.isPublic = true;
+    const { body } = await request(app).get(`/api/events/${privateEvent.id}/scoreboard`).expect(200);
+    expect(body.scoreboard).toMatchObject({ homeScore: 0, awayScore: 0, clock: { seconds: 600, running: false }, shotClock: { seconds: 24 } });
+  });
+});
+
+describe("camera phones", () => {
+  beforeEach(() => {
+    storage.getCamera.mockImplementation(async (id: string) => (id === phone.id ? phone : undefined));
+  });
+
+  it("may heartbeat their own camera with its token", async () => {
+    await request(app).post(`/api/cameras/${phone.id}/heartbeat`).set("x-camera-token", phone.accessToken!).send({}).expect(200);
+  });
+
+  it("may not switch the program", async () => {
+    await request(app)
+      .patch(`/api/events/${privateEvent.id}/switch`)
+      .set("x-camera-token", phone.accessToken!)
+      .send({ cameraId: phone.id })
+      .expect(401);
+  });
+});
+
+describe("POST /api/events/:eventId/cameras", () => {
+  const invite = { id: "invite-1", eventId: privateEvent.id, label: "Bench", slotId: null } as CameraInvite;
+  const join = (agent: ReturnType<typeof request.agent>, body: object) =>
+    agent.post(`/api/events/${privateEvent.id}/cameras`).send(body);
+
+  let deleteLiveStream: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(cameraInviteService, "redeem").mockResolvedValue(invite);
+    deleteLiveStream = vi.spyOn(streamingProvider, "deleteLiveStream");
+    deleteLiveStream.mockClear();
+    storage.releaseCameraInvite.mockClear();
+  });
+
+  it("gives the stream and the invite use back when the camera can't be stored", async () => {
+    storage.createCameraWithinLimit.mockRejectedValueOnce(new Error("connection lost"));
+
+    await join(request.agent(app), { inviteToken: "invite-token" }).expect(400);
+
+    const { muxStreamId } = storage.createCameraWithinLimit.mock.calls.at(-1)![0];
+    expect(deleteLiveStream).toHaveBeenCalledWith(muxStreamId);
+    expect(storage.releaseCameraInvite).toHaveBeenCalledWith(invite.id);
+  });
+
+  it("gives them back when the event is full", async () => {
+    storage.createCameraWithinLimit.mockResolvedValueOnce(undefined);
+
+    await join(request.agent(app), { inviteToken: "invite-token" }).expect(409);
+
+    const { muxStreamId } = storage.createCameraWithinLimit.mock.calls.at(-1)![0];
+    expect(deleteLiveStream).toHaveBeenCalledWith(muxStreamId);
+    expect(storage.releaseCameraInvite).toHaveBeenCalledWith(invite.id);
+  });
+});
@@ -3,13 +3,51 @@ import { createServer, type Server } from "http";
 import session from 'express-session';
 import connectPg from 'connect-pg-simple';
 import { storage } from "./storage";
-import { muxService } from "./services/mux";
+import { streamingProvider } from "./services/streaming";
+import { programService } from "./services/program";
+import { programSwitcher } from "./services/program-switcher";
 import { initializeWebSocket, getWebSocketService } from "./services/websocket";
-import { insertEventSchema, insertCameraSchema } from "@shared/schema";
+import { insertEventSchema, insertCameraSchema, backupCameraSchema, cameraHeartbeatSchema, type Camera, type CameraInvite, type Event } from "@shared/schema";
 import { requireAuth, optionalAuth } from "./middleware/auth";
+import { requireEventPermission, requireEventCodePermission, requireCameraOperator } from "./middleware/event-auth";
+import { eventAccess, generateCameraToken, toPublicCamera, toPublicEvent, type EventRole } from "./services/event-access";
 import authRoutes from "./routes/auth";
+import webhookRoutes from "./routes/webhooks";
+import memberRoutes from "./routes/members";
+import cameraInviteRoutes from "./routes/camera-invites";
+import cameraSlotRoutes from "./routes/camera-slots";
+import chatRoutes from "./routes/chat";
+import switchScheduleRoutes from "./routes/switch-schedule";
+import replayRoutes from "./routes/replays";
+import recordingRoutes from "./routes/recordings";
+import highlightRoutes from "./routes/highlights";
+import switchReportRoutes from "./routes/switch-reports";
+import scoreboardRoutes from "./routes/scoreboard";
+import { cameraInviteService, CameraInviteError } from "./services/camera-invites";
+import { cameraHealthService } from "./services/camera-health";
+import { publishRelay } from "./services/publish-relay";
+import { presenceService } from "./services/presence";
+import { createBackplane } from "./services/backplane";
+import { switchSchedulerService } from "./services/switch-scheduler";
+import { recordingService } from "./services/recordings";
+import { highlightService } from "./services/highlights";
 import { z } from "zod";
-import { randomBytes } from "crypto";
+
+// Event payload for clients: ingest credentials stripped, playback URL resolved,
+// plus the caller's own role so the UI can show the controls they may use
+async function serializeEvent(event: Event, role: EventRole | null = null) {
+  const cameras = await storage.getCamerasByEvent(event.id);
+  const slots = await storage.getCameraSlotsByEvent(event.id);
+
+  return {
+    ...toPublicEvent(event),
+    playbackUrl: event.playbackId ? streamingProvider.getPlaybackUrl(event.playbackId) : null,
+    cameras: cameras.map(toPublicCamera),
+    slots,
+    replay: programService.getReplay(event.id),
+    role,
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
@@ -23,7 +61,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     tableName: 'sessions',
   });
 
-  app.use(session({
+  const sessionMiddleware = session({
     store: sessionStore,
     secret: process.env.SESSION_SECRET || 'dev-secret-change-in-production',
     resave: false,
@@ -33,14 +71,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
       secure: process.env.NODE_ENV === 'production',
       maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
     },
-  }));
+  });
+  app.use(sessionMiddleware);
+
+  // Initialize WebSocket service; sockets share the HTTP session, room
+  // broadcasts reach other instances through the configured backplane, and
+  // client addresses follow the app's 'trust proxy' setting like req.ip
+  initializeWebSocket(httpServer, sessionMiddleware, createBackplane(), app.get("trust proxy fn"));
+
+  // Keep this instance's viewer counts fresh and drop those of stopped instances
+  presenceService.start();
+
+  // Browser camera publishing
+  publishRelay.attach(httpServer);
+
+  // Take cameras offline once their heartbeats stop
+  cameraHealthService.start();
 
-  // Initialize WebSocket service
-  initializeWebSocket(httpServer);
+  // Re-arm scheduled switches and camera sequences
+  switchSchedulerService.start().catch((error) => console.error("Failed to start switch scheduler:", error));
+
+  // Fail reels a restart cut short and render the ones still queued
+  highlightService.start().catch((error) => console.error("Failed to start highlight rendering:", error));
 
   // Auth routes
   app.use('/api/auth', authRoutes);
 
+  // Streaming provider webhooks
+  app.use('/api/webhooks', webhookRoutes);
+
+  // Event collaborators and invitations
+  app.use('/api', memberRoutes);
+
+  // Camera QR invitations
+  app.use('/api', cameraInviteRoutes);
+
+  // Camera slots, kicking and replacing cameras
+  app.use('/api', cameraSlotRoutes);
+
+  // Live chat history and moderation
+  app.use('/api', chatRoutes);
+
+  // Scheduled switches and camera sequences
+  app.use('/api', switchScheduleRoutes);
+
+  // Instant replay marks and rolling them into the program
+  app.use('/api', replayRoutes);
+
+  // Recordings of finished broadcasts
+  app.use('/api', recordingRoutes);
+
+  // Markers, chapters and highlight reels
+  app.use('/api', highlightRoutes);
+
+  // Switch logs and the post-game camera usage report
+  app.use('/api', switchReportRoutes);
+
+  // Scoreboard, game clock and score history
+  app.use('/api', scoreboardRoutes);
+
   // Create Event (requires authentication)
   app.post("/api/events", requireAuth, async (req, res) => {
     try {
@@ -58,8 +147,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const timestamp = Date.now().toString(36).toUpperCase();
       const eventCode = `${eventData.name.replace(/\s+/g, '').slice(0, 8).toUpperCase()}-${timestamp}`;
       
-      // Create Mux live stream (will use development mode if Mux isn't available)
-      const muxStream = await muxService.createLiveStream();
+      // Create the event's live stream with the configured streaming provider
+      const liveStream = await streamingProvider.createLiveStream();
       
       // Create event in database with organizer
       const event = await storage.createEvent({
@@ -73,19 +162,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         maxCameras: eventData.maxCameras ?? 9,
       });
 
-      // Update with Mux data
+      // Update with live stream data
       const updatedEvent = await storage.updateEvent(event.id, {
         eventCode,
-        muxStreamId: muxStream.id,
-        playbackId: muxStream.playback_ids[0]?.id,
-        ingestUrl: muxStream.rtmp.url,
+        muxStreamId: liveStream.id,
+        playbackId: liveStream.playbackId,
+        ingestUrl: liveStream.ingestUrl,
+        streamKey: liveStream.streamKey,
       });
 
       res.json({
         eventCode: updatedEvent?.eventCode || eventCode,
         eventId: event.id,
-        ingestUrl: updatedEvent?.ingestUrl || muxStream.rtmp.url,
-        playbackId: updatedEvent?.playbackId || muxStream.playback_ids[0]?.id,
+        ingestUrl: updatedEvent?.ingestUrl || liveStream.ingestUrl,
+        playbackId: updatedEvent?.playbackId || liveStream.playbackId,
       });
     } catch (error) {
       console.error("Error creating event:", error);
@@ -93,20 +183,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List events the current user organizes or collaborates on
+  app.get("/api/events", requireAuth, async (req, res) => {
+    try {
+      const events = await storage.getEventsForMember(req.user!.id);
+      res.json({ events: events.map(toPublicEvent) });
+    } catch (error) {
+      console.error("Error listing events:", error);
+      res.status(500).json({ error: "Failed to list events" });
+    }
+  });
+
   // Get Event by Code
-  app.get("/api/events/code/:code", async (req, res) => {
+  app.get("/api/events/code/:code", requireEventCodePermission("view"), async (req, res) => {
     try {
-      const event = await storage.getEventByCode(req.params.code);
-      if (!event) {
-        return res.status(404).json({ error: "Event not found" });
-      }
-      
-      const cameras = await storage.getCamerasByEvent(event.id);
-      
-      res.json({
-        ...event,
-        cameras,
-      });
+      // The code finds the event; it doesn't grant access to a private one
+      res.json(await serializeEvent(req.event!, req.eventRole));
     } catch (error) {
       console.error("Error getting event:", error);
       res.status(500).json({ error: "Failed to get event" });
@@ -114,19 +206,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get Event by ID
-  app.get("/api/events/:id", async (req, res) => {
+  app.get("/api/events/:id", requireEventPermission("view"), async (req, res) => {
     try {
-      const event = await storage.getEvent(req.params.id);
-      if (!event) {
-        return res.status(404).json({ error: "Event not found" });
-      }
-      
-      const cameras = await storage.getCamerasByEvent(event.id);
-      
-      res.json({
-        ...event,
-        cameras,
-      });
+      res.json(await serializeEvent(req.event!, req.eventRole));
     } catch (error) {
       console.error("Error getting event:", error);
       res.status(500).json({ error: "Failed to get event" });
@@ -134,13 +216,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Join as Camera
-  app.post("/api/events/:eventId/cameras", async (req, res) => {
+  app.post("/api/events/:eventId/cameras", optionalAuth, async (req, res) => {
+    let invite: CameraInvite | undefined;
+
     try {
       const eventId = req.params.eventId;
       const cameraData = z.object({
-        label: z.string(),
+        label: z.string().optional(),
         operatorName: z.string().optional(),
         quality: z.string().default("720p"),
+        inviteToken: z.string().optional(),
       }).parse(req.body);
 
       const event = await storage.getEvent(eventId);
@@ -148,45 +233,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Event not found" });
       }
 
-      // Generate unique stream key
-      const streamKey = `${event.muxStreamId}_${randomBytes(8).toString('hex')}`;
-      
-      // Create camera
-      const camera = await storage.createCamera({
-        eventId,
-        label: cameraData.label,
-        quality: cameraData.quality,
-        operatorName: cameraData.operatorName,
-        streamKey,
-        rtmpUrl: event.ingestUrl || '',
-      });
+      // Phones join with a director-issued invitation; signed-in crew may join directly
+      if (cameraData.inviteToken) {
+        invite = await cameraInviteService.redeem(cameraData.inviteToken, event.id);
+      } else {
+        const role = await eventAccess.resolveRole(event, { user: req.user });
+        if (!eventAccess.hasPermission(role, "operate_camera")) {
+          return res.status(req.user ? 403 : 401).json({ error: "A camera invitation is required to join this event" });
+        }
+      }
+
+      const label = invite?.label || cameraData.label;
+      if (!label) {
+        throw new Error("Camera label is required");
+      }
+
+      // Every camera gets its own live stream so it has a working ingest
+      const liveStream = await streamingProvider.createLiveStream();
+
+      // Create camera, provided the event still has room for it. If that fails
+      // the stream goes again, and the catch below gives the invite use back
+      let camera: Camera | undefined;
+      try {
+        camera = await storage.createCameraWithinLimit({
+          eventId,
+          label,
+          quality: cameraData.quality,
+          operatorName: cameraData.operatorName,
+          operatorId: req.user?.id,
+          accessToken: generateCameraToken(),
+          streamKey: liveStream.streamKey,
+          rtmpUrl: liveStream.ingestUrl,
+          muxStreamId: liveStream.id,
+          playbackId: liveStream.playbackId,
+        }, invite?.slotId);
+      } catch (error) {
+        await streamingProvider.deleteLiveStream(liveStream.id).catch(() => {});
+        throw error;
+      }
+
+      if (!camera) {
+        await streamingProvider.deleteLiveStream(liveStream.id).catch(() => {});
+        if (invite) {
+          await cameraInviteService.release(invite);
+          invite = undefined;
+        }
+        return res.status(409).json({ error: `This event is limited to ${event.maxCameras ?? 9} cameras` });
+      }
+      const slotId = invite?.slotId ?? null;
+      invite = undefined;
+
+      const thumbnailUrl = liveStream.playbackId ? streamingProvider.getThumbnailUrl(liveStream.playbackId) : null;
+      if (thumbnailUrl) {
+        await storage.updateCamera(camera.id, { thumbnailUrl });
+      }
+
+      await programService.addCamera(camera);
+      getWebSocketService().broadcastCameraAdded(eventId, { ...camera, thumbnailUrl }, slotId);
 
       res.json({
         cameraId: camera.id,
         streamKey: camera.streamKey,
         ingestUrl: camera.rtmpUrl,
         label: camera.label,
+        quality: camera.quality,
+        // Sent back as X-Camera-Token on every request the phone makes for this camera
+        cameraToken: camera.accessToken,
       });
     } catch (error) {
       console.error("Error creating camera:", error);
+      // The camera never got created, so don't let the failure burn an invite use
+      if (invite) {
+        await cameraInviteService.release(invite).catch(() => {});
+      }
+      if (error instanceof CameraInviteError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(400).json({ error: error instanceof Error ? error.message : "Failed to join camera" });
     }
   });
 
   // Update Camera Status
-  app.patch("/api/cameras/:id/status", async (req, res) => {
+  app.patch("/api/cameras/:id/status", requireCameraOperator(), async (req, res) => {
     try {
-      const cameraId = req.params.id;
       const { isLive } = z.object({ isLive: z.boolean() }).parse(req.body);
 
-      const camera = await storage.updateCamera(cameraId, { isLive });
-      if (!camera) {
-        return res.status(404).json({ error: "Camera not found" });
-      }
-
-      // Broadcast camera status update
-      const wsService = getWebSocketService();
-      wsService.broadcastCameraUpdate(camera.eventId, cameraId, isLive);
+      // Broadcasts the change and handles the on-air camera going offline
+      await cameraHealthService.setLive(req.camera!, isLive);
 
       res.json({ success: true });
     } catch (error) {
@@ -195,35 +328,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Camera Heartbeat, sent periodically by the phone while its join page is open
+  app.post("/api/cameras/:id/heartbeat", requireCameraOperator(), async (req, res) => {
+    try {
+      const { isLive } = cameraHeartbeatSchema.parse(req.body ?? {});
+      const camera = await cameraHealthService.heartbeat(req.camera!, isLive);
+
+      res.json({ isLive: camera.isLive });
+    } catch (error) {
+      console.error("Error recording camera heartbeat:", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to record heartbeat" });
+    }
+  });
+
   // Switch Active Camera
-  app.patch("/api/events/:id/switch", async (req, res) => {
+  app.patch("/api/events/:id/switch", requireEventPermission("switch"), async (req, res) => {
     try {
-      const eventId = req.params.id;
+      const event = req.event!;
+      const eventId = event.id;
       const { cameraId } = z.object({ cameraId: z.string() }).parse(req.body);
 
-      const event = await storage.getEvent(eventId);
-      if (!event) {
-        return res.status(404).json({ error: "Event not found" });
-      }
-
       const camera = await storage.getCamera(cameraId);
       if (!camera || camera.eventId !== eventId) {
         return res.status(404).json({ error: "Camera not found" });
       }
 
-      // Update active camera
-      await storage.updateEvent(eventId, { activeCamera: cameraId });
-      
-      // Log the switch
-      await storage.createSwitchLog({
-        eventId,
-        cameraId,
-      });
-
-      // Broadcast program switch
-      const wsService = getWebSocketService();
-      const programUrl = event.playbackId ? muxService.getPlaybackUrl(event.playbackId) : '';
-      wsService.broadcastProgramSwitch(eventId, cameraId, programUrl);
+      // Cut the program output over, log the switch and notify viewers
+      await programService.switchCamera(event, camera);
 
       res.json({ success: true });
     } catch (error) {
@@ -232,22 +363,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Start Stream
-  app.post("/api/events/:id/start", async (req, res) => {
+  // Designate the backup camera the program falls back to
+  app.patch("/api/events/:id/backup-camera", requireEventPermission("switch"), async (req, res) => {
     try {
-      const eventId = req.params.id;
-      
-      const event = await storage.getEvent(eventId);
-      if (!event) {
-        return res.status(404).json({ error: "Event not found" });
+      const event = req.event!;
+      const { cameraId, autoFallback } = backupCameraSchema.parse(req.body);
+
+      if (cameraId) {
+        const camera = await storage.getCamera(cameraId);
+        if (!camera || camera.eventId !== event.id) {
+          return res.status(404).json({ error: "Camera not found" });
+        }
       }
 
+      const updated = await storage.updateEvent(event.id, { backupCameraId: cameraId, autoFallback });
+      res.json({ backupCameraId: updated?.backupCameraId ?? null, autoFallback: updated?.autoFallback ?? false });
+    } catch (error) {
+      console.error("Error setting backup camera:", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to set backup camera" });
+    }
+  });
+
+  // Get Program Output Status
+  app.get("/api/events/:id/program", requireEventPermission("switch"), async (req, res) => {
+    try {
+      const status = programSwitcher.getStatus(req.params.id);
+      res.json({ running: status !== null, ...status });
+    } catch (error) {
+      console.error("Error getting program status:", error);
+      res.status(500).json({ error: "Failed to get program status" });
+    }
+  });
+
+  // Start Stream
+  app.post("/api/events/:id/start", requireEventPermission("manage"), async (req, res) => {
+    try {
+      const event = req.event!;
+      const eventId = event.id;
+
       if (!event.muxStreamId) {
-        return res.status(400).json({ error: "No Mux stream configured" });
+        return res.status(400).json({ error: "No live stream configured" });
       }
 
-      await muxService.startLiveStream(event.muxStreamId);
-      await storage.updateEvent(eventId, { status: "live" });
+      await streamingProvider.startLiveStream(event.muxStreamId);
+      await programService.startProgram(event);
+      await storage.updateEvent(eventId, { status: "live", startedAt: event.startedAt ?? new Date(), endedAt: null });
+      getWebSocketService().broadcastEventStatus(eventId, "live");
 
       res.json({ success: true });
     } catch (error) {
@@ -257,21 +418,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Stop Stream
-  app.post("/api/events/:id/stop", async (req, res) => {
+  app.post("/api/events/:id/stop", requireEventPermission("manage"), async (req, res) => {
     try {
-      const eventId = req.params.id;
-      
-      const event = await storage.getEvent(eventId);
-      if (!event) {
-        return res.status(404).json({ error: "Event not found" });
-      }
+      const event = req.event!;
+      const eventId = event.id;
 
       if (!event.muxStreamId) {
-        return res.status(400).json({ error: "No Mux stream configured" });
+        return res.status(400).json({ error: "No live stream configured" });
       }
 
-      await muxService.stopLiveStream(event.muxStreamId);
-      await storage.updateEvent(eventId, { status: "ended" });
+      programService.stopProgram(eventId);
+      await switchSchedulerService.stopEvent(eventId);
+      await streamingProvider.stopLiveStream(event.muxStreamId);
+      await storage.updateEvent(eventId, { status: "ended", endedAt: new Date() });
+      getWebSocketService().broadcastEventStatus(eventId, "ended");
+
+      // Pick up what was recorded so the replay library is filled straight away
+      recordingService.syncEvent(event).catch((error) => {
+        console.error(`Failed to sync recordings for event ${eventId}:`, error);
+      });
 
       res.json({ success: true });
     } catch (error) {
@@ -281,21 +446,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add Simulcast Targets
-  app.post("/api/events/:id/simulcast", async (req, res) => {
+  app.post("/api/events/:id/simulcast", requireEventPermission("manage"), async (req, res) => {
     try {
-      const eventId = req.params.id;
-
-      const event = await storage.getEvent(eventId);
-      if (!event) {
-        return res.status(404).json({ error: "Event not found" });
-      }
+      const event = req.event!;
+      const eventId = event.id;
 
       if (!event.muxStreamId) {
-        return res.status(400).json({ error: "No Mux stream configured" });
+        return res.status(400).json({ error: "No live stream configured" });
       }
 
       // Check if stream is idle (required for adding simulcast targets)
-      const streamStatus = await muxService.getLiveStreamStatus(event.muxStreamId);
+      const streamStatus = await streamingProvider.getLiveStreamStatus(event.muxStreamId);
       if (streamStatus !== 'idle') {
         return res.status(400).json({ error: "Can only add simulcast targets when stream is idle" });
       }
@@ -306,7 +467,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const youtubeKey = process.env.YOUTUBE_STREAM_KEY;
       if (youtubeKey) {
         try {
-          const youtubeTarget = await muxService.addSimulcastTarget(
+          const youtubeTarget = await streamingProvider.addSimulcastTarget(
             event.muxStreamId,
             'rtmps://a.rtmp.youtube.com/live2',
             youtubeKey
@@ -330,7 +491,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const twitchKey = process.env.TWITCH_STREAM_KEY;
       if (twitchKey) {
         try {
-          const twitchTarget = await muxService.addSimulcastTarget(
+          const twitchTarget = await streamingProvider.addSimulcastTarget(
             event.muxStreamId,
             'rtmp://live.twitch.tv/app',
             twitchKey
@@ -0,0 +1,72 @@
+import { Router, type Response } from 'express';
+import { storage } from '../storage';
+import { createCameraInviteSchema, type CameraInvite } from '@shared/schema';
+import { requireEventPermission } from '../middleware/event-auth';
+import { cameraInviteService, CameraInviteError } from '../services/camera-invites';
+
+const router = Router();
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof CameraInviteError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+function serializeInvite(invite: CameraInvite) {
+  return { ...invite, token: cameraInviteService.sign(invite) };
+}
+
+// Active camera invitations, with tokens so the dashboard can redraw their QR codes
+router.get('/events/:id/camera-invites', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const invites = await storage.getActiveCameraInvitesByEvent(req.event!.id);
+    res.json({ invites: invites.map(serializeInvite) });
+  } catch (error) {
+    console.error('Get camera invites error:', error);
+    res.status(500).json({ error: 'Failed to get camera invitations' });
+  }
+});
+
+// Issue a camera invitation
+router.post('/events/:id/camera-invites', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const data = createCameraInviteSchema.parse(req.body);
+    const { invite } = await cameraInviteService.create(req.event!, data, req.user!.id);
+
+    res.status(201).json({ invite: serializeInvite(invite) });
+  } catch (error) {
+    console.error('Create camera invite error:', error);
+    sendError(res, error, 'Failed to create camera invitation');
+  }
+});
+
+// Revoke a camera invitation
+router.delete('/events/:id/camera-invites/:inviteId', requireEventPermission('switch'), async (req, res) => {
+  try {
+    await cameraInviteService.revoke(req.event!.id, req.params.inviteId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Revoke camera invite error:', error);
+    sendError(res, error, 'Failed to revoke camera invitation');
+  }
+});
+
+// Look up an invitation from a scanned QR code without using it
+router.get('/camera-invites/:token', async (req, res) => {
+  try {
+    const { invite, event } = await cameraInviteService.preview(req.params.token);
+
+    res.json({
+      eventId: event.id,
+      eventName: event.name,
+      label: invite.label,
+      expiresAt: invite.expiresAt,
+      remainingUses: invite.maxUses - invite.uses,
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to read camera invitation');
+  }
+});
+
+export default router;
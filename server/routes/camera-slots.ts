@@ -0,0 +1,107 @@
+import { Router, type Response } from 'express';
+import { storage } from '../storage';
+import { cameraSlotLabelSchema, reorderCameraSlotsSchema } from '@shared/schema';
+import { requireEventPermission } from '../middleware/event-auth';
+import { cameraSlotService, CameraSlotError } from '../services/camera-slots';
+import { cameraInviteService } from '../services/camera-invites';
+
+const router = Router();
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof CameraSlotError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+// List camera slots in display order
+router.get('/events/:id/camera-slots', requireEventPermission('view'), async (req, res) => {
+  try {
+    const slots = await storage.getCameraSlotsByEvent(req.event!.id);
+    res.json({ slots });
+  } catch (error) {
+    console.error('Get camera slots error:', error);
+    res.status(500).json({ error: 'Failed to get camera slots' });
+  }
+});
+
+// Reserve a named slot
+router.post('/events/:id/camera-slots', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const { label } = cameraSlotLabelSchema.parse(req.body);
+    const slot = await cameraSlotService.createSlot(req.event!, label);
+    res.status(201).json({ slot });
+  } catch (error) {
+    console.error('Create camera slot error:', error);
+    sendError(res, error, 'Failed to create camera slot');
+  }
+});
+
+// Reorder slots; the body lists every slot ID in its new order
+router.put('/events/:id/camera-slots/order', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const { slotIds } = reorderCameraSlotsSchema.parse(req.body);
+    const slots = await cameraSlotService.reorderSlots(req.event!.id, slotIds);
+    res.json({ slots });
+  } catch (error) {
+    console.error('Reorder camera slots error:', error);
+    sendError(res, error, 'Failed to reorder camera slots');
+  }
+});
+
+// Rename a slot
+router.patch('/events/:id/camera-slots/:slotId', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const { label } = cameraSlotLabelSchema.parse(req.body);
+    const slot = await cameraSlotService.renameSlot(req.event!.id, req.params.slotId, label);
+    res.json({ slot });
+  } catch (error) {
+    console.error('Rename camera slot error:', error);
+    sendError(res, error, 'Failed to rename camera slot');
+  }
+});
+
+// Release a slot
+router.delete('/events/:id/camera-slots/:slotId', requireEventPermission('switch'), async (req, res) => {
+  try {
+    await cameraSlotService.deleteSlot(req.event!.id, req.params.slotId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete camera slot error:', error);
+    sendError(res, error, 'Failed to delete camera slot');
+  }
+});
+
+// Kick a camera off the event
+router.delete('/events/:id/cameras/:cameraId', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const camera = await storage.getCamera(req.params.cameraId);
+    if (!camera || camera.eventId !== req.event!.id) {
+      return res.status(404).json({ error: 'Camera not found' });
+    }
+
+    await cameraSlotService.kickCamera(req.event!, camera);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Kick camera error:', error);
+    sendError(res, error, 'Failed to remove camera');
+  }
+});
+
+// Kick a camera and issue a single-use invitation for its replacement
+router.post('/events/:id/cameras/:cameraId/replace', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const camera = await storage.getCamera(req.params.cameraId);
+    if (!camera || camera.eventId !== req.event!.id) {
+      return res.status(404).json({ error: 'Camera not found' });
+    }
+
+    const invite = await cameraSlotService.replaceCamera(req.event!, camera, req.user!.id);
+    res.status(201).json({ invite: { ...invite, token: cameraInviteService.sign(invite) } });
+  } catch (error) {
+    console.error('Replace camera error:', error);
+    sendError(res, error, 'Failed to replace camera');
+  }
+});
+
+export default router;
@@ -0,0 +1,124 @@
+import { Router, type Response } from 'express';
+import { chatBanSchema, chatHistoryQuerySchema, updateChatSettingsSchema } from '@shared/schema';
+import { requireEventPermission } from '../middleware/event-auth';
+import { eventAccess } from '../services/event-access';
+import { chatService, ChatError } from '../services/chat';
+import { chatModerationService, ChatModerationError } from '../services/chat-moderation';
+
+const router = Router();
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ChatError || error instanceof ChatModerationError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+// Chat history, newest first; pass nextCursor back as `before` for older messages.
+// Hidden messages are only ever returned to moderators who ask for them
+router.get('/events/:id/chat', requireEventPermission('view'), async (req, res) => {
+  try {
+    const { before, limit, includeHidden } = chatHistoryQuerySchema.parse(req.query);
+    if (includeHidden && !eventAccess.hasPermission(req.eventRole ?? null, 'moderate_chat')) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    const page = await chatService.getHistory(req.event!.id, limit, before, includeHidden);
+    res.json(page);
+  } catch (error) {
+    console.error('Get chat history error:', error);
+    sendError(res, error, 'Failed to get chat history');
+  }
+});
+
+// Chat rules; the blocked-words list is only shown to moderators
+router.get('/events/:id/chat/settings', requireEventPermission('view'), async (req, res) => {
+  try {
+    const { slowModeSeconds, registeredOnly, blockedWords } = await chatModerationService.getSettings(req.event!.id);
+    const isModerator = eventAccess.hasPermission(req.eventRole ?? null, 'moderate_chat');
+    res.json({ slowModeSeconds, registeredOnly, ...(isModerator ? { blockedWords } : {}) });
+  } catch (error) {
+    console.error('Get chat settings error:', error);
+    res.status(500).json({ error: 'Failed to get chat settings' });
+  }
+});
+
+// Update slow mode, registered-only mode or the blocked-words list
+router.patch('/events/:id/chat/settings', requireEventPermission('moderate_chat'), async (req, res) => {
+  try {
+    const updates = updateChatSettingsSchema.parse(req.body);
+    const settings = await chatModerationService.updateSettings(req.event!.id, updates, req.user!.id);
+    res.json({ settings });
+  } catch (error) {
+    console.error('Update chat settings error:', error);
+    sendError(res, error, 'Failed to update chat settings');
+  }
+});
+
+// Hide a message from viewers
+router.post('/events/:id/chat/messages/:messageId/hide', requireEventPermission('moderate_chat'), async (req, res) => {
+  try {
+    const message = await chatModerationService.setMessageHidden(req.event!.id, req.params.messageId, true, req.user!.id);
+    res.json({ messageId: message.id, isModerated: message.isModerated });
+  } catch (error) {
+    console.error('Hide chat message error:', error);
+    sendError(res, error, 'Failed to hide message');
+  }
+});
+
+// Restore a hidden message
+router.post('/events/:id/chat/messages/:messageId/unhide', requireEventPermission('moderate_chat'), async (req, res) => {
+  try {
+    const message = await chatModerationService.setMessageHidden(req.event!.id, req.params.messageId, false, req.user!.id);
+    res.json({ messageId: message.id, isModerated: message.isModerated });
+  } catch (error) {
+    console.error('Unhide chat message error:', error);
+    sendError(res, error, 'Failed to restore message');
+  }
+});
+
+// Active timeouts and bans
+router.get('/events/:id/chat/bans', requireEventPermission('moderate_chat'), async (req, res) => {
+  try {
+    const bans = await chatModerationService.getActiveBans(req.event!.id);
+    res.json({ bans });
+  } catch (error) {
+    console.error('Get chat bans error:', error);
+    res.status(500).json({ error: 'Failed to get chat bans' });
+  }
+});
+
+// Time out (durationMinutes) or ban the author of a message
+router.post('/events/:id/chat/bans', requireEventPermission('moderate_chat'), async (req, res) => {
+  try {
+    const data = chatBanSchema.parse(req.body);
+    const ban = await chatModerationService.banAuthor(req.event!.id, data, req.user!.id);
+    res.status(201).json({ ban });
+  } catch (error) {
+    console.error('Create chat ban error:', error);
+    sendError(res, error, 'Failed to ban chat user');
+  }
+});
+
+// Lift a timeout or ban
+router.delete('/events/:id/chat/bans/:banId', requireEventPermission('moderate_chat'), async (req, res) => {
+  try {
+    await chatModerationService.liftBan(req.event!.id, req.params.banId, req.user!.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Lift chat ban error:', error);
+    sendError(res, error, 'Failed to lift ban');
+  }
+});
+
+// Moderation audit log, newest first
+router.get('/events/:id/chat/audit', requireEventPermission('moderate_chat'), async (req, res) => {
+  try {
+    const logs = await chatModerationService.getAuditLog(req.event!.id);
+    res.json({ logs });
+  } catch (error) {
+    console.error('Get chat audit log error:', error);
+    res.status(500).json({ error: 'Failed to get moderation log' });
+  }
+});
+
+export default router;
@@ -0,0 +1,136 @@
+import { Router, type Response } from 'express';
+import type { Readable } from 'stream';
+import { chaptersQuerySchema, createEventMarkerSchema } from '@shared/schema';
+import { requireEventPermission } from '../middleware/event-auth';
+import { eventAccess } from '../services/event-access';
+import { storage } from '../storage';
+import { highlightService, formatWebVtt, HighlightError } from '../services/highlights';
+
+const router = Router();
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof HighlightError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+function sendReelFile(res: Response, file: Readable, filename: string) {
+  res.attachment(filename);
+  file.on('error', (error) => {
+    console.error('Highlight reel read error:', error);
+    res.destroy(error);
+  });
+  file.pipe(res);
+}
+
+// Markers placed on the event timeline, in time order
+router.get('/events/:id/markers', requireEventPermission('view'), async (req, res) => {
+  try {
+    const markers = await highlightService.getMarkers(req.event!.id);
+    res.json({ markers });
+  } catch (error) {
+    console.error('Get markers error:', error);
+    res.status(500).json({ error: 'Failed to get markers' });
+  }
+});
+
+// Mark a moment: a score, a timeout, a break in play
+router.post('/events/:id/markers', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const data = createEventMarkerSchema.parse(req.body);
+    const marker = await highlightService.addMarker(req.event!, data, req.user!.id);
+    res.status(201).json({ marker });
+  } catch (error) {
+    console.error('Add marker error:', error);
+    sendError(res, error, 'Failed to add marker');
+  }
+});
+
+router.delete('/events/:id/markers/:markerId', requireEventPermission('switch'), async (req, res) => {
+  try {
+    await highlightService.deleteMarker(req.event!.id, req.params.markerId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete marker error:', error);
+    sendError(res, error, 'Failed to delete marker');
+  }
+});
+
+// Chapters of a recording from its camera cuts and markers, as JSON or WebVTT
+router.get('/events/:id/recordings/:recordingId/chapters', requireEventPermission('view'), async (req, res) => {
+  try {
+    const { format } = chaptersQuerySchema.parse(req.query);
+    const recording = await storage.getRecording(req.params.recordingId);
+    const canSeeHidden = eventAccess.hasPermission(req.eventRole ?? null, 'manage');
+    if (!recording || recording.eventId !== req.event!.id || (recording.hidden && !canSeeHidden)) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    const chapters = await highlightService.getChapters(recording);
+    if (format === 'vtt') {
+      return res.type('text/vtt').send(formatWebVtt(chapters));
+    }
+    res.json({ chapters });
+  } catch (error) {
+    console.error('Get chapters error:', error);
+    sendError(res, error, 'Failed to get chapters');
+  }
+});
+
+// Highlight reels of the event, newest first
+router.get('/events/:id/highlight-reels', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const reels = await highlightService.getReels(req.event!.id);
+    res.json({ reels });
+  } catch (error) {
+    console.error('Get highlight reels error:', error);
+    res.status(500).json({ error: 'Failed to get highlight reels' });
+  }
+});
+
+// Render a reel from every highlight marked so far
+router.post('/events/:id/highlight-reels', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const reel = await highlightService.createReel(req.event!, req.user!.id);
+    res.status(201).json({ reel });
+  } catch (error) {
+    console.error('Create highlight reel error:', error);
+    sendError(res, error, 'Failed to create highlight reel');
+  }
+});
+
+router.delete('/events/:id/highlight-reels/:reelId', requireEventPermission('switch'), async (req, res) => {
+  try {
+    await highlightService.deleteReel(req.event!.id, req.params.reelId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete highlight reel error:', error);
+    sendError(res, error, 'Failed to delete highlight reel');
+  }
+});
+
+// Download the joined reel
+router.get('/events/:id/highlight-reels/:reelId/reel.mp4', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const file = await highlightService.openReelFile(req.event!.id, req.params.reelId);
+    sendReelFile(res, file, `highlights-${req.event!.eventCode}.mp4`);
+  } catch (error) {
+    console.error('Download highlight reel error:', error);
+    sendError(res, error, 'Failed to download highlight reel');
+  }
+});
+
+// Download one highlight on its own, numbered from 1
+router.get('/events/:id/highlight-reels/:reelId/clips/:index.mp4', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const index = parseInt(req.params.index, 10);
+    const file = await highlightService.openReelFile(req.event!.id, req.params.reelId, Number.isNaN(index) ? 0 : index);
+    sendReelFile(res, file, `highlight-${req.event!.eventCode}-${index}.mp4`);
+  } catch (error) {
+    console.error('Download highlight clip error:', error);
+    sendError(res, error, 'Failed to download highlight clip');
+  }
+});
+
+export default router;
@@ -0,0 +1,95 @@
+import { Router, type Response } from 'express';
+import { storage } from '../storage';
+import { inviteMemberSchema } from '@shared/schema';
+import { requireAuth } from '../middleware/auth';
+import { requireEventPermission } from '../middleware/event-auth';
+import { memberService, MembershipError, toPublicMember } from '../services/members';
+
+const router = Router();
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof MembershipError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+// List event members
+router.get('/events/:id/members', requireEventPermission('manage'), async (req, res) => {
+  try {
+    const members = await storage.getEventMembersByEvent(req.event!.id);
+    res.json({ members: members.map(toPublicMember) });
+  } catch (error) {
+    console.error('Get members error:', error);
+    res.status(500).json({ error: 'Failed to get members' });
+  }
+});
+
+// Invite a collaborator
+router.post('/events/:id/members', requireEventPermission('manage_members'), async (req, res) => {
+  try {
+    const { email, role } = inviteMemberSchema.parse(req.body);
+    const member = await memberService.invite(req.event!, email, role, req.user!.id);
+
+    res.status(201).json({ member: toPublicMember(member) });
+  } catch (error) {
+    console.error('Invite member error:', error);
+    sendError(res, error, 'Failed to invite member');
+  }
+});
+
+// Revoke a membership or pending invitation
+router.delete('/events/:id/members/:memberId', requireEventPermission('manage_members'), async (req, res) => {
+  try {
+    const member = await memberService.revoke(req.event!.id, req.params.memberId);
+    res.json({ member: toPublicMember(member) });
+  } catch (error) {
+    console.error('Revoke member error:', error);
+    sendError(res, error, 'Failed to revoke member');
+  }
+});
+
+// Pending invitations for the current user
+router.get('/invitations', requireAuth, async (req, res) => {
+  try {
+    const invitations = await storage.getPendingInvitationsByEmail(req.user!.email.toLowerCase());
+
+    const withEvents = await Promise.all(invitations.map(async (invitation) => {
+      const event = await storage.getEvent(invitation.eventId);
+      return {
+        ...invitation,
+        eventName: event?.name,
+        eventStartDateTime: event?.startDateTime,
+      };
+    }));
+
+    res.json({ invitations: withEvents });
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({ error: 'Failed to get invitations' });
+  }
+});
+
+// Accept an invitation
+router.post('/invitations/:token/accept', requireAuth, async (req, res) => {
+  try {
+    const member = await memberService.respond(req.params.token, req.user!, true);
+    res.json({ member: toPublicMember(member) });
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    sendError(res, error, 'Failed to accept invitation');
+  }
+});
+
+// Decline an invitation
+router.post('/invitations/:token/decline', requireAuth, async (req, res) => {
+  try {
+    const member = await memberService.respond(req.params.token, req.user!, false);
+    res.json({ member: toPublicMember(member) });
+  } catch (error) {
+    console.error('Decline invitation error:', error);
+    sendError(res, error, 'Failed to decline invitation');
+  }
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import { Router, type Response } from 'express';
+import { recordingsQuerySchema, updateRecordingSchema } from '@shared/schema';
+import { requireEventPermission } from '../middleware/event-auth';
+import { eventAccess } from '../services/event-access';
+import { recordingService, RecordingError } from '../services/recordings';
+
+const router = Router();
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof RecordingError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+// The event's recordings, oldest first; hidden ones only for organizers
+router.get('/events/:id/recordings', requireEventPermission('view'), async (req, res) => {
+  try {
+    const { includeHidden } = recordingsQuerySchema.parse(req.query);
+    if (includeHidden && !eventAccess.hasPermission(req.eventRole ?? null, 'manage')) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    const recordings = await recordingService.getRecordings(req.event!, includeHidden);
+    res.json({ recordings });
+  } catch (error) {
+    console.error('Get recordings error:', error);
+    sendError(res, error, 'Failed to get recordings');
+  }
+});
+
+// Hide a recording from viewers, or show it again
+router.patch('/events/:id/recordings/:recordingId', requireEventPermission('manage'), async (req, res) => {
+  try {
+    const { hidden } = updateRecordingSchema.parse(req.body);
+    const recording = await recordingService.setHidden(req.event!.id, req.params.recordingId, hidden);
+    res.json({ recording });
+  } catch (error) {
+    console.error('Update recording error:', error);
+    sendError(res, error, 'Failed to update recording');
+  }
+});
+
+// Delete a recording here and at the streaming provider
+router.delete('/events/:id/recordings/:recordingId', requireEventPermission('manage'), async (req, res) => {
+  try {
+    await recordingService.deleteRecording(req.event!.id, req.params.recordingId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete recording error:', error);
+    sendError(res, error, 'Failed to delete recording');
+  }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router, type Response } from 'express';
+import { markReplaySchema } from '@shared/schema';
+import { requireEventPermission } from '../middleware/event-auth';
+import { replayService, ReplayError } from '../services/replays';
+
+const router = Router();
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ReplayError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+// Every replay marked during the event, oldest first
+router.get('/events/:id/replays', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const replays = await replayService.getReplays(req.event!.id);
+    res.json({ replays });
+  } catch (error) {
+    console.error('Get replays error:', error);
+    res.status(500).json({ error: 'Failed to get replays' });
+  }
+});
+
+// Mark the last few seconds of the camera on air
+router.post('/events/:id/replays', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const data = markReplaySchema.parse(req.body ?? {});
+    const replay = await replayService.markReplay(req.event!, data, req.user!.id);
+    res.status(201).json({ replay });
+  } catch (error) {
+    console.error('Mark replay error:', error);
+    sendError(res, error, 'Failed to mark replay');
+  }
+});
+
+// Roll a ready replay into the program
+router.post('/events/:id/replays/:replayId/roll', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const replay = await replayService.rollReplay(req.event!, req.params.replayId);
+    res.json({ replay });
+  } catch (error) {
+    console.error('Roll replay error:', error);
+    sendError(res, error, 'Failed to roll replay');
+  }
+});
+
+// Cut back from the replay on air to the live camera
+router.post('/events/:id/replays/stop', requireEventPermission('switch'), async (req, res) => {
+  try {
+    await replayService.stopReplay(req.event!);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Stop replay error:', error);
+    sendError(res, error, 'Failed to stop replay');
+  }
+});
+
+export default router;
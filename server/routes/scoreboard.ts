@@ -0,0 +1,71 @@
+import { Router, type Response } from 'express';
+import { addScoreSchema, scoreboardClockSchema, updateScoreboardSchema } from '@shared/schema';
+import { requireEventPermission } from '../middleware/event-auth';
+import { scoreboardService, ScoreboardError } from '../services/scoreboard';
+
+const router = Router();
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ScoreboardError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+router.get('/events/:id/scoreboard', requireEventPermission('view'), async (req, res) => {
+  try {
+    const scoreboard = await scoreboardService.getScoreboard(req.event!);
+    res.json({ scoreboard });
+  } catch (error) {
+    console.error('Get scoreboard error:', error);
+    res.status(500).json({ error: 'Failed to get scoreboard' });
+  }
+});
+
+// Team names and colours, the period, and whether viewers see the scoreboard
+router.patch('/events/:id/scoreboard', requireEventPermission('keep_score'), async (req, res) => {
+  try {
+    const data = updateScoreboardSchema.parse(req.body);
+    const scoreboard = await scoreboardService.update(req.event!, data);
+    res.json({ scoreboard });
+  } catch (error) {
+    console.error('Update scoreboard error:', error);
+    sendError(res, error, 'Failed to update scoreboard');
+  }
+});
+
+router.post('/events/:id/scoreboard/score', requireEventPermission('keep_score'), async (req, res) => {
+  try {
+    const data = addScoreSchema.parse(req.body);
+    const scoreboard = await scoreboardService.addScore(req.event!, data, req.user!.id);
+    res.json({ scoreboard });
+  } catch (error) {
+    console.error('Add score error:', error);
+    sendError(res, error, 'Failed to update score');
+  }
+});
+
+// Start, stop, set or reset the game clock or shot clock
+router.post('/events/:id/scoreboard/clock', requireEventPermission('keep_score'), async (req, res) => {
+  try {
+    const data = scoreboardClockSchema.parse(req.body);
+    const scoreboard = await scoreboardService.updateClock(req.event!, data);
+    res.json({ scoreboard });
+  } catch (error) {
+    console.error('Update clock error:', error);
+    sendError(res, error, 'Failed to update clock');
+  }
+});
+
+// Every score change in order, for lining up with the recordings
+router.get('/events/:id/scoreboard/history', requireEventPermission('view'), async (req, res) => {
+  try {
+    const changes = await scoreboardService.getHistory(req.event!.id);
+    res.json({ changes });
+  } catch (error) {
+    console.error('Get score history error:', error);
+    res.status(500).json({ error: 'Failed to get score history' });
+  }
+});
+
+export default router;
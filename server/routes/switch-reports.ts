@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { reportExportQuerySchema } from '@shared/schema';
+import { requireEventPermission } from '../middleware/event-auth';
+import { switchAnalyticsService } from '../services/switch-analytics';
+
+const router = Router();
+
+// Every camera cut of the event, oldest first
+router.get('/events/:id/switch-logs', requireEventPermission('manage'), async (req, res) => {
+  try {
+    const switchLogs = await switchAnalyticsService.getSwitchLogs(req.event!.id);
+    res.json({ switchLogs });
+  } catch (error) {
+    console.error('Get switch logs error:', error);
+    res.status(500).json({ error: 'Failed to get switch logs' });
+  }
+});
+
+// On-air time, cuts and shot lengths per camera
+router.get('/events/:id/switch-report', requireEventPermission('manage'), async (req, res) => {
+  try {
+    const report = await switchAnalyticsService.getReport(req.event!);
+    res.json(report);
+  } catch (error) {
+    console.error('Get switch report error:', error);
+    res.status(500).json({ error: 'Failed to get switch report' });
+  }
+});
+
+// The report as a download: CSV with one row per shot, or the full JSON
+router.get('/events/:id/switch-report/export', requireEventPermission('manage'), async (req, res) => {
+  try {
+    const { format } = reportExportQuerySchema.parse(req.query);
+    const report = await switchAnalyticsService.getReport(req.event!);
+    const filename = `switch-report-${req.event!.eventCode}.${format}`;
+
+    res.attachment(filename);
+    if (format === 'csv') {
+      return res.type('text/csv').send(switchAnalyticsService.toCsv(report));
+    }
+    res.type('application/json').send(JSON.stringify(report, null, 2));
+  } catch (error) {
+    console.error('Export switch report error:', error);
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to export switch report' });
+  }
+});
+
+export default router;
@@ -0,0 +1,83 @@
+import { Router, type Response } from 'express';
+import { scheduleSwitchSchema, createSwitchSequenceSchema } from '@shared/schema';
+import { requireEventPermission } from '../middleware/event-auth';
+import { switchSchedulerService, SwitchSchedulerError } from '../services/switch-scheduler';
+
+const router = Router();
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof SwitchSchedulerError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(400).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+// Pending scheduled switches and the running or paused sequence
+router.get('/events/:id/switch-schedule', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const schedule = await switchSchedulerService.getSchedule(req.event!.id);
+    res.json(schedule);
+  } catch (error) {
+    console.error('Get switch schedule error:', error);
+    res.status(500).json({ error: 'Failed to get switch schedule' });
+  }
+});
+
+// Queue a switch for a set time or a number of seconds from now
+router.post('/events/:id/scheduled-switches', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const data = scheduleSwitchSchema.parse(req.body);
+    const scheduled = await switchSchedulerService.scheduleSwitch(req.event!, data, req.user!.id);
+    res.status(201).json({ scheduledSwitch: scheduled });
+  } catch (error) {
+    console.error('Schedule switch error:', error);
+    sendError(res, error, 'Failed to schedule switch');
+  }
+});
+
+// Cancel a pending switch
+router.delete('/events/:id/scheduled-switches/:switchId', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const scheduled = await switchSchedulerService.cancelSwitch(req.event!.id, req.params.switchId);
+    res.json({ scheduledSwitch: scheduled });
+  } catch (error) {
+    console.error('Cancel scheduled switch error:', error);
+    sendError(res, error, 'Failed to cancel scheduled switch');
+  }
+});
+
+// Start rotating through cameras; replaces the event's current sequence
+router.post('/events/:id/switch-sequences', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const data = createSwitchSequenceSchema.parse(req.body);
+    const sequence = await switchSchedulerService.startSequence(req.event!, data, req.user!.id);
+    res.status(201).json({ sequence });
+  } catch (error) {
+    console.error('Start switch sequence error:', error);
+    sendError(res, error, 'Failed to start switch sequence');
+  }
+});
+
+// Resume a sequence that paused when one of its cameras went offline
+router.post('/events/:id/switch-sequences/:sequenceId/resume', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const sequence = await switchSchedulerService.resumeSequence(req.event!, req.params.sequenceId);
+    res.json({ sequence });
+  } catch (error) {
+    console.error('Resume switch sequence error:', error);
+    sendError(res, error, 'Failed to resume switch sequence');
+  }
+});
+
+// Stop a sequence
+router.delete('/events/:id/switch-sequences/:sequenceId', requireEventPermission('switch'), async (req, res) => {
+  try {
+    const sequence = await switchSchedulerService.cancelSequence(req.event!.id, req.params.sequenceId);
+    res.json({ sequence });
+  } catch (error) {
+    console.error('Cancel switch sequence error:', error);
+    sendError(res, error, 'Failed to cancel switch sequence');
+  }
+});
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { muxWebhookService, WebhookSignatureError, type MuxWebhookEvent } from '../services/webhooks';
+
+const router = Router();
+
+// Mux webhook receiver
+router.post('/mux', async (req, res) => {
+  if (!muxWebhookService.isConfigured()) {
+    return res.status(503).json({ error: 'Webhooks not configured' });
+  }
+
+  try {
+    // Signatures cover the exact bytes Mux sent, not the re-serialized JSON
+    muxWebhookService.verifySignature(req.rawBody ?? '', req.get('mux-signature'));
+  } catch (error) {
+    const message = error instanceof WebhookSignatureError ? error.message : 'Invalid webhook signature';
+    return res.status(401).json({ error: message });
+  }
+
+  const event = req.body as MuxWebhookEvent | undefined;
+  if (!event?.id || !event?.type) {
+    return res.status(400).json({ error: 'Invalid webhook payload' });
+  }
+
+  try {
+    const processed = await muxWebhookService.handleEvent(event);
+    res.json({ received: true, duplicate: !processed });
+  } catch (error: unknown) {
+    const reason = error instanceof Error ? error.stack ?? error.message : String(error);
+    console.error(`Mux webhook ${event.id} (${event.type}) failed:`, reason);
+    // A non-2xx response makes Mux retry the delivery
+    res.status(500).json({ error: 'Failed to process webhook' });
+  }
+});
+
+export default router;
@@ -0,0 +1,94 @@
+import { EventEmitter } from "events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ServerMessage } from "@shared/ws-protocol";
+import { instanceId } from "../instance";
+import { PostgresBackplane } from "./backplane";
+
+const pool = vi.hoisted(() => ({ query: vi.fn(async () => ({ rows: [] })) }));
+// Every LISTEN connection the backplane opens
+const listeners = vi.hoisted(() => [] as Array<EventEmitter & { query: ReturnType<typeof vi.fn> }>);
+
+vi.mock("../db", () => ({ pool }));
+vi.mock("@neondatabase/serverless", async () => {
+  const { EventEmitter } = await import("events");
+  class Client extends EventEmitter {
+    connect = vi.fn(async () => {});
+    query = vi.fn(async () => ({ rows: [] }));
+    end = vi.fn(async () => {});
+
+    constructor() {
+      super();
+      listeners.push(this);
+    }
+  }
+  return { Client };
+});
+
+const message: ServerMessage = { type: "EVENT_STATUS_UPDATE", status: "live", timestamp: "2026-01-01T12:00:00.000Z" };
+
+describe("PostgresBackplane", () => {
+  let backplane: PostgresBackplane;
+  const handler = vi.fn();
+
+  // A NOTIFY arriving on the LISTEN connection
+  const notify = (payload: string) => listeners.at(-1)!.emit("notification", { channel: "ws_broadcast", payload });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    backplane = new PostgresBackplane("postgres://backplane");
+    await backplane.subscribe(handler);
+  });
+
+  afterEach(async () => {
+    await backplane.close();
+  });
+
+  it("listens on the broadcast channel", () => {
+    expect(listeners.at(-1)!.query).toHaveBeenCalledWith("LISTEN ws_broadcast");
+  });
+
+  it("delivers its own broadcasts at once and sends them out under the shared instance ID", async () => {
+    await backplane.publish("event-1", message, "switch");
+
+    expect(handler).toHaveBeenCalledWith("event-1", message, "switch");
+    const [, [channel, payload]] = pool.query.mock.calls[0] as unknown as [string, [string, string]];
+    expect(channel).toBe("ws_broadcast");
+    expect(JSON.parse(payload)).toEqual({ origin: instanceId, eventId: "event-1", message, permission: "switch" });
+  });
+
+  it("drops the echo of its own broadcasts", async () => {
+    await backplane.publish("event-1", message);
+    handler.mockClear();
+
+    const [, [, payload]] = pool.query.mock.calls[0] as unknown as [string, [string, string]];
+    notify(payload);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("delivers broadcasts from other instances with their permission", () => {
+    notify(JSON.stringify({ origin: "other-instance", eventId: "event-1", message, permission: "manage" }));
+    expect(handler).toHaveBeenCalledWith("event-1", message, "manage");
+  });
+
+  it("ignores payloads that aren't JSON", () => {
+    vi.spyOn(console, "error").mockImplementationOnce(() => {});
+    notify("{not json");
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("ignores messages this instance doesn't understand", () => {
+    vi.spyOn(console, "warn").mockImplementationOnce(() => {});
+    notify(JSON.stringify({ origin: "other-instance", eventId: "event-1", message: { type: "FROM_THE_FUTURE" } }));
+    notify(JSON.stringify({ origin: "other-instance", eventId: "event-1", message: { ...message, status: 42 } }));
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("keeps broadcasts too large for NOTIFY on this instance", async () => {
+    vi.spyOn(console, "error").mockImplementationOnce(() => {});
+    const large: ServerMessage = { ...message, status: "x".repeat(8000) };
+    await backplane.publish("event-1", large);
+
+    expect(handler).toHaveBeenCalledWith("event-1", large, undefined);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
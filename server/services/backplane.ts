@@ -0,0 +1,163 @@
+import { Client } from '@neondatabase/serverless';
+import { pool } from '../db';
+import { instanceId } from '../instance';
+import { serverMessageSchema, type ServerMessage } from '@shared/ws-protocol';
+import type { EventPermission } from './event-access';
+
+// permission, when set, limits the message to sockets whose role holds it
+export type BackplaneHandler = (eventId: string, message: ServerMessage, permission?: EventPermission) => void;
+
+// Carries event-room broadcasts between server instances. Every instance
+// subscribes once; a published message reaches the handler on every instance,
+// including the one that published it.
+export interface BroadcastBackplane {
+  subscribe(handler: BackplaneHandler): Promise<void>;
+  publish(eventId: string, message: ServerMessage, permission?: EventPermission): Promise<void>;
+  close(): Promise<void>;
+}
+
+// A single server instance: broadcasts never leave the process
+export class InProcessBackplane implements BroadcastBackplane {
+  private handler: BackplaneHandler | null = null;
+
+  async subscribe(handler: BackplaneHandler) {
+    this.handler = handler;
+  }
+
+  async publish(eventId: string, message: ServerMessage, permission?: EventPermission) {
+    this.handler?.(eventId, message, permission);
+  }
+
+  async close() {
+    this.handler = null;
+  }
+}
+
+const CHANNEL = 'ws_broadcast';
+// NOTIFY payloads must stay under 8000 bytes
+const MAX_PAYLOAD_BYTES = 7900;
+
+interface Envelope {
+  origin: string;
+  eventId: string;
+  message: unknown;
+  permission?: EventPermission;
+}
+
+// Several instances sharing one database: broadcasts go out with NOTIFY and
+// come back in on a dedicated LISTEN connection. The publishing instance
+// delivers its own broadcasts straight away and skips their echo.
+export class PostgresBackplane implements BroadcastBackplane {
+  private handler: BackplaneHandler | null = null;
+  private listener: Client | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(private connectionString: string, private reconnectDelayMs = 2000) {}
+
+  // Keeps retrying in the background if the first LISTEN fails
+  async subscribe(handler: BackplaneHandler) {
+    this.handler = handler;
+    try {
+      await this.listen();
+    } catch (error) {
+      this.scheduleListen();
+      throw error;
+    }
+  }
+
+  async publish(eventId: string, message: ServerMessage, permission?: EventPermission) {
+    this.handler?.(eventId, message, permission);
+
+    const payload = JSON.stringify({ origin: instanceId, eventId, message, permission } satisfies Envelope);
+    if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+      console.error(`${message.type} for event ${eventId} is too large for the backplane; only local viewers got it`);
+      return;
+    }
+    await pool.query('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+  }
+
+  async close() {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const listener = this.listener;
+    this.listener = null;
+    await listener?.end();
+  }
+
+  private async listen() {
+    const client = new Client({ connectionString: this.connectionString });
+    client.on('notification', (notification) => this.receive(notification.payload));
+    client.on('error', (error) => {
+      console.error('Backplane connection error:', error);
+      this.reconnect(client);
+    });
+    client.on('end', () => this.reconnect(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      client.end().catch(() => {});
+      throw error;
+    }
+    this.listener = client;
+  }
+
+  // Broadcasts from other instances are missed until the listener is back
+  private reconnect(client: Client) {
+    if (this.closed || this.listener !== client) return;
+    this.listener = null;
+    client.end().catch(() => {});
+    this.scheduleListen();
+  }
+
+  private scheduleListen() {
+    if (this.closed || this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.listen().catch((error) => {
+        console.error('Backplane reconnect failed:', error);
+        this.scheduleListen();
+      });
+    }, this.reconnectDelayMs);
+    this.reconnectTimer.unref();
+  }
+
+  private receive(payload: string | undefined) {
+    if (!payload || !this.handler) return;
+
+    let envelope: Envelope;
+    try {
+      envelope = JSON.parse(payload);
+    } catch (error) {
+      console.error('Ignoring malformed backplane payload:', error);
+      return;
+    }
+    if (envelope.origin === instanceId) return;
+
+    // During a rolling deploy another instance may speak a newer protocol
+    const parsed = serverMessageSchema.safeParse(envelope.message);
+    if (!parsed.success) {
+      console.warn(`Ignoring unrecognized backplane message for event ${envelope.eventId}`);
+      return;
+    }
+    this.handler(envelope.eventId, parsed.data, envelope.permission);
+  }
+}
+
+// WS_BACKPLANE=postgres fans broadcasts out across instances; the default
+// keeps them in process
+export function createBackplane(): BroadcastBackplane {
+  switch (process.env.WS_BACKPLANE || 'memory') {
+    case 'memory':
+      return new InProcessBackplane();
+    case 'postgres':
+      return new PostgresBackplane(process.env.DATABASE_URL!);
+    default:
+      throw new Error(`Unknown WS_BACKPLANE "${process.env.WS_BACKPLANE}"; use "memory" or "postgres"`);
+  }
+}
@@ -0,0 +1,119 @@
+import { storage } from '../storage';
+import type { Camera } from '@shared/schema';
+import { streamingProvider } from './streaming';
+import { programService } from './program';
+import { switchSchedulerService } from './switch-scheduler';
+import { getWebSocketService } from './websocket';
+
+export interface CameraHealthConfig {
+  heartbeatTimeoutMs: number;
+  sweepIntervalMs: number;
+}
+
+// Tracks whether cameras are really live. Phones heartbeat while their join page
+// is open; a sweeper takes cameras offline once they go quiet, and when that
+// camera is on air the director is warned and the backup camera can take over.
+export class CameraHealthService {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(private config: CameraHealthConfig) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => console.error('Camera sweep failed:', error));
+    }, this.config.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async heartbeat(camera: Camera, isLive?: boolean): Promise<Camera> {
+    const updated = await storage.updateCamera(camera.id, { lastActiveAt: new Date() });
+    if (isLive !== undefined && isLive !== camera.isLive) {
+      return await this.setLive(updated ?? camera, isLive);
+    }
+    return updated ?? camera;
+  }
+
+  // Every live/offline transition goes through here so the broadcast and the
+  // active-camera check can't be skipped
+  async setLive(camera: Camera, isLive: boolean): Promise<Camera> {
+    const updated = await storage.updateCamera(camera.id, {
+      isLive,
+      ...(isLive ? { lastActiveAt: new Date() } : {}),
+    });
+    if (!updated) return camera;
+
+    const wsService = getWebSocketService();
+    wsService.broadcastCameraUpdate(updated.eventId, updated.id, isLive);
+
+    if (!isLive && camera.isLive) {
+      await this.handleCameraOffline(updated);
+      await switchSchedulerService.handleCameraOffline(updated);
+    }
+    return updated;
+  }
+
+  async sweep(): Promise<void> {
+    if (this.sweeping) return;
+    this.sweeping = true;
+
+    try {
+      const cutoff = new Date(Date.now() - this.config.heartbeatTimeoutMs);
+      const stale = await storage.getStaleLiveCameras(cutoff);
+
+      for (const camera of stale) {
+        // Operators streaming from a separate RTMP app may have closed the join
+        // page; if the provider still sees their ingest, the camera is alive
+        if (camera.muxStreamId && await this.ingestIsActive(camera.muxStreamId)) {
+          await storage.updateCamera(camera.id, { lastActiveAt: new Date() });
+          continue;
+        }
+
+        console.log(`Camera ${camera.id} missed its heartbeat, marking offline`);
+        await this.setLive(camera, false);
+      }
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async ingestIsActive(streamId: string): Promise<boolean> {
+    try {
+      return (await streamingProvider.getLiveStreamStatus(streamId)) === 'active';
+    } catch (error) {
+      console.error(`Failed to check live stream ${streamId}:`, error);
+      return false;
+    }
+  }
+
+  private async handleCameraOffline(camera: Camera) {
+    const event = await storage.getEvent(camera.eventId);
+    if (!event || event.activeCamera !== camera.id) return;
+
+    let fallbackCameraId: string | null = null;
+
+    if (event.autoFallback && event.backupCameraId && event.backupCameraId !== camera.id) {
+      const backup = await storage.getCamera(event.backupCameraId);
+      if (backup && backup.eventId === event.id && backup.isLive) {
+        await programService.switchCamera(event, backup, 'fallback');
+        fallbackCameraId = backup.id;
+      }
+    }
+
+    const wsService = getWebSocketService();
+    wsService.broadcastActiveCameraOffline(event.id, camera.id, fallbackCameraId);
+  }
+}
+
+export const cameraHealthService = new CameraHealthService({
+  heartbeatTimeoutMs: parseInt(process.env.CAMERA_HEARTBEAT_TIMEOUT_MS || '30000', 10),
+  sweepIntervalMs: parseInt(process.env.CAMERA_SWEEP_INTERVAL_MS || '10000', 10),
+});
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import type { CameraInvite, CreateCameraInviteData, Event } from '@shared/schema';
+
+export class CameraInviteError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+interface InvitePayload {
+  i: string; // invite ID
+  e: string; // event ID
+  x: number; // expiry, unix seconds
+}
+
+// Invite tokens carry their own event and expiry and are HMAC-signed, so forged or
+// stale tokens are rejected before touching the database. The row only tracks uses
+// and revocation, which means no token secret is ever stored.
+export class CameraInviteService {
+  constructor(
+    private secret = process.env.CAMERA_INVITE_SECRET || process.env.SESSION_SECRET || 'dev-secret-change-in-production',
+  ) {}
+
+  async create(event: Event, data: CreateCameraInviteData, createdBy: string): Promise<{ invite: CameraInvite; token: string }> {
+    // Invitations for a reserved slot name the camera after it
+    const slot = data.slotId ? await storage.getCameraSlot(data.slotId) : undefined;
+    if (data.slotId && (!slot || slot.eventId !== event.id)) {
+      throw new CameraInviteError('Camera slot not found', 404);
+    }
+
+    const invite = await storage.createCameraInvite({
+      eventId: event.id,
+      label: data.label || slot?.label || null,
+      slotId: slot?.id ?? null,
+      maxUses: data.maxUses,
+      expiresAt: new Date(Date.now() + data.expiresInMinutes * 60 * 1000),
+      createdBy,
+    });
+    return { invite, token: this.sign(invite) };
+  }
+
+  sign(invite: CameraInvite): string {
+    const payload: InvitePayload = {
+      i: invite.id,
+      e: invite.eventId,
+      x: Math.floor(invite.expiresAt.getTime() / 1000),
+    };
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.signature(body)}`;
+  }
+
+  // Checks an invite without using it up, so the join page can show the event and label first
+  async preview(token: string): Promise<{ invite: CameraInvite; event: Event }> {
+    const payload = this.verify(token);
+    const invite = await storage.getCameraInvite(payload.i);
+    if (!invite || invite.eventId !== payload.e) {
+      throw new CameraInviteError('Invalid camera invitation', 403);
+    }
+    this.assertUsable(invite);
+
+    const event = await storage.getEvent(invite.eventId);
+    if (!event) {
+      throw new CameraInviteError('Event not found', 404);
+    }
+    return { invite, event };
+  }
+
+  // Atomically claims one use of the invite for a camera joining eventId
+  async redeem(token: string, eventId: string): Promise<CameraInvite> {
+    const payload = this.verify(token);
+    if (payload.e !== eventId) {
+      throw new CameraInviteError('This camera invitation is for a different event', 403);
+    }
+
+    const invite = await storage.consumeCameraInvite(payload.i);
+    if (invite) {
+      return invite;
+    }
+
+    // Nothing was claimed; look the row up again only to explain why
+    const existing = await storage.getCameraInvite(payload.i);
+    if (!existing || existing.eventId !== eventId) {
+      throw new CameraInviteError('Invalid camera invitation', 403);
+    }
+    this.assertUsable(existing);
+    throw new CameraInviteError('This camera invitation has already been used', 410);
+  }
+
+  // Gives a use back when camera registration fails after the invite was claimed
+  async release(invite: CameraInvite): Promise<void> {
+    await storage.releaseCameraInvite(invite.id);
+  }
+
+  async revoke(eventId: string, inviteId: string): Promise<CameraInvite> {
+    const invite = await storage.getCameraInvite(inviteId);
+    if (!invite || invite.eventId !== eventId) {
+      throw new CameraInviteError('Camera invitation not found', 404);
+    }
+    if (invite.revokedAt) {
+      return invite;
+    }
+    const revoked = await storage.revokeCameraInvite(invite.id);
+    return revoked!;
+  }
+
+  private verify(token: string): InvitePayload {
+    const [body, signature] = token.split('.');
+    if (!body || !signature) {
+      throw new CameraInviteError('Invalid camera invitation', 403);
+    }
+
+    const expected = Buffer.from(this.signature(body));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new CameraInviteError('Invalid camera invitation', 403);
+    }
+
+    let payload: InvitePayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new CameraInviteError('Invalid camera invitation', 403);
+    }
+
+    if (payload.x * 1000 <= Date.now()) {
+      throw new CameraInviteError('This camera invitation has expired', 410);
+    }
+    return payload;
+  }
+
+  private assertUsable(invite: CameraInvite) {
+    if (invite.revokedAt) {
+      throw new CameraInviteError('This camera invitation has been revoked', 410);
+    }
+    if (invite.expiresAt.getTime() <= Date.now()) {
+      throw new CameraInviteError('This camera invitation has expired', 410);
+    }
+    if (invite.uses >= invite.maxUses) {
+      throw new CameraInviteError('This camera invitation has already been used', 410);
+    }
+  }
+
+  private signature(body: string): string {
+    return crypto.createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+}
+
+export const cameraInviteService = new CameraInviteService();
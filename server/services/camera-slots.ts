@@ -0,0 +1,106 @@
+import { storage } from '../storage';
+import type { Camera, CameraInvite, CameraSlot, Event } from '@shared/schema';
+import { streamingProvider } from './streaming';
+import { programService } from './program';
+import { cameraInviteService } from './camera-invites';
+import { publishRelay } from './publish-relay';
+import { getWebSocketService } from './websocket';
+
+export class CameraSlotError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Director-side management of an event's camera positions: reserving named
+// slots within maxCameras, ordering them, and kicking or replacing cameras.
+export class CameraSlotService {
+  async createSlot(event: Event, label: string): Promise<CameraSlot> {
+    const slot = await storage.createCameraSlotWithinLimit(event.id, label);
+    if (!slot) {
+      throw new CameraSlotError(`This event is limited to ${event.maxCameras ?? 9} cameras`, 409);
+    }
+    return slot;
+  }
+
+  async renameSlot(eventId: string, slotId: string, label: string): Promise<CameraSlot> {
+    await this.getSlot(eventId, slotId);
+    const slot = await storage.updateCameraSlot(slotId, { label });
+    return slot!;
+  }
+
+  async reorderSlots(eventId: string, slotIds: string[]): Promise<CameraSlot[]> {
+    const slots = await storage.getCameraSlotsByEvent(eventId);
+    const known = new Set(slots.map((slot) => slot.id));
+
+    // Partial orders would leave positions ambiguous, so every slot must be listed once
+    if (slotIds.length !== slots.length || new Set(slotIds).size !== slotIds.length || !slotIds.every((id) => known.has(id))) {
+      throw new CameraSlotError('slotIds must list every slot of the event exactly once', 400);
+    }
+
+    return await storage.reorderCameraSlots(eventId, slotIds);
+  }
+
+  // Removing a slot releases its reservation; a camera filling it stays connected
+  async deleteSlot(eventId: string, slotId: string): Promise<void> {
+    await this.getSlot(eventId, slotId);
+    await storage.deleteCameraSlot(slotId);
+  }
+
+  async kickCamera(event: Event, camera: Camera): Promise<void> {
+    await this.removeCamera(event, camera, 'kicked');
+  }
+
+  // Kicks the camera and hands its slot to a new phone through a single-use invitation
+  async replaceCamera(event: Event, camera: Camera, userId: string): Promise<CameraInvite> {
+    const slots = await storage.getCameraSlotsByEvent(event.id);
+    const slot = slots.find((s) => s.cameraId === camera.id);
+
+    await this.removeCamera(event, camera, 'replaced');
+
+    const { invite } = await cameraInviteService.create(event, {
+      label: slot?.label ?? camera.label,
+      slotId: slot?.id,
+      maxUses: 1,
+      expiresInMinutes: 30,
+    }, userId);
+    return invite;
+  }
+
+  private async removeCamera(event: Event, camera: Camera, reason: 'kicked' | 'replaced') {
+    if (event.activeCamera === camera.id || event.backupCameraId === camera.id) {
+      await storage.updateEvent(event.id, {
+        ...(event.activeCamera === camera.id ? { activeCamera: null } : {}),
+        ...(event.backupCameraId === camera.id ? { backupCameraId: null } : {}),
+      });
+    }
+
+    programService.removeCamera(camera);
+    publishRelay.stopPublishing(camera.id);
+
+    if (camera.muxStreamId) {
+      try {
+        await streamingProvider.deleteLiveStream(camera.muxStreamId);
+      } catch (error) {
+        // The camera is removed regardless; an orphaned provider stream only costs an idle ingest
+        console.error(`Failed to delete live stream for camera ${camera.id}:`, error);
+      }
+    }
+
+    // Removing the camera also frees its slot and invalidates its camera token
+    await storage.removeCamera(camera.id);
+
+    const wsService = getWebSocketService();
+    wsService.broadcastCameraRemoved(event.id, camera.id, reason);
+  }
+
+  private async getSlot(eventId: string, slotId: string): Promise<CameraSlot> {
+    const slot = await storage.getCameraSlot(slotId);
+    if (!slot || slot.eventId !== eventId) {
+      throw new CameraSlotError('Camera slot not found', 404);
+    }
+    return slot;
+  }
+}
+
+export const cameraSlotService = new CameraSlotService();
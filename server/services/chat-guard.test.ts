@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChatMessage } from "@shared/schema";
+import { ChatGuard, containsLink } from "./chat-guard";
+import { ChatService } from "./chat";
+
+const storage = vi.hoisted(() => ({
+  getChatSettings: vi.fn(),
+  getActiveChatBan: vi.fn(),
+  getLatestChatMessageByAuthor: vi.fn(),
+  createChatMessage: vi.fn(),
+}));
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("./websocket", () => ({ getWebSocketService: () => ({ broadcastChatMessage: vi.fn() }) }));
+
+function guardAt(start = 0) {
+  const clock = { now: start };
+  const guard = new ChatGuard({
+    authorBucket: { capacity: 2, refillPerSecond: 1 },
+    ipBucket: { capacity: 3, refillPerSecond: 1 },
+    duplicateWindowMs: 30 * 1000,
+    now: () => clock.now,
+  });
+  // Sends a message the way chat.ts does: check, then record what got through
+  const send = (authorKey: string, message: string, ip: string | null = null) => {
+    const verdict = guard.check({ authorKey, ip, message });
+    if (verdict.ok) guard.record({ authorKey, ip, message });
+    return verdict;
+  };
+  return { clock, guard, send };
+}
+
+describe("ChatGuard", () => {
+  it("refills an author's tokens over time", () => {
+    const { clock, send } = guardAt();
+    expect(send("user:a", "one").ok).toBe(true);
+    expect(send("user:a", "two").ok).toBe(true);
+
+    const limited = send("user:a", "three");
+    expect(limited).toMatchObject({ ok: false, reason: "rate_limited", retryAfterMs: 1000 });
+
+    clock.now += 1000;
+    expect(send("user:a", "three").ok).toBe(true);
+  });
+
+  it("rejects the same text from one author until the duplicate window passes", () => {
+    const { clock, send } = guardAt();
+    expect(send("user:a", "GOAL!").ok).toBe(true);
+
+    clock.now += 5000;
+    expect(send("user:a", "  goal! ")).toMatchObject({ ok: false, reason: "duplicate" });
+    expect(send("user:b", "GOAL!").ok).toBe(true);
+
+    clock.now += 30 * 1000;
+    expect(send("user:a", "GOAL!").ok).toBe(true);
+  });
+
+  it("blocks links unless they are allowed", () => {
+    const { guard } = guardAt();
+    expect(guard.check({ authorKey: "user:a", ip: null, message: "see spam.xyz/offer" }))
+      .toMatchObject({ ok: false, reason: "link" });
+    expect(guard.check({ authorKey: "user:a", ip: null, message: "see spam.xyz/offer", allowLinks: true }).ok).toBe(true);
+    expect(containsLink("what a save.")).toBe(false);
+    expect(containsLink("https://example.com")).toBe(true);
+  });
+
+  it("limits everyone behind one IP together", () => {
+    const { clock, send } = guardAt();
+    expect(send("guest:one", "a", "10.0.0.1").ok).toBe(true);
+    expect(send("guest:two", "b", "10.0.0.1").ok).toBe(true);
+    expect(send("guest:three", "c", "10.0.0.1").ok).toBe(true);
+    expect(send("guest:four", "d", "10.0.0.1")).toMatchObject({ ok: false, reason: "rate_limited" });
+    expect(send("guest:four", "d", "10.0.0.2").ok).toBe(true);
+
+    clock.now += 1000;
+    expect(send("guest:four", "e", "10.0.0.1").ok).toBe(true);
+  });
+
+  it("charges nothing for a message that is only checked", () => {
+    const { guard, send } = guardAt();
+    for (let i = 0; i < 5; i++) {
+      expect(guard.check({ authorKey: "user:a", ip: "10.0.0.1", message: "hello" }).ok).toBe(true);
+    }
+    expect(send("user:a", "hello", "10.0.0.1").ok).toBe(true);
+  });
+});
+
+describe("ChatService with the guard", () => {
+  const service = new ChatService();
+  let sentAt: Date | null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    sentAt = new Date(Date.now() - 2000);
+    storage.getChatSettings.mockResolvedValue({ eventId: "event-1", slowModeSeconds: 10, registeredOnly: false, blockedWords: [] });
+    storage.getActiveChatBan.mockResolvedValue(undefined);
+    storage.getLatestChatMessageByAuthor.mockImplementation(async () => (sentAt ? { createdAt: sentAt } : undefined));
+    storage.createChatMessage.mockImplementation(async (message: ChatMessage) => ({ ...message, id: "m", createdAt: new Date() }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const author = (clientId: string) => ({ userId: null, clientId, role: "viewer" as const, ip: null });
+
+  it("accepts a message resent after slow mode turned it away", async () => {
+    const send = () => service.send("event-1", { username: "Fan", message: "Come on!" }, author("slow-mode-fan"));
+
+    await expect(send()).rejects.toMatchObject({ reason: "slow_mode" });
+
+    vi.advanceTimersByTime(10 * 1000);
+    await expect(send()).resolves.toMatchObject({ message: "Come on!" });
+  });
+
+  it("doesn't fill the buckets of a sender who is banned", async () => {
+    sentAt = null;
+    storage.getActiveChatBan.mockResolvedValue({ expiresAt: new Date(Date.now() + 60 * 1000) });
+    for (let i = 0; i < 10; i++) {
+      await expect(service.send("event-1", { username: "Fan", message: `spam ${i}` }, author("banned-fan")))
+        .rejects.toMatchObject({ reason: "banned" });
+    }
+
+    storage.getActiveChatBan.mockResolvedValue(undefined);
+    await expect(service.send("event-1", { username: "Fan", message: "sorry" }, author("banned-fan")))
+      .resolves.toMatchObject({ message: "sorry" });
+  });
+});
@@ -0,0 +1,176 @@
+// Abuse protection for chat sends. Everything here is in memory and driven by
+// an injectable clock, so it can be exercised without a database or timers.
+
+export type ChatRejectionReason =
+  | 'invalid'
+  | 'rate_limited'
+  | 'duplicate'
+  | 'link'
+  | 'too_long'
+  | 'slow_mode'
+  | 'banned'
+  | 'registered_only';
+
+export type ChatGuardResult =
+  | { ok: true }
+  | { ok: false; reason: ChatRejectionReason; message: string; retryAfterMs?: number };
+
+export interface TokenBucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface ChatGuardConfig {
+  // Per author (signed-in user or guest browser)
+  authorBucket: TokenBucketConfig;
+  // Per IP, looser, since viewers at the same venue share one
+  ipBucket: TokenBucketConfig;
+  // Identical messages from one author within this window are rejected
+  duplicateWindowMs: number;
+  maxLength: number;
+  now: () => number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const DEFAULT_CONFIG: ChatGuardConfig = {
+  authorBucket: { capacity: 5, refillPerSecond: 0.5 },
+  ipBucket: { capacity: 30, refillPerSecond: 5 },
+  duplicateWindowMs: 30 * 1000,
+  maxLength: 500,
+  now: () => Date.now(),
+};
+
+// Drop idle state at most this often
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// URLs, www. hosts and bare domains such as "spam.xyz/offer"
+const LINK_PATTERN = /(?:[a-z][a-z\d+.-]*:\/\/|www\.)\S+|\b[a-z\d-]+(?:\.[a-z\d-]+)*\.(?:com|net|org|io|co|gg|tv|xyz|ru|info|biz|me|ly|link|app|live)\b/i;
+
+function normalize(message: string): string {
+  return message.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function containsLink(message: string): boolean {
+  return LINK_PATTERN.test(message);
+}
+
+class TokenBuckets {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private config: TokenBucketConfig) {}
+
+  // Milliseconds until a token is available; 0 when one is available now
+  waitTime(key: string, now: number): number {
+    const tokens = this.tokens(key, now);
+    if (tokens >= 1) return 0;
+    return Math.ceil(((1 - tokens) / this.config.refillPerSecond) * 1000);
+  }
+
+  take(key: string, now: number) {
+    this.buckets.set(key, { tokens: this.tokens(key, now) - 1, updatedAt: now });
+  }
+
+  // Full buckets carry no information
+  prune(now: number) {
+    for (const [key] of Array.from(this.buckets)) {
+      if (this.tokens(key, now) >= this.config.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private tokens(key: string, now: number): number {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return this.config.capacity;
+    const refilled = ((now - bucket.updatedAt) / 1000) * this.config.refillPerSecond;
+    return Math.min(this.config.capacity, bucket.tokens + refilled);
+  }
+}
+
+export interface ChatGuardInput {
+  authorKey: string;
+  ip: string | null;
+  message: string;
+}
+
+// Decides whether a chat message may be sent. check() only looks; a message
+// counts against the sender's rate limits and duplicate window once record()
+// is called for it, after every other chat rule passed and it was stored, so
+// a message refused elsewhere costs the sender nothing.
+export class ChatGuard {
+  private config: ChatGuardConfig;
+  private authorBuckets: TokenBuckets;
+  private ipBuckets: TokenBuckets;
+  // Recent normalized messages per author. Not per IP: a stadium full of
+  // viewers on one connection will all type "GOAL!" at once
+  private recent = new Map<string, { text: string; at: number }[]>();
+  private lastPrune: number;
+
+  constructor(config: Partial<ChatGuardConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.authorBuckets = new TokenBuckets(this.config.authorBucket);
+    this.ipBuckets = new TokenBuckets(this.config.ipBucket);
+    this.lastPrune = this.config.now();
+  }
+
+  check(input: ChatGuardInput & { allowLinks?: boolean }): ChatGuardResult {
+    const now = this.config.now();
+    this.pruneIfDue(now);
+
+    if (input.message.length > this.config.maxLength) {
+      return { ok: false, reason: 'too_long', message: `Messages are limited to ${this.config.maxLength} characters` };
+    }
+
+    if (!input.allowLinks && containsLink(input.message)) {
+      return { ok: false, reason: 'link', message: 'Links are not allowed in chat' };
+    }
+
+    const wait = Math.max(
+      this.authorBuckets.waitTime(input.authorKey, now),
+      input.ip ? this.ipBuckets.waitTime(input.ip, now) : 0,
+    );
+    if (wait > 0) {
+      return { ok: false, reason: 'rate_limited', message: 'You are sending messages too quickly. Slow down!', retryAfterMs: wait };
+    }
+
+    const text = normalize(input.message);
+    const isDuplicate = (this.recent.get(input.authorKey) ?? [])
+      .some((entry) => entry.text === text && now - entry.at < this.config.duplicateWindowMs);
+    if (isDuplicate) {
+      return { ok: false, reason: 'duplicate', message: 'You already sent that message' };
+    }
+
+    return { ok: true };
+  }
+
+  record({ authorKey, ip, message }: ChatGuardInput) {
+    const now = this.config.now();
+    this.authorBuckets.take(authorKey, now);
+    if (ip) {
+      this.ipBuckets.take(ip, now);
+    }
+
+    const entries = (this.recent.get(authorKey) ?? []).filter((entry) => now - entry.at < this.config.duplicateWindowMs);
+    entries.push({ text: normalize(message), at: now });
+    this.recent.set(authorKey, entries);
+  }
+
+  private pruneIfDue(now: number) {
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) return;
+    this.lastPrune = now;
+
+    this.authorBuckets.prune(now);
+    this.ipBuckets.prune(now);
+    for (const [key, entries] of Array.from(this.recent)) {
+      if (entries.every((entry) => now - entry.at >= this.config.duplicateWindowMs)) {
+        this.recent.delete(key);
+      }
+    }
+  }
+}
+
+export const chatGuard = new ChatGuard();
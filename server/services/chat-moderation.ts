@@ -0,0 +1,162 @@
+import { storage } from '../storage';
+import type {
+  ChatBan, ChatBanData, ChatMessage, ChatModerationAction, ChatModerationLog, ChatSettings, UpdateChatSettingsData,
+} from '@shared/schema';
+import { getWebSocketService } from './websocket';
+
+export class ChatModerationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Settings of an event nobody has configured yet
+function defaultSettings(eventId: string): ChatSettings {
+  return { eventId, slowModeSeconds: 0, registeredOnly: false, blockedWords: [], updatedAt: null };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Replaces blocked words with asterisks. Words match case-insensitively and
+// only as whole words, so blocking "ass" leaves "pass" alone
+export function maskBlockedWords(text: string, blockedWords: string[]): string {
+  if (blockedWords.length === 0) return text;
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${blockedWords.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu',
+  );
+  return text.replace(pattern, (match) => '*'.repeat(match.length));
+}
+
+// Moderator tools for an event's chat. Every action is written to the audit log.
+export class ChatModerationService {
+  async getSettings(eventId: string): Promise<ChatSettings> {
+    return (await storage.getChatSettings(eventId)) ?? defaultSettings(eventId);
+  }
+
+  async updateSettings(eventId: string, updates: UpdateChatSettingsData, moderatorId: string): Promise<ChatSettings> {
+    const normalized: UpdateChatSettingsData = { ...updates };
+    if (updates.blockedWords) {
+      normalized.blockedWords = Array.from(new Set(updates.blockedWords.map((word) => word.toLowerCase())));
+    }
+
+    const settings = await storage.upsertChatSettings(eventId, normalized);
+    await this.log(eventId, moderatorId, 'settings', {
+      details: [
+        updates.slowModeSeconds !== undefined ? `slow mode ${updates.slowModeSeconds}s` : null,
+        updates.registeredOnly !== undefined ? `registered only ${updates.registeredOnly ? 'on' : 'off'}` : null,
+        normalized.blockedWords ? `${normalized.blockedWords.length} blocked words` : null,
+      ].filter(Boolean).join(', '),
+    });
+
+    getWebSocketService().broadcastChatSettings(eventId, settings);
+    return settings;
+  }
+
+  // Hidden messages disappear from every viewer's chat and from history
+  async setMessageHidden(eventId: string, messageId: string, hidden: boolean, moderatorId: string): Promise<ChatMessage> {
+    const existing = await this.getMessage(eventId, messageId);
+    const message = (await storage.moderateChatMessage(existing.id, moderatorId, hidden))!;
+
+    await this.log(eventId, moderatorId, hidden ? 'hide' : 'unhide', {
+      messageId: message.id,
+      targetUsername: message.username,
+    });
+
+    const wsService = getWebSocketService();
+    if (hidden) {
+      wsService.broadcastChatMessageHidden(eventId, message.id);
+    } else {
+      wsService.broadcastChatMessage(eventId, message);
+    }
+    return message;
+  }
+
+  // Times out (with a duration) or bans the author of a message
+  async banAuthor(eventId: string, data: ChatBanData, moderatorId: string): Promise<ChatBan> {
+    const message = await this.getMessage(eventId, data.messageId);
+    if (!message.authorKey) {
+      throw new ChatModerationError('The author of this message cannot be identified', 400);
+    }
+    if (message.authorKey === `user:${moderatorId}`) {
+      throw new ChatModerationError('You cannot ban yourself', 400);
+    }
+
+    const ban = await storage.createChatBan({
+      eventId,
+      authorKey: message.authorKey,
+      username: message.username,
+      reason: data.reason || null,
+      expiresAt: data.durationMinutes ? new Date(Date.now() + data.durationMinutes * 60 * 1000) : null,
+      createdBy: moderatorId,
+    });
+
+    await this.log(eventId, moderatorId, data.durationMinutes ? 'timeout' : 'ban', {
+      messageId: message.id,
+      targetUsername: message.username,
+      details: [
+        data.durationMinutes ? `${data.durationMinutes} minutes` : null,
+        data.reason || null,
+      ].filter(Boolean).join(': ') || null,
+    });
+    return ban;
+  }
+
+  async liftBan(eventId: string, banId: string, moderatorId: string): Promise<void> {
+    const ban = await storage.getChatBan(banId);
+    if (!ban || ban.eventId !== eventId) {
+      throw new ChatModerationError('Ban not found', 404);
+    }
+
+    await storage.deleteChatBan(ban.id);
+    await this.log(eventId, moderatorId, 'unban', { targetUsername: ban.username });
+  }
+
+  async getActiveBans(eventId: string): Promise<ChatBan[]> {
+    return await storage.getActiveChatBansByEvent(eventId);
+  }
+
+  // Entries carry the moderator's name so the log reads as who did what
+  async getAuditLog(eventId: string, limit = 100): Promise<(ChatModerationLog & { moderatorName: string | null })[]> {
+    const logs = await storage.getChatModerationLogsByEvent(eventId, limit);
+
+    const moderatorIds = Array.from(new Set(logs.map((log) => log.moderatorId).filter((id): id is string => !!id)));
+    const names = new Map<string, string>();
+    for (const id of moderatorIds) {
+      const user = await storage.getUser(id);
+      if (user) {
+        names.set(id, user.displayName || [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email);
+      }
+    }
+
+    return logs.map((log) => ({ ...log, moderatorName: log.moderatorId ? names.get(log.moderatorId) ?? null : null }));
+  }
+
+  private async getMessage(eventId: string, messageId: string): Promise<ChatMessage> {
+    const message = await storage.getChatMessage(messageId);
+    if (!message || message.eventId !== eventId) {
+      throw new ChatModerationError('Message not found', 404);
+    }
+    return message;
+  }
+
+  private async log(
+    eventId: string,
+    moderatorId: string,
+    action: ChatModerationAction,
+    entry: { messageId?: string; targetUsername?: string; details?: string | null },
+  ) {
+    await storage.createChatModerationLog({
+      eventId,
+      moderatorId,
+      action,
+      messageId: entry.messageId ?? null,
+      targetUsername: entry.targetUsername ?? null,
+      details: entry.details || null,
+    });
+  }
+}
+
+export const chatModerationService = new ChatModerationService();
@@ -0,0 +1,144 @@
+import { ZodError } from 'zod';
+import { storage } from '../storage';
+import { insertChatMessageSchema, type ChatMessage } from '@shared/schema';
+import type { ChatMessagePayload } from '@shared/ws-protocol';
+import { eventAccess, type EventRole } from './event-access';
+import { chatModerationService, maskBlockedWords } from './chat-moderation';
+import { chatGuard, type ChatRejectionReason } from './chat-guard';
+import { getWebSocketService } from './websocket';
+
+export class ChatError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public reason: ChatRejectionReason = 'invalid',
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+  }
+}
+
+export interface ChatHistoryPage {
+  messages: ChatMessagePayload[];
+  nextCursor: string | null;
+}
+
+export interface ChatAuthor {
+  userId: string | null;
+  // Random ID a guest's browser keeps, so guests can be timed out and banned too.
+  // Taken from the guest's join, never from the message itself
+  clientId: string | null;
+  role: EventRole | null;
+  ip: string | null;
+}
+
+// The author key identifies guests by their browser ID; keep it off the wire
+export function toPublicChatMessage(message: ChatMessage): ChatMessagePayload {
+  const { authorKey, createdAt, ...publicMessage } = message;
+  return { ...publicMessage, createdAt: createdAt ? createdAt.toISOString() : null };
+}
+
+function authorKeyFor(author: ChatAuthor): string | null {
+  if (author.userId) return `user:${author.userId}`;
+  if (author.clientId && /^[\w-]{8,64}$/.test(author.clientId)) {
+    return `guest:${author.clientId}`;
+  }
+  return null;
+}
+
+// Live chat: messages arrive over the event's WebSocket room, are checked
+// against the event's chat rules, stored, and fanned out to everyone in the
+// room. History is paged newest first.
+export class ChatService {
+  async send(eventId: string, data: { username?: unknown; message?: unknown }, author: ChatAuthor): Promise<ChatMessage> {
+    const authorKey = authorKeyFor(author);
+    if (!authorKey) {
+      throw new ChatError('Missing client ID', 400);
+    }
+
+    const isModerator = eventAccess.hasPermission(author.role, 'moderate_chat');
+
+    // Cheap in-memory abuse checks run before anything touches the database
+    const guardInput = {
+      authorKey,
+      ip: author.ip,
+      message: typeof data.message === 'string' ? data.message.trim() : '',
+    };
+    const verdict = chatGuard.check({ ...guardInput, allowLinks: isModerator });
+    if (!verdict.ok) {
+      throw new ChatError(verdict.message, verdict.reason === 'rate_limited' ? 429 : 400, verdict.reason, verdict.retryAfterMs);
+    }
+
+    let parsed;
+    try {
+      parsed = insertChatMessageSchema.parse({ ...data, eventId, userId: author.userId, authorKey });
+    } catch (error) {
+      const message = error instanceof ZodError ? error.errors[0]?.message : undefined;
+      throw new ChatError(message || 'Invalid chat message', 400);
+    }
+
+    // Moderators are exempt from the rules they enforce
+    if (!isModerator) {
+      const settings = await chatModerationService.getSettings(eventId);
+      await this.enforceRules(eventId, authorKey, author.userId, settings.slowModeSeconds, settings.registeredOnly);
+      parsed.message = maskBlockedWords(parsed.message, settings.blockedWords);
+    }
+
+    const chatMessage = await storage.createChatMessage(parsed);
+    // Only a message that was actually sent counts against the sender's limits
+    chatGuard.record(guardInput);
+    getWebSocketService().broadcastChatMessage(eventId, chatMessage);
+    return chatMessage;
+  }
+
+  async getHistory(eventId: string, limit: number, before?: string, includeHidden = false): Promise<ChatHistoryPage> {
+    let cursor: ChatMessage | undefined;
+    if (before) {
+      cursor = await storage.getChatMessage(before);
+      if (!cursor || cursor.eventId !== eventId) {
+        throw new ChatError('Invalid history cursor', 400);
+      }
+    }
+
+    // Fetch one extra row to learn whether another page exists
+    const rows = await storage.getChatMessagesByEvent(eventId, limit + 1, cursor, includeHidden);
+    const messages = rows.slice(0, limit);
+    return {
+      messages: messages.map(toPublicChatMessage),
+      nextCursor: rows.length > limit ? messages[messages.length - 1].id : null,
+    };
+  }
+
+  private async enforceRules(
+    eventId: string,
+    authorKey: string,
+    userId: string | null,
+    slowModeSeconds: number,
+    registeredOnly: boolean,
+  ) {
+    if (registeredOnly && !userId) {
+      throw new ChatError('Chat is limited to signed-in viewers', 403, 'registered_only');
+    }
+
+    const ban = await storage.getActiveChatBan(eventId, authorKey);
+    if (ban) {
+      if (!ban.expiresAt) {
+        throw new ChatError('You have been banned from this chat', 403, 'banned');
+      }
+      const remainingMs = ban.expiresAt.getTime() - Date.now();
+      const minutes = Math.ceil(remainingMs / 60000);
+      throw new ChatError(`You are timed out for ${minutes} more minute${minutes === 1 ? '' : 's'}`, 403, 'banned', remainingMs);
+    }
+
+    if (slowModeSeconds > 0) {
+      const latest = await storage.getLatestChatMessageByAuthor(eventId, authorKey);
+      const elapsed = latest?.createdAt ? (Date.now() - latest.createdAt.getTime()) / 1000 : Infinity;
+      if (elapsed < slowModeSeconds) {
+        const waitSeconds = Math.ceil(slowModeSeconds - elapsed);
+        throw new ChatError(`Slow mode is on: wait ${waitSeconds}s`, 429, 'slow_mode', waitSeconds * 1000);
+      }
+    }
+  }
+}
+
+export const chatService = new ChatService();
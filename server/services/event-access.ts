@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import type { Camera, Event, MemberRole } from '@shared/schema';
+import type { CameraPayload } from '@shared/ws-protocol';
+import { storage } from '../storage';
+
+export type EventRole = 'owner' | MemberRole | 'viewer';
+
+export type EventPermission =
+  | 'view'            // watch the event and receive its live updates
+  | 'operate_camera'  // report status for a camera the caller operates
+  | 'switch'          // cut the program between cameras
+  | 'manage'          // start/stop the broadcast and configure simulcast
+  | 'moderate_chat'   // moderate the event's live chat
+  | 'keep_score'      // run the scoreboard and game clock
+  | 'manage_members'; // invite and revoke collaborators
+
+const ROLE_PERMISSIONS: Record<EventRole, EventPermission[]> = {
+  owner: ['view', 'operate_camera', 'switch', 'manage', 'moderate_chat', 'keep_score', 'manage_members'],
+  director: ['view', 'operate_camera', 'switch', 'manage', 'moderate_chat', 'keep_score'],
+  producer: ['view', 'manage', 'moderate_chat'],
+  moderator: ['view', 'moderate_chat'],
+  camera_operator: ['view', 'operate_camera'],
+  scorekeeper: ['view', 'keep_score'],
+  viewer: ['view'],
+};
+
+export interface AccessContext {
+  user?: { id: string; role: string } | null;
+  // Token handed to a phone when it registers as a camera; anonymous operators
+  // have no account, so this is what proves they own their camera
+  cameraToken?: string | null;
+}
+
+export function generateCameraToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function tokensMatch(expected: string | null | undefined, received: string | null | undefined): boolean {
+  if (!expected || !received) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export class EventAccessService {
+  // Highest role the caller holds on the event, or null when they may not see it at all
+  async resolveRole(event: Event, context: AccessContext): Promise<EventRole | null> {
+    const { user, cameraToken } = context;
+
+    if (user && (user.role === 'admin' || event.organizerId === user.id)) {
+      return 'owner';
+    }
+
+    if (user) {
+      const membership = await storage.getAcceptedMembership(event.id, user.id);
+      if (membership) {
+        return membership.role as MemberRole;
+      }
+    }
+
+    if (user || cameraToken) {
+      const cameras = await storage.getCamerasByEvent(event.id);
+      if (cameras.some((camera) => this.operatesCamera(camera, context))) {
+        return 'camera_operator';
+      }
+    }
+
+    return event.isPublic ? 'viewer' : null;
+  }
+
+  hasPermission(role: EventRole | null, permission: EventPermission): boolean {
+    return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  // Operators may only drive their own camera; directors may drive any of them
+  canOperateCamera(role: EventRole | null, camera: Camera, context: AccessContext): boolean {
+    if (this.hasPermission(role, 'switch')) {
+      return true;
+    }
+    // A collaborator with another role (say a moderator) can still run their own phone
+    return role !== null && this.operatesCamera(camera, context);
+  }
+
+  private operatesCamera(camera: Camera, context: AccessContext): boolean {
+    return (!!context.user && camera.operatorId === context.user.id)
+      || tokensMatch(camera.accessToken, context.cameraToken);
+  }
+}
+
+// Strip ingest credentials before an event or camera leaves the server
+export function toPublicCamera(camera: Camera) {
+  const { streamKey, rtmpUrl, accessToken, ...publicCamera } = camera;
+  return publicCamera;
+}
+
+// A public camera as it goes over the WebSocket, dates as ISO strings
+export function toCameraPayload(camera: Camera): CameraPayload {
+  const { joinedAt, lastActiveAt, removedAt, ...publicCamera } = toPublicCamera(camera);
+  return {
+    ...publicCamera,
+    joinedAt: joinedAt ? joinedAt.toISOString() : null,
+    lastActiveAt: lastActiveAt ? lastActiveAt.toISOString() : null,
+  };
+}
+
+export function toPublicEvent(event: Event) {
+  const { streamKey, ingestUrl, ...publicEvent } = event;
+  return publicEvent;
+}
+
+export const eventAccess = new EventAccessService();
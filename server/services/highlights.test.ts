@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import type { EventMarker } from "@shared/schema";
+import { buildWindows } from "./highlights";
+
+function marker(id: string, at: number, leadSeconds: number, trailSeconds: number): EventMarker {
+  return { id, kind: "goal", label: id, at: new Date(at * 1000), leadSeconds, trailSeconds } as EventMarker;
+}
+
+describe("buildWindows", () => {
+  it("keeps highlights that don't overlap apart", () => {
+    const windows = buildWindows([marker("a", 100, 10, 5), marker("b", 200, 10, 5)]);
+    expect(windows.map((window) => [window.startAt / 1000, window.endAt / 1000])).toEqual([[90, 105], [190, 205]]);
+  });
+
+  it("merges a later highlight whose lead-in reaches back over an earlier one", () => {
+    // b happens after a but its long lead-in starts before a's window
+    const windows = buildWindows([marker("a", 100, 5, 5), marker("b", 120, 60, 5), marker("c", 300, 5, 5)]);
+    expect(windows).toHaveLength(2);
+    expect(windows[0].startAt / 1000).toBe(60);
+    expect(windows[0].endAt / 1000).toBe(125);
+    expect(windows[0].title).toBe("b / a");
+    expect(windows[1].marker.id).toBe("c");
+  });
+
+  it("ignores markers that aren't highlights", () => {
+    const timeout = { ...marker("t", 100, 10, 10), kind: "timeout" } as EventMarker;
+    expect(buildWindows([timeout])).toEqual([]);
+  });
+});
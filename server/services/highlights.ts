@@ -0,0 +1,431 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import { storage } from '../storage';
+import { instanceId } from '../instance';
+import {
+  markerKinds,
+  type CreateEventMarkerData, type Event, type EventMarker, type HighlightReel, type HighlightSegment, type Recording,
+} from '@shared/schema';
+import { getWebSocketService } from './websocket';
+
+export class HighlightError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export interface Chapter {
+  title: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface ChapterCut {
+  at: Date;
+  title: string;
+}
+
+// A cut or marker this close to the previous chapter start doesn't open a new one
+const MIN_CHAPTER_SECONDS = 10;
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+// A render step that takes longer than this is assumed stuck
+const RENDER_STEP_TIMEOUT_MS = 10 * 60 * 1000;
+// Rendered files are stored in rows of at most this many bytes
+const CHUNK_BYTES = 4 * 1024 * 1024;
+// How often a rendering instance checks in on its reel, and how often reels
+// are looked over for ones to pick up or give up on
+const RENDER_HEARTBEAT_MS = 30 * 1000;
+// A rendering reel whose instance stopped checking in was cut short
+const STALE_RENDER_MS = 3 * RENDER_HEARTBEAT_MS;
+
+export interface HighlightWindow {
+  marker: EventMarker;
+  title: string;
+  startAt: number;
+  endAt: number;
+}
+
+function markerTitle(marker: EventMarker): string {
+  return marker.label || markerKinds[marker.kind as keyof typeof markerKinds]?.label || marker.kind;
+}
+
+function isHighlight(marker: EventMarker): boolean {
+  return markerKinds[marker.kind as keyof typeof markerKinds]?.highlight ?? false;
+}
+
+// Chapters for a recording, opened by each camera cut and each marker.
+// Markers win over cuts that land close by, and a highlight's chapter starts
+// at its lead-in so the build-up is included.
+export function buildChapters(
+  recording: { recordedAt: Date; durationSeconds: number },
+  markers: EventMarker[],
+  cuts: ChapterCut[],
+): Chapter[] {
+  const start = recording.recordedAt.getTime();
+  const duration = recording.durationSeconds;
+  const toSeconds = (at: Date) => (at.getTime() - start) / 1000;
+
+  const points = [
+    ...markers.map((marker) => ({
+      seconds: Math.max(0, toSeconds(marker.at) - (isHighlight(marker) ? marker.leadSeconds : 0)),
+      title: markerTitle(marker),
+      isMarker: true,
+    })),
+    ...cuts.map((cut) => ({ seconds: Math.max(0, toSeconds(cut.at)), title: cut.title, isMarker: false })),
+  ]
+    .filter((point) => point.seconds < duration)
+    .sort((a, b) => a.seconds - b.seconds || Number(b.isMarker) - Number(a.isMarker));
+
+  const chapters: Array<{ title: string; startSeconds: number; isMarker: boolean }> = [];
+  for (const point of points) {
+    const last = chapters[chapters.length - 1];
+    if (last && point.seconds - last.startSeconds < MIN_CHAPTER_SECONDS) {
+      if (point.isMarker && !last.isMarker) {
+        last.title = point.title;
+        last.isMarker = true;
+      }
+      continue;
+    }
+    chapters.push({ title: point.title, startSeconds: point.seconds, isMarker: point.isMarker });
+  }
+  if (chapters.length > 0 && chapters[0].startSeconds > 0) {
+    chapters.unshift({ title: 'Start', startSeconds: 0, isMarker: false });
+  }
+
+  return chapters.map((chapter, index) => ({
+    title: chapter.title,
+    startSeconds: chapter.startSeconds,
+    endSeconds: chapters[index + 1]?.startSeconds ?? duration,
+  }));
+}
+
+// Each highlight marker's lead/trail window, in epoch milliseconds. Windows
+// are merged in order of where they start, so a long lead-in that reaches
+// back over an earlier highlight joins it.
+export function buildWindows(markers: EventMarker[]): HighlightWindow[] {
+  const candidates = markers
+    .filter(isHighlight)
+    .map((marker) => ({
+      marker,
+      title: markerTitle(marker),
+      startAt: marker.at.getTime() - marker.leadSeconds * 1000,
+      endAt: marker.at.getTime() + marker.trailSeconds * 1000,
+    }))
+    .sort((a, b) => a.startAt - b.startAt);
+
+  const windows: HighlightWindow[] = [];
+  for (const candidate of candidates) {
+    const last = windows[windows.length - 1];
+    if (last && candidate.startAt <= last.endAt) {
+      last.endAt = Math.max(last.endAt, candidate.endAt);
+      last.title = `${last.title} / ${candidate.title}`;
+    } else {
+      windows.push(candidate);
+    }
+  }
+  return windows;
+}
+
+function formatVttTime(totalSeconds: number): string {
+  const ms = Math.round(totalSeconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
+
+export function formatWebVtt(chapters: Chapter[]): string {
+  const cues = chapters.map((chapter, index) =>
+    `${index + 1}\n${formatVttTime(chapter.startSeconds)} --> ${formatVttTime(chapter.endSeconds)}\n${chapter.title.replace(/\n/g, ' ')}`);
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+// Markers the director places during the game, the chapters they and the
+// switch logs give each recording, and highlight reels rendered from the
+// marked moments. Each instance renders reels one at a time with ffmpeg in
+// scratch space and stores the files in the database, so any instance can
+// serve the downloads.
+export class HighlightService {
+  private queue: string[] = [];
+  private current: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  async start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => console.error('Highlight reel sweep failed:', error));
+    }, RENDER_HEARTBEAT_MS);
+    this.timer.unref();
+    await this.sweep();
+  }
+
+  // Queued reels go to whichever instance claims them first. A reel is only
+  // failed as interrupted once the instance rendering it has stopped checking
+  // in, so a restart elsewhere never cancels a render that is still running.
+  private async sweep() {
+    const staleBefore = Date.now() - STALE_RENDER_MS;
+    const reels = await storage.getHighlightReelsByStatus(['queued', 'rendering']);
+    for (const reel of reels) {
+      if (reel.status === 'queued') {
+        this.enqueue(reel.id);
+      } else if (reel.renderedBy !== instanceId && (reel.heartbeatAt?.getTime() ?? 0) < staleBefore) {
+        await this.fail(reel, 'Rendering was interrupted by a restart');
+      }
+    }
+  }
+
+  async addMarker(event: Event, data: CreateEventMarkerData, userId: string): Promise<EventMarker> {
+    return storage.createEventMarker({
+      eventId: event.id,
+      kind: data.kind,
+      label: data.label || null,
+      at: data.at ?? new Date(),
+      leadSeconds: data.leadSeconds,
+      trailSeconds: data.trailSeconds,
+      createdBy: userId,
+    });
+  }
+
+  async getMarkers(eventId: string): Promise<EventMarker[]> {
+    return storage.getEventMarkersByEvent(eventId);
+  }
+
+  async deleteMarker(eventId: string, markerId: string) {
+    const marker = await storage.getEventMarker(markerId);
+    if (!marker || marker.eventId !== eventId) {
+      throw new HighlightError('Marker not found', 404);
+    }
+    await storage.deleteEventMarker(markerId);
+  }
+
+  // Camera cuts only make chapters on recordings of the program
+  async getChapters(recording: Recording): Promise<Chapter[]> {
+    if (recording.status !== 'ready' || !recording.recordedAt || recording.durationSeconds === null) {
+      throw new HighlightError('The recording is not ready yet', 409);
+    }
+
+    const markers = await storage.getEventMarkersByEvent(recording.eventId);
+    let cuts: ChapterCut[] = [];
+    if (!recording.cameraId) {
+      const [logs, cameras] = await Promise.all([
+        storage.getSwitchLogsByEvent(recording.eventId),
+        storage.getCamerasByEvent(recording.eventId, true),
+      ]);
+      const labels = new Map(cameras.map((camera) => [camera.id, camera.label]));
+      cuts = logs
+        .filter((log) => log.switchedAt)
+        .map((log) => ({ at: log.switchedAt!, title: labels.get(log.cameraId) ?? 'Camera' }));
+    }
+
+    return buildChapters(
+      { recordedAt: recording.recordedAt, durationSeconds: recording.durationSeconds },
+      markers,
+      cuts,
+    );
+  }
+
+  async getReels(eventId: string): Promise<HighlightReel[]> {
+    return storage.getHighlightReelsByEvent(eventId);
+  }
+
+  // Cuts each highlight marker's window out of the program recording that
+  // covers it; overlapping windows become one segment
+  async createReel(event: Event, userId: string): Promise<HighlightReel> {
+    const recordings = (await storage.getRecordingsByEvent(event.id, true)).filter((recording) =>
+      !recording.cameraId && recording.status === 'ready' && recording.playbackUrl && recording.recordedAt && recording.durationSeconds !== null);
+    if (recordings.length === 0) {
+      throw new HighlightError('The event has no finished recording yet', 409);
+    }
+
+    const windows = buildWindows(await storage.getEventMarkersByEvent(event.id));
+
+    const segments: HighlightSegment[] = [];
+    for (const window of windows) {
+      const recording = recordings.find((r) => {
+        const start = r.recordedAt!.getTime();
+        return window.startAt < start + r.durationSeconds! * 1000 && window.endAt > start;
+      });
+      if (!recording) continue;
+
+      const recordingStart = recording.recordedAt!.getTime();
+      const recordingEnd = recordingStart + recording.durationSeconds! * 1000;
+      const startAt = Math.max(window.startAt, recordingStart);
+      segments.push({
+        markerId: window.marker.id,
+        title: window.title,
+        sourceUrl: recording.playbackUrl!,
+        offsetSeconds: (startAt - recordingStart) / 1000,
+        durationSeconds: (Math.min(window.endAt, recordingEnd) - startAt) / 1000,
+      });
+    }
+    if (segments.length === 0) {
+      throw new HighlightError('No marked highlight falls within a recording', 409);
+    }
+
+    const reel = await storage.createHighlightReel({ eventId: event.id, segments, createdBy: userId });
+    getWebSocketService().broadcastHighlightReel(reel);
+    this.enqueue(reel.id);
+    return reel;
+  }
+
+  async deleteReel(eventId: string, reelId: string) {
+    const reel = await this.getReel(eventId, reelId);
+    if (reel.status === 'rendering') {
+      throw new HighlightError('The reel is still rendering', 409);
+    }
+    await storage.deleteHighlightReel(reel.id);
+  }
+
+  // The joined reel, or one segment's clip when index is given, read back from
+  // the database a chunk at a time
+  async openReelFile(eventId: string, reelId: string, index?: number): Promise<Readable> {
+    const reel = await this.getReel(eventId, reelId);
+    if (reel.status !== 'ready') {
+      throw new HighlightError('The reel is not ready', 409);
+    }
+    if (index !== undefined && (index < 1 || index > reel.segments.length)) {
+      throw new HighlightError('Clip not found', 404);
+    }
+
+    const file = index === undefined ? 'reel.mp4' : `clip-${index}.mp4`;
+    const first = await storage.getHighlightReelChunk(reel.id, file, 0);
+    if (!first) {
+      throw new HighlightError('Clip not found', 404);
+    }
+    return Readable.from(this.readChunks(reel.id, file, first));
+  }
+
+  private async *readChunks(reelId: string, file: string, first: Buffer) {
+    yield first;
+    for (let seq = 1; ; seq++) {
+      const chunk = await storage.getHighlightReelChunk(reelId, file, seq);
+      if (!chunk) return;
+      yield chunk;
+    }
+  }
+
+  private enqueue(reelId: string) {
+    if (this.current === reelId || this.queue.includes(reelId)) return;
+    this.queue.push(reelId);
+    this.renderNext();
+  }
+
+  private renderNext() {
+    if (this.current) return;
+    const reelId = this.queue.shift();
+    if (!reelId) return;
+
+    this.current = reelId;
+    this.render(reelId)
+      .catch((error) => console.error(`Highlight reel ${reelId} failed:`, error))
+      .finally(() => {
+        this.current = null;
+        this.renderNext();
+      });
+  }
+
+  private async render(reelId: string) {
+    const reel = await storage.transitionHighlightReel(reelId, 'queued', {
+      status: 'rendering',
+      renderedBy: instanceId,
+      heartbeatAt: new Date(),
+    });
+    if (!reel) return;
+    getWebSocketService().broadcastHighlightReel(reel);
+
+    const heartbeat = setInterval(() => {
+      storage.transitionHighlightReel(reel.id, 'rendering', { heartbeatAt: new Date() })
+        .catch((error) => console.error(`Failed to refresh highlight reel ${reel.id}:`, error));
+    }, RENDER_HEARTBEAT_MS);
+    heartbeat.unref();
+
+    let dir: string | null = null;
+    try {
+      dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'highlight-'));
+
+      // Every clip is encoded the same way, so they join without re-encoding
+      const clips: string[] = [];
+      for (const [index, segment] of Array.from(reel.segments.entries())) {
+        const clip = path.join(dir, `clip-${index + 1}.mp4`);
+        await this.runFfmpeg([
+          '-ss', segment.offsetSeconds.toFixed(3), '-i', segment.sourceUrl, '-t', segment.durationSeconds.toFixed(3),
+          '-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-b:a', '128k',
+          '-movflags', '+faststart', clip,
+        ]);
+        clips.push(clip);
+      }
+
+      const list = path.join(dir, 'clips.txt');
+      await fs.promises.writeFile(list, clips.map((clip) => `file '${clip.replace(/'/g, "'\\''")}'`).join('\n'));
+      await this.runFfmpeg(['-f', 'concat', '-safe', '0', '-i', list, '-c', 'copy', '-movflags', '+faststart', path.join(dir, 'reel.mp4')]);
+
+      for (const [index, clip] of Array.from(clips.entries())) {
+        await this.storeFile(reel.id, `clip-${index + 1}.mp4`, clip);
+      }
+      await this.storeFile(reel.id, 'reel.mp4', path.join(dir, 'reel.mp4'));
+    } catch (error) {
+      console.error(`Highlight reel ${reel.id} could not be rendered:`, error);
+      await storage.deleteHighlightReelChunks(reel.id)
+        .catch((cleanupError) => console.error(`Failed to clear highlight reel ${reel.id}:`, cleanupError));
+      await this.fail(reel, 'The reel could not be rendered');
+      return;
+    } finally {
+      clearInterval(heartbeat);
+      if (dir) await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+
+    const ready = await storage.transitionHighlightReel(reel.id, 'rendering', { status: 'ready', completedAt: new Date() });
+    if (ready) {
+      getWebSocketService().broadcastHighlightReel(ready);
+    }
+  }
+
+  private async storeFile(reelId: string, file: string, source: string) {
+    let seq = 0;
+    for await (const chunk of fs.createReadStream(source, { highWaterMark: CHUNK_BYTES })) {
+      await storage.addHighlightReelChunk(reelId, file, seq++, chunk as Buffer);
+    }
+  }
+
+  private runFfmpeg(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', '-y', ...args], { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderr = '';
+      ffmpeg.stderr!.on('data', (data: Buffer) => {
+        stderr = (stderr + data.toString()).slice(-2000);
+      });
+      const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), RENDER_STEP_TIMEOUT_MS);
+      ffmpeg.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      ffmpeg.on('exit', (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`ffmpeg exited with ${signal ?? `code ${code}`}: ${stderr.trim()}`));
+        }
+      });
+    });
+  }
+
+  private async fail(reel: HighlightReel, failureReason: string) {
+    const failed = await storage.transitionHighlightReel(reel.id, reel.status, { status: 'failed', failureReason, completedAt: new Date() });
+    if (failed) {
+      getWebSocketService().broadcastHighlightReel(failed);
+    }
+  }
+
+  private async getReel(eventId: string, reelId: string): Promise<HighlightReel> {
+    const reel = await storage.getHighlightReel(reelId);
+    if (!reel || reel.eventId !== eventId) {
+      throw new HighlightError('Highlight reel not found', 404);
+    }
+    return reel;
+  }
+}
+
+export const highlightService = new HighlightService();
@@ -0,0 +1,170 @@
+import type { Clip, LiveStream, SimulcastTarget, StreamingProvider, StreamRecording } from './streaming';
+
+interface LocalStreamState {
+  stream: LiveStream;
+  targets: Map<string, SimulcastTarget>;
+  // Each start to stop is one recording, cut from the media server's DVR buffer
+  startedAt: Date | null;
+  recordings: StreamRecording[];
+}
+
+export interface LocalStreamingOptions {
+  rtmpUrl?: string;
+  hlsUrl?: string;
+  // Playback server of a media server that records its streams
+  recordingUrl?: string;
+  // Prefix for generated identifiers; pass a fixed one for reproducible tests
+  prefix?: string;
+}
+
+// Streaming provider for development and tests. Identifiers are sequential
+// under a prefix and all state lives in memory. Ingest and playback URLs follow
+// the layout of a local RTMP→HLS media server such as MediaMTX, so pointing
+// LOCAL_RTMP_URL and LOCAL_HLS_URL at one gives a working pipeline without any
+// Mux account.
+export class LocalStreamingProvider implements StreamingProvider {
+  readonly name = 'local';
+  private streams = new Map<string, LocalStreamState>();
+  private nextId = 1;
+  private rtmpUrl: string;
+  private hlsUrl: string;
+  private recordingUrl: string;
+  private prefix: string;
+
+  constructor(options: LocalStreamingOptions = {}) {
+    this.rtmpUrl = options.rtmpUrl ?? (process.env.LOCAL_RTMP_URL || 'rtmp://localhost:1935/live');
+    this.hlsUrl = options.hlsUrl ?? (process.env.LOCAL_HLS_URL || 'http://localhost:8888/live');
+    this.recordingUrl = options.recordingUrl ?? (process.env.LOCAL_RECORDING_URL || 'http://localhost:9996');
+    // Default to a per-process prefix so keys never collide with streams
+    // stored in the database by an earlier run
+    this.prefix = options.prefix ?? `local-${Date.now().toString(36)}`;
+  }
+
+  async createLiveStream(): Promise<LiveStream> {
+    const key = `${this.prefix}-${this.nextId++}`;
+    const stream: LiveStream = {
+      id: `${key}-stream`,
+      // The stream key doubles as the media server path playback is served from
+      playbackId: key,
+      ingestUrl: this.rtmpUrl,
+      streamKey: key,
+      status: 'idle',
+    };
+
+    this.streams.set(stream.id, { stream, targets: new Map(), startedAt: null, recordings: [] });
+    return { ...stream };
+  }
+
+  async startLiveStream(streamId: string): Promise<void> {
+    const state = this.getState(streamId);
+    state.stream.status = 'active';
+    state.startedAt ??= new Date();
+  }
+
+  async stopLiveStream(streamId: string): Promise<void> {
+    const state = this.getState(streamId);
+    state.stream.status = 'idle';
+
+    if (state.startedAt) {
+      const endedAt = new Date();
+      state.recordings.push({
+        id: `${state.stream.streamKey}-recording-${state.startedAt.getTime()}`,
+        status: 'ready',
+        playbackUrl: this.getRecordingUrl(state.stream, state.startedAt, endedAt),
+        durationSeconds: Math.round((endedAt.getTime() - state.startedAt.getTime()) / 1000),
+        recordedAt: state.startedAt,
+      });
+      state.startedAt = null;
+    }
+  }
+
+  async deleteLiveStream(streamId: string): Promise<void> {
+    this.streams.delete(streamId);
+  }
+
+  async getLiveStreamStatus(streamId: string): Promise<string> {
+    return this.getState(streamId).stream.status;
+  }
+
+  async addSimulcastTarget(streamId: string, url: string, streamKey: string): Promise<SimulcastTarget> {
+    const state = this.getState(streamId);
+    const target: SimulcastTarget = {
+      id: `${streamId}-target-${state.targets.size + 1}`,
+      url,
+      streamKey,
+      status: 'idle',
+    };
+
+    state.targets.set(target.id, target);
+    return { ...target };
+  }
+
+  async removeSimulcastTarget(streamId: string, targetId: string): Promise<void> {
+    if (!this.getState(streamId).targets.delete(targetId)) {
+      throw new Error(`Simulcast target ${targetId} not found`);
+    }
+  }
+
+  // The media server keeps each stream's recording as a DVR buffer and its
+  // playback server cuts any window out of it on request, so a clip is just
+  // a URL and ready straight away
+  async createClip(streamId: string, startAt: Date, endAt: Date): Promise<Clip> {
+    const { stream } = this.getState(streamId);
+    return {
+      id: `${stream.streamKey}-clip-${startAt.getTime()}`,
+      status: 'ready',
+      playbackUrl: this.getRecordingUrl(stream, startAt, endAt),
+    };
+  }
+
+  // Clips are ready as soon as they are made
+  async getClipStatus(): Promise<Clip['status'] | 'errored'> {
+    return 'ready';
+  }
+
+  async getRecordings(streamId: string): Promise<StreamRecording[]> {
+    return this.getState(streamId).recordings.map((recording) => ({ ...recording }));
+  }
+
+  async deleteRecording(recordingId: string): Promise<void> {
+    Array.from(this.streams.values()).forEach((state) => {
+      state.recordings = state.recordings.filter((recording) => recording.id !== recordingId);
+    });
+  }
+
+  getPlaybackUrl(playbackId: string): string {
+    return `${this.hlsUrl}/${playbackId}/index.m3u8`;
+  }
+
+  getThumbnailUrl(_playbackId: string): string | null {
+    return null;
+  }
+
+  // Playback server URL for one window of the stream's recording
+  private getRecordingUrl(stream: LiveStream, startAt: Date, endAt: Date): string {
+    const params = new URLSearchParams({
+      path: `${new URL(this.rtmpUrl).pathname.replace(/^\//, '')}/${stream.streamKey}`,
+      start: startAt.toISOString(),
+      duration: String((endAt.getTime() - startAt.getTime()) / 1000),
+      format: 'mp4',
+    });
+    return `${this.recordingUrl}/get?${params}`;
+  }
+
+  // Streams created before a restart are only known to the database; treat
+  // them as idle rather than failing every call for them
+  private getState(streamId: string): LocalStreamState {
+    let state = this.streams.get(streamId);
+    if (!state) {
+      const key = streamId.replace(/-stream$/, '');
+      state = {
+        stream: { id: streamId, playbackId: key, ingestUrl: this.rtmpUrl, streamKey: key, status: 'idle' },
+        targets: new Map(),
+        startedAt: null,
+        recordings: [],
+      };
+      this.streams.set(streamId, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import type { Event, EventMember, MemberRole } from '@shared/schema';
+
+export class MembershipError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export class MemberService {
+  async invite(event: Event, email: string, role: MemberRole, invitedBy: string): Promise<EventMember> {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const organizer = event.organizerId ? await storage.getUser(event.organizerId) : undefined;
+    if (organizer && organizer.email.toLowerCase() === normalizedEmail) {
+      throw new MembershipError('The organizer is already part of this event', 409);
+    }
+
+    const existing = await storage.getActiveEventMemberByEmail(event.id, normalizedEmail);
+    if (existing) {
+      throw new MembershipError('This person has already been invited', 409);
+    }
+
+    const member = await storage.createEventMember({
+      eventId: event.id,
+      email: normalizedEmail,
+      role,
+      inviteToken: crypto.randomBytes(32).toString('hex'),
+      invitedBy,
+    });
+
+    // In production, send email here
+    const baseUrl = process.env.APP_URL || '';
+    console.log('Event invitation for', normalizedEmail, ':', `${baseUrl}/events?invite=${member.inviteToken}`);
+
+    return member;
+  }
+
+  async respond(inviteToken: string, user: { id: string; email: string }, accept: boolean): Promise<EventMember> {
+    const member = await storage.getEventMemberByToken(inviteToken);
+    if (!member) {
+      throw new MembershipError('Invitation not found', 404);
+    }
+
+    // Invitations are addressed to an email; only that account may answer them
+    if (member.email !== user.email.toLowerCase()) {
+      throw new MembershipError('This invitation was sent to a different email address', 403);
+    }
+
+    if (member.status !== 'pending') {
+      throw new MembershipError(`Invitation has already been ${member.status}`, 409);
+    }
+
+    const updated = await storage.updateEventMember(member.id, {
+      status: accept ? 'accepted' : 'declined',
+      userId: accept ? user.id : null,
+      respondedAt: new Date(),
+    });
+    return updated!;
+  }
+
+  async revoke(eventId: string, memberId: string): Promise<EventMember> {
+    const member = await storage.getEventMember(memberId);
+    if (!member || member.eventId !== eventId) {
+      throw new MembershipError('Member not found', 404);
+    }
+
+    if (member.status === 'revoked') {
+      return member;
+    }
+
+    const updated = await storage.updateEventMember(member.id, { status: 'revoked' });
+    return updated!;
+  }
+}
+
+// Invite tokens are credentials; never hand them back to anyone but the invitee
+export function toPublicMember(member: EventMember) {
+  const { inviteToken, ...publicMember } = member;
+  return publicMember;
+}
+
+export const memberService = new MemberService();
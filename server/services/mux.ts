@@ -1,32 +1,20 @@
 import Mux from '@mux/mux-node';
+import type { Clip, LiveStream, SimulcastTarget, StreamingProvider, StreamRecording } from './streaming';
 
-const { video } = new Mux({
-  tokenId: process.env.MUX_TOKEN_ID || process.env.MUX_TOKEN,
-  tokenSecret: process.env.MUX_TOKEN_SECRET || process.env.MUX_SECRET,
-});
-
-export interface MuxLiveStream {
-  id: string;
-  playback_ids: Array<{ id: string; policy: string }>;
-  stream_key: string;
-  rtmp: {
-    url: string;
-    stream_key: string;
-  };
-  status: string;
-}
+export class MuxService implements StreamingProvider {
+  readonly name = 'mux';
+  private mux: Mux;
 
-export interface MuxSimulcastTarget {
-  id: string;
-  url: string;
-  stream_key: string;
-  status: string;
-}
+  constructor() {
+    this.mux = new Mux({
+      tokenId: process.env.MUX_TOKEN_ID || process.env.MUX_TOKEN,
+      tokenSecret: process.env.MUX_TOKEN_SECRET || process.env.MUX_SECRET,
+    });
+  }
 
-export class MuxService {
-  async createLiveStream(): Promise<MuxLiveStream> {
+  async createLiveStream(): Promise<LiveStream> {
     try {
-      const liveStream = await video.liveStreams.create({
+      const liveStream = await this.mux.video.liveStreams.create({
         playback_policy: ['public'],
         new_asset_settings: {
           playback_policy: ['public']
@@ -37,76 +25,53 @@ export class MuxService {
 
       return {
         id: liveStream.id,
-        playback_ids: liveStream.playback_ids || [],
-        stream_key: liveStream.stream_key,
-        rtmp: {
-          url: 'rtmp://global-live.mux.com:5222/app',
-          stream_key: liveStream.stream_key
-        },
-        status: liveStream.status
+        playbackId: liveStream.playback_ids?.[0]?.id ?? null,
+        ingestUrl: 'rtmp://global-live.mux.com:5222/app',
+        streamKey: liveStream.stream_key,
+        status: liveStream.status,
       };
     } catch (error) {
-      console.error('Mux live stream creation failed, using development mode:', error);
-      // Return mock data for development when Mux isn't available
-      const timestamp = Date.now().toString(36);
-      return {
-        id: `dev-stream-${timestamp}`,
-        playback_ids: [{ id: `dev-playback-${timestamp}`, policy: 'public' }],
-        stream_key: `dev-key-${timestamp}`,
-        rtmp: {
-          url: 'rtmp://dev.example.com/live',
-          stream_key: `dev-key-${timestamp}`
-        },
-        status: 'idle'
-      };
+      console.error('Error creating Mux live stream:', error);
+      throw new Error('Failed to create live stream');
     }
   }
 
   async startLiveStream(streamId: string): Promise<void> {
-    try {
-      // Handle development mode mock stream IDs
-      if (streamId.startsWith('dev-stream-')) {
-        console.log(`Development mode: Mock live stream ${streamId} ready to receive input`);
-        return;
-      }
-      
-      // Mux live streams start automatically when receiving video input
-      console.log(`Live stream ${streamId} ready to receive input`);
-    } catch (error) {
-      console.error('Error starting Mux live stream:', error);
-      throw new Error('Failed to start live stream');
-    }
+    // Mux live streams start automatically when receiving video input
+    console.log(`Live stream ${streamId} ready to receive input`);
   }
 
   async stopLiveStream(streamId: string): Promise<void> {
     try {
-      // Handle development mode mock stream IDs
-      if (streamId.startsWith('dev-stream-')) {
-        console.log(`Development mode: Mock live stream ${streamId} stopped`);
-        return;
-      }
-      
-      await video.liveStreams.signalComplete(streamId);
+      await this.mux.video.liveStreams.complete(streamId);
     } catch (error) {
       console.error('Error stopping Mux live stream:', error);
       throw new Error('Failed to stop live stream');
     }
   }
 
-  async addSimulcastTarget(streamId: string, url: string, streamKey: string): Promise<MuxSimulcastTarget> {
+  async deleteLiveStream(streamId: string): Promise<void> {
     try {
-      // Handle development mode mock stream IDs
-      if (streamId.startsWith('dev-stream-')) {
-        const timestamp = Date.now().toString(36);
-        return {
-          id: `dev-target-${timestamp}`,
-          url,
-          stream_key: streamKey,
-          status: 'active'
-        };
-      }
-      
-      const target = await video.liveStreams.createSimulcastTarget(streamId, {
+      await this.mux.video.liveStreams.delete(streamId);
+    } catch (error) {
+      console.error('Error deleting Mux live stream:', error);
+      throw new Error('Failed to delete live stream');
+    }
+  }
+
+  async getLiveStreamStatus(streamId: string): Promise<string> {
+    try {
+      const liveStream = await this.mux.video.liveStreams.retrieve(streamId);
+      return liveStream.status;
+    } catch (error) {
+      console.error('Error getting live stream status:', error);
+      throw new Error('Failed to get live stream status');
+    }
+  }
+
+  async addSimulcastTarget(streamId: string, url: string, streamKey: string): Promise<SimulcastTarget> {
+    try {
+      const target = await this.mux.video.liveStreams.createSimulcastTarget(streamId, {
         url,
         stream_key: streamKey
       });
@@ -114,56 +79,118 @@ export class MuxService {
       return {
         id: target.id,
         url: target.url,
-        stream_key: target.stream_key || streamKey,
-        status: target.status
+        streamKey: target.stream_key || streamKey,
+        status: target.status,
       };
     } catch (error) {
       console.error('Error adding simulcast target:', error);
-      // Return mock data for development mode
-      if (streamId.startsWith('dev-stream-')) {
-        const timestamp = Date.now().toString(36);
-        return {
-          id: `dev-target-${timestamp}`,
-          url,
-          stream_key: streamKey,
-          status: 'active'
-        };
-      }
       throw new Error('Failed to add simulcast target');
     }
   }
 
   async removeSimulcastTarget(streamId: string, targetId: string): Promise<void> {
     try {
-      await video.liveStreams.deleteSimulcastTarget(streamId, targetId);
+      await this.mux.video.liveStreams.deleteSimulcastTarget(streamId, targetId);
     } catch (error) {
       console.error('Error removing simulcast target:', error);
       throw new Error('Failed to remove simulcast target');
     }
   }
 
-  async getLiveStreamStatus(streamId: string): Promise<string> {
+  // Clips come from the asset the live stream records into: the active one
+  // while it is live, its latest one after it ends. Mux prepares the clip in
+  // the background and announces it with a video.asset.ready webhook.
+  async createClip(streamId: string, startAt: Date, endAt: Date): Promise<Clip> {
     try {
-      // Handle development mode mock stream IDs
-      if (streamId.startsWith('dev-stream-')) {
-        return 'idle';
+      const liveStream = await this.mux.video.liveStreams.retrieve(streamId);
+      const recentAssetIds = liveStream.recent_asset_ids ?? [];
+      const assetId = liveStream.active_asset_id ?? recentAssetIds[recentAssetIds.length - 1];
+      if (!assetId) {
+        throw new Error(`Live stream ${streamId} has no recording`);
       }
-      
-      const liveStream = await video.liveStreams.retrieve(streamId);
-      return liveStream.status;
+
+      const recording = await this.mux.video.assets.retrieve(assetId);
+      const recordingStart = parseInt(recording.created_at, 10);
+      const clip = await this.mux.video.assets.create({
+        inputs: [{
+          url: `mux://assets/${assetId}`,
+          start_time: Math.max(0, startAt.getTime() / 1000 - recordingStart),
+          end_time: Math.max(0, endAt.getTime() / 1000 - recordingStart),
+        }],
+        playback_policies: ['public'],
+      });
+
+      const playbackId = clip.playback_ids?.[0]?.id;
+      if (!playbackId) {
+        throw new Error(`Clip ${clip.id} has no playback ID`);
+      }
+      return {
+        id: clip.id,
+        status: clip.status === 'ready' ? 'ready' : 'preparing',
+        playbackUrl: this.getPlaybackUrl(playbackId),
+      };
     } catch (error) {
-      console.error('Error getting live stream status:', error);
-      // Return idle status for development mode
-      if (streamId.startsWith('dev-stream-')) {
-        return 'idle';
+      console.error('Error creating Mux clip:', error);
+      throw new Error('Failed to create clip');
+    }
+  }
+
+  // Reads a clip's asset back, for when its webhook may have come too early
+  async getClipStatus(clipId: string): Promise<Clip['status'] | 'errored'> {
+    try {
+      const clip = await this.mux.video.assets.retrieve(clipId);
+      return clip.status;
+    } catch (error) {
+      console.error('Error retrieving Mux clip:', error);
+      throw new Error('Failed to get clip status');
+    }
+  }
+
+  // Every asset the live stream has recorded into, the current one included
+  async getRecordings(streamId: string): Promise<StreamRecording[]> {
+    try {
+      const liveStream = await this.mux.video.liveStreams.retrieve(streamId);
+      const assetIds = new Set(liveStream.recent_asset_ids ?? []);
+      if (liveStream.active_asset_id) {
+        assetIds.add(liveStream.active_asset_id);
       }
-      throw new Error('Failed to get live stream status');
+
+      // Deleted assets stay listed on the live stream but can't be retrieved
+      const results = await Promise.allSettled(Array.from(assetIds).map((assetId) => this.mux.video.assets.retrieve(assetId)));
+      return results
+        .filter((result): result is PromiseFulfilledResult<Mux.Video.Asset> => result.status === 'fulfilled')
+        .map((result) => this.toRecording(result.value));
+    } catch (error) {
+      console.error('Error listing Mux recordings:', error);
+      throw new Error('Failed to list recordings');
+    }
+  }
+
+  async deleteRecording(recordingId: string): Promise<void> {
+    try {
+      await this.mux.video.assets.delete(recordingId);
+    } catch (error) {
+      console.error('Error deleting Mux asset:', error);
+      throw new Error('Failed to delete recording');
     }
   }
 
+  private toRecording(asset: Mux.Video.Asset): StreamRecording {
+    const playbackId = asset.playback_ids?.[0]?.id;
+    return {
+      id: asset.id,
+      status: asset.status,
+      playbackUrl: playbackId ? this.getPlaybackUrl(playbackId) : null,
+      durationSeconds: asset.duration !== undefined ? Math.round(asset.duration) : null,
+      recordedAt: asset.created_at ? new Date(parseInt(asset.created_at, 10) * 1000) : null,
+    };
+  }
+
   getPlaybackUrl(playbackId: string): string {
     return `https://stream.mux.com/${playbackId}.m3u8`;
   }
-}
 
-export const muxService = new MuxService();
+  getThumbnailUrl(playbackId: string): string | null {
+    return `https://image.mux.com/${playbackId}/thumbnail.jpg`;
+  }
+}
@@ -0,0 +1,131 @@
+import { storage } from '../storage';
+import { instanceId } from '../instance';
+import { getWebSocketService } from './websocket';
+
+export interface PresenceConfig {
+  // Count changes are persisted and broadcast at most this often per event
+  broadcastIntervalMs: number;
+  // How often this instance refreshes its presence rows; rows not refreshed
+  // for three intervals belong to an instance that is gone
+  heartbeatIntervalMs: number;
+}
+
+// Crawlers, link unfurlers and scripted clients can open the socket too
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|preview|headless|curl|wget|python|go-http|java\/|okhttp/i;
+
+export function isBotUserAgent(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+// Counts who is watching each event from the viewers' WebSocket connections.
+// A viewer is keyed by account or browser, so several tabs count once. Each
+// instance stores its own count per event and the event's count is their sum,
+// so instances never overwrite each other. Counts are throttled before they
+// reach the database and the event room.
+export class PresenceService {
+  // Open connections per viewer key, per event
+  private viewers = new Map<string, Map<string, number>>();
+  private pending = new Map<string, NodeJS.Timeout>();
+  private flushed = new Map<string, { at: number; count: number }>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private config: PresenceConfig) {}
+
+  join(eventId: string, viewerKey: string) {
+    if (!this.viewers.has(eventId)) {
+      this.viewers.set(eventId, new Map());
+    }
+    const connections = this.viewers.get(eventId)!;
+    connections.set(viewerKey, (connections.get(viewerKey) ?? 0) + 1);
+    this.scheduleFlush(eventId);
+  }
+
+  leave(eventId: string, viewerKey: string) {
+    const connections = this.viewers.get(eventId);
+    const open = connections?.get(viewerKey);
+    if (!connections || !open) return;
+
+    if (open > 1) {
+      connections.set(viewerKey, open - 1);
+      return;
+    }
+    connections.delete(viewerKey);
+    if (connections.size === 0) {
+      this.viewers.delete(eventId);
+    }
+    this.scheduleFlush(eventId);
+  }
+
+  getCount(eventId: string): number {
+    return this.viewers.get(eventId)?.size ?? 0;
+  }
+
+  start() {
+    if (this.timer) return;
+    const beat = () => this.heartbeat().catch((error) => console.error('Viewer presence heartbeat failed:', error));
+    beat();
+    this.timer = setInterval(beat, this.config.heartbeatIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Keeps this instance's rows fresh and drops those of instances that
+  // stopped, so viewers they held no longer count
+  private async heartbeat() {
+    const touched = await storage.touchViewerPresence(instanceId);
+    // Rows pruned while this instance couldn't reach the database are written again
+    if (touched < this.viewers.size) {
+      this.viewers.forEach((_, eventId) => {
+        this.flushed.delete(eventId);
+        this.scheduleFlush(eventId);
+      });
+    }
+    const staleBefore = new Date(Date.now() - this.config.heartbeatIntervalMs * 3);
+    const recounted = await storage.pruneViewerPresence(staleBefore);
+    for (const event of recounted) {
+      const count = event.viewerCount ?? 0;
+      getWebSocketService().broadcastViewerCount(event.id, count, event.peakViewerCount ?? count);
+    }
+  }
+
+  private scheduleFlush(eventId: string) {
+    if (this.pending.has(eventId)) return;
+
+    const last = this.flushed.get(eventId);
+    const wait = last ? Math.max(0, last.at + this.config.broadcastIntervalMs - Date.now()) : 0;
+    const timer = setTimeout(() => {
+      this.pending.delete(eventId);
+      this.flush(eventId).catch((error) => console.error(`Failed to update viewer count for event ${eventId}:`, error));
+    }, wait);
+    timer.unref();
+    this.pending.set(eventId, timer);
+  }
+
+  private async flush(eventId: string) {
+    const count = this.getCount(eventId);
+    const last = this.flushed.get(eventId);
+    // A viewer who reloads leaves and rejoins within one interval
+    if (last?.count === count) return;
+
+    this.flushed.set(eventId, { at: Date.now(), count });
+    const event = await storage.setViewerPresence(eventId, instanceId, count);
+    if (!event) {
+      this.flushed.delete(eventId);
+      return;
+    }
+
+    const total = event.viewerCount ?? count;
+    getWebSocketService().broadcastViewerCount(eventId, total, event.peakViewerCount ?? total);
+  }
+}
+
+export const presenceService = new PresenceService({
+  broadcastIntervalMs: parseInt(process.env.VIEWER_COUNT_INTERVAL_MS || '2000', 10),
+  heartbeatIntervalMs: parseInt(process.env.VIEWER_PRESENCE_HEARTBEAT_MS || '15000', 10),
+});
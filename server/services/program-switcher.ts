@@ -0,0 +1,362 @@
+import { spawn, type ChildProcess } from 'child_process';
+
+// Where a program input pulls its pictures from. Test patterns let the whole
+// pipeline run locally without any camera or Mux stream; clips are recorded
+// video played once at its own pace, such as an instant replay.
+export type ProgramSource =
+  | { kind: 'url'; url: string }
+  | { kind: 'clip'; url: string }
+  | { kind: 'testPattern'; pattern: string };
+
+export interface ProgramSwitcherConfig {
+  ffmpegPath: string;
+  width: number;
+  height: number;
+  fps: number;
+  videoBitrate: string;
+}
+
+export interface ProgramStatus {
+  eventId: string;
+  activeCameraId: string | null;
+  inputs: Array<{ cameraId: string; receivingFrames: boolean; restarts: number }>;
+  framesWritten: number;
+  outputs: number;
+  // The encoder is respawned when it dies; frames are dropped meanwhile
+  outputState: 'running' | 'restarting';
+  outputRestarts: number;
+}
+
+export const TEST_PATTERNS = ['testsrc2', 'smptebars', 'rgbtestsrc', 'mandelbrot'];
+
+const RESTART_MIN_MS = 1000;
+const RESTART_MAX_MS = 30 * 1000;
+// An encoder that stayed up this long was healthy; its next restart is quick again
+const OUTPUT_HEALTHY_MS = 30 * 1000;
+
+// Delays between restarts of a crashed ffmpeg process: doubling up to a cap,
+// and back to the start once the process is working again
+class RestartBackoff {
+  private delayMs = RESTART_MIN_MS;
+
+  next(): number {
+    const delay = this.delayMs;
+    this.delayMs = Math.min(delay * 2, RESTART_MAX_MS);
+    return delay;
+  }
+
+  reset() {
+    this.delayMs = RESTART_MIN_MS;
+  }
+}
+
+function frameSize(config: ProgramSwitcherConfig): number {
+  // yuv420p: full resolution luma plane plus two quarter resolution chroma planes
+  return config.width * config.height * 3 / 2;
+}
+
+// Decodes one camera feed into raw frames at the program resolution and keeps
+// only the most recent complete frame around. A camera that isn't publishing
+// yet, or drops for a moment, makes ffmpeg exit; the input keeps respawning it
+// with backoff so the feed comes back on its own. Clips play once.
+class ProgramInput {
+  latestFrame: Buffer | null = null;
+  restarts = 0;
+  private process: ChildProcess | null = null;
+  private chunks: Buffer[] = [];
+  private bufferedBytes = 0;
+  private backoff = new RestartBackoff();
+  private restartTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(readonly cameraId: string, private source: ProgramSource, private config: ProgramSwitcherConfig) {
+    this.spawn();
+  }
+
+  private spawn() {
+    const { source, config, cameraId } = this;
+    const { width, height, fps } = config;
+    const inputArgs = source.kind === 'testPattern'
+      ? ['-re', '-f', 'lavfi', '-i', `${source.pattern}=size=${width}x${height}:rate=${fps}`]
+      : source.kind === 'clip'
+        ? ['-re', '-i', source.url]
+        : ['-i', source.url];
+
+    this.chunks = [];
+    this.bufferedBytes = 0;
+    const child = spawn(config.ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error',
+      ...inputArgs,
+      '-vf', `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,fps=${fps}`,
+      '-pix_fmt', 'yuv420p',
+      '-an',
+      '-f', 'rawvideo',
+      'pipe:1',
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+    this.process = child;
+
+    child.stdout!.on('data', (chunk: Buffer) => {
+      this.backoff.reset();
+      this.handleData(chunk);
+    });
+    child.stderr!.on('data', (data: Buffer) => {
+      console.error(`Program input ${cameraId}: ${data.toString().trim()}`);
+    });
+    child.on('error', (error) => {
+      console.error(`Program input ${cameraId} failed to start:`, error);
+      this.handleExit(child);
+    });
+    child.on('exit', (code) => {
+      if (code) console.log(`Program input ${cameraId} exited with code ${code}`);
+      this.handleExit(child);
+    });
+  }
+
+  // 'error' and 'exit' can both fire for one process; only the first counts
+  private handleExit(child: ChildProcess) {
+    if (this.process !== child) return;
+    this.process = null;
+    if (this.stopped || this.source.kind === 'clip') return;
+
+    const delay = this.backoff.next();
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.restarts++;
+      this.spawn();
+    }, delay);
+    this.restartTimer.unref();
+  }
+
+  private handleData(chunk: Buffer) {
+    const size = frameSize(this.config);
+    this.chunks.push(chunk);
+    this.bufferedBytes += chunk.length;
+
+    if (this.bufferedBytes < size) return;
+
+    let buffered = Buffer.concat(this.chunks, this.bufferedBytes);
+    while (buffered.length >= size) {
+      this.latestFrame = buffered.subarray(0, size);
+      buffered = buffered.subarray(size);
+    }
+    this.chunks = buffered.length ? [Buffer.from(buffered)] : [];
+    this.bufferedBytes = buffered.length;
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.process?.kill('SIGTERM');
+  }
+}
+
+// One continuous program output per event. A fixed-rate pump writes the active
+// input's latest frame into a single encoder, so a switch is a clean cut on the
+// next frame and the output never stalls while an input reconnects. If the
+// encoder dies (a destination dropping, say) it is respawned with backoff.
+class ProgramSession {
+  private inputs = new Map<string, ProgramInput>();
+  private activeCameraId: string | null = null;
+  private output: ChildProcess | null = null;
+  private outputStartedAt = 0;
+  private outputRestarts = 0;
+  private backoff = new RestartBackoff();
+  private restartTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  private timer: NodeJS.Timeout;
+  private lastFrame: Buffer;
+  private waitingForDrain = false;
+  private framesWritten = 0;
+
+  constructor(readonly eventId: string, private outputs: string[], private config: ProgramSwitcherConfig) {
+    const { width, height, fps } = config;
+
+    // Start on black until the first camera is cut in
+    const size = frameSize(config);
+    this.lastFrame = Buffer.alloc(size, 128);
+    this.lastFrame.fill(16, 0, width * height);
+
+    this.spawnOutput();
+    this.timer = setInterval(() => this.writeFrame(), 1000 / fps);
+  }
+
+  private spawnOutput() {
+    const { config, outputs, eventId } = this;
+    const { width, height, fps } = config;
+    const outputArgs = outputs.length > 1
+      ? ['-flags', '+global_header', '-f', 'tee', outputs.map((url) => `[f=flv:onfail=ignore]${url}`).join('|')]
+      : ['-f', 'flv', outputs[0]];
+
+    const output = spawn(config.ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error',
+      '-f', 'rawvideo', '-pix_fmt', 'yuv420p', '-s', `${width}x${height}`, '-r', String(fps), '-i', 'pipe:0',
+      '-f', 'lavfi', '-i', 'anullsrc=channel_layout=stereo:sample_rate=44100',
+      '-map', '0:v', '-map', '1:a',
+      '-c:v', 'libx264', '-preset', 'veryfast', '-tune', 'zerolatency',
+      '-b:v', config.videoBitrate, '-g', String(fps * 2), '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-b:a', '128k',
+      ...outputArgs,
+    ], { stdio: ['pipe', 'ignore', 'pipe'] });
+    this.output = output;
+    this.outputStartedAt = Date.now();
+    this.waitingForDrain = false;
+
+    output.stdin!.on('error', (error) => {
+      console.error(`Program output for event ${eventId} closed its input:`, error.message);
+    });
+    output.stderr!.on('data', (data: Buffer) => {
+      console.error(`Program output for event ${eventId}: ${data.toString().trim()}`);
+    });
+    output.on('error', (error) => {
+      console.error(`Program output for event ${eventId} failed to start:`, error);
+      this.handleOutputExit(output);
+    });
+    output.on('exit', (code, signal) => {
+      this.handleOutputExit(output, code ?? signal);
+    });
+  }
+
+  private handleOutputExit(output: ChildProcess, reason?: number | string | null) {
+    if (this.output !== output) return;
+    this.output = null;
+    if (this.stopped) return;
+
+    if (Date.now() - this.outputStartedAt >= OUTPUT_HEALTHY_MS) {
+      this.backoff.reset();
+    }
+    const delay = this.backoff.next();
+    console.error(`Program output for event ${this.eventId} exited (${reason ?? 'error'}), restarting in ${delay}ms`);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.outputRestarts++;
+      this.spawnOutput();
+    }, delay);
+    this.restartTimer.unref();
+  }
+
+  private writeFrame() {
+    const stdin = this.output?.stdin;
+    if (this.waitingForDrain || !stdin?.writable) return;
+
+    const active = this.activeCameraId ? this.inputs.get(this.activeCameraId) : undefined;
+    // Hold the previous picture until a freshly cut input delivers its first frame
+    const frame = active?.latestFrame ?? this.lastFrame;
+    this.lastFrame = frame;
+
+    this.framesWritten++;
+    if (!stdin.write(frame)) {
+      this.waitingForDrain = true;
+      stdin.once('drain', () => {
+        this.waitingForDrain = false;
+      });
+    }
+  }
+
+  hasInput(cameraId: string): boolean {
+    return this.inputs.has(cameraId);
+  }
+
+  addInput(cameraId: string, source: ProgramSource) {
+    this.removeInput(cameraId);
+    this.inputs.set(cameraId, new ProgramInput(cameraId, source, this.config));
+  }
+
+  removeInput(cameraId: string) {
+    this.inputs.get(cameraId)?.stop();
+    this.inputs.delete(cameraId);
+  }
+
+  cut(cameraId: string) {
+    if (!this.inputs.has(cameraId)) {
+      throw new Error(`Camera ${cameraId} is not an input of the program`);
+    }
+    this.activeCameraId = cameraId;
+  }
+
+  getStatus(): ProgramStatus {
+    return {
+      eventId: this.eventId,
+      activeCameraId: this.activeCameraId,
+      inputs: Array.from(this.inputs.values()).map((input) => ({
+        cameraId: input.cameraId,
+        receivingFrames: input.latestFrame !== null,
+        restarts: input.restarts,
+      })),
+      framesWritten: this.framesWritten,
+      outputs: this.outputs.length,
+      outputState: this.output ? 'running' : 'restarting',
+      outputRestarts: this.outputRestarts,
+    };
+  }
+
+  stop() {
+    this.stopped = true;
+    clearInterval(this.timer);
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.inputs.forEach((input) => input.stop());
+    this.inputs.clear();
+    this.output?.stdin!.end();
+  }
+}
+
+export class ProgramSwitcher {
+  private sessions = new Map<string, ProgramSession>();
+
+  constructor(private config: ProgramSwitcherConfig) {}
+
+  isRunning(eventId: string): boolean {
+    return this.sessions.has(eventId);
+  }
+
+  start(eventId: string, outputs: string[]) {
+    if (outputs.length === 0) {
+      throw new Error('Program output needs at least one destination');
+    }
+    this.stop(eventId);
+    this.sessions.set(eventId, new ProgramSession(eventId, outputs, this.config));
+  }
+
+  hasInput(eventId: string, cameraId: string): boolean {
+    return this.sessions.get(eventId)?.hasInput(cameraId) ?? false;
+  }
+
+  addInput(eventId: string, cameraId: string, source: ProgramSource) {
+    this.getSession(eventId).addInput(cameraId, source);
+  }
+
+  removeInput(eventId: string, cameraId: string) {
+    this.sessions.get(eventId)?.removeInput(cameraId);
+  }
+
+  cut(eventId: string, cameraId: string) {
+    this.getSession(eventId).cut(cameraId);
+  }
+
+  getStatus(eventId: string): ProgramStatus | null {
+    return this.sessions.get(eventId)?.getStatus() ?? null;
+  }
+
+  stop(eventId: string) {
+    const session = this.sessions.get(eventId);
+    if (session) {
+      session.stop();
+      this.sessions.delete(eventId);
+    }
+  }
+
+  private getSession(eventId: string): ProgramSession {
+    const session = this.sessions.get(eventId);
+    if (!session) {
+      throw new Error(`No program output running for event ${eventId}`);
+    }
+    return session;
+  }
+}
+
+export const programSwitcher = new ProgramSwitcher({
+  ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+  width: parseInt(process.env.PROGRAM_WIDTH || '1280', 10),
+  height: parseInt(process.env.PROGRAM_HEIGHT || '720', 10),
+  fps: parseInt(process.env.PROGRAM_FPS || '30', 10),
+  videoBitrate: process.env.PROGRAM_VIDEO_BITRATE || '3500k',
+});
@@ -0,0 +1,182 @@
+import type { Camera, Event, ReplayMark } from '@shared/schema';
+import { storage } from '../storage';
+import { streamingProvider } from './streaming';
+import { programSwitcher, TEST_PATTERNS, type ProgramSource } from './program-switcher';
+import { getWebSocketService } from './websocket';
+
+export type SwitchSource = 'manual' | 'fallback' | 'scheduled' | 'sequence';
+
+export interface OnAirReplay {
+  id: string;
+  label: string | null;
+}
+
+interface RunningReplay extends OnAirReplay {
+  inputId: string;
+  timer: NodeJS.Timeout;
+}
+
+// Ties the program switcher to events: decides where the program is pushed,
+// which feed each camera contributes, and records every cut.
+export class ProgramService {
+  private replays = new Map<string, RunningReplay>();
+
+  // Program destinations: the event's own ingest (which relays to the
+  // provider's simulcast targets) plus any target the provider is not relaying.
+  async getOutputs(event: Event): Promise<string[]> {
+    if (process.env.PROGRAM_OUTPUT_URL) {
+      return [process.env.PROGRAM_OUTPUT_URL];
+    }
+
+    const outputs: string[] = [];
+    if (event.ingestUrl && event.streamKey) {
+      outputs.push(`${event.ingestUrl}/${event.streamKey}`);
+    }
+
+    const targets = await storage.getSimulcastTargetsByEvent(event.id);
+    targets
+      .filter((target) => !target.muxTargetId)
+      .forEach((target) => outputs.push(`${target.targetUrl}/${target.streamKey}`));
+
+    return outputs;
+  }
+
+  getCameraSource(camera: Camera, index: number): ProgramSource | null {
+    // PROGRAM_INPUT=test feeds every camera slot with a synthetic pattern
+    if (process.env.PROGRAM_INPUT === 'test') {
+      return { kind: 'testPattern', pattern: TEST_PATTERNS[index % TEST_PATTERNS.length] };
+    }
+    if (!camera.playbackId) {
+      return null;
+    }
+    return { kind: 'url', url: streamingProvider.getPlaybackUrl(camera.playbackId) };
+  }
+
+  async startProgram(event: Event): Promise<void> {
+    const outputs = await this.getOutputs(event);
+    if (outputs.length === 0) {
+      console.warn(`Event ${event.id} has no program destination, program output not started`);
+      return;
+    }
+
+    programSwitcher.start(event.id, outputs);
+
+    const cameras = await storage.getCamerasByEvent(event.id);
+    cameras.forEach((camera, index) => this.addInput(camera, index));
+
+    if (event.activeCamera && programSwitcher.hasInput(event.id, event.activeCamera)) {
+      programSwitcher.cut(event.id, event.activeCamera);
+    }
+  }
+
+  stopProgram(eventId: string) {
+    this.clearReplay(eventId);
+    programSwitcher.stop(eventId);
+  }
+
+  // Cameras joining mid-broadcast become available to cut to straight away
+  async addCamera(camera: Camera): Promise<void> {
+    if (!programSwitcher.isRunning(camera.eventId)) return;
+
+    const cameras = await storage.getCamerasByEvent(camera.eventId);
+    this.addInput(camera, cameras.findIndex((c) => c.id === camera.id));
+  }
+
+  removeCamera(camera: Camera) {
+    if (programSwitcher.hasInput(camera.eventId, camera.id)) {
+      programSwitcher.removeInput(camera.eventId, camera.id);
+    }
+  }
+
+  // source records who made the cut: the director, the automatic fallback,
+  // or a switch the director scheduled or sequenced
+  async switchCamera(event: Event, camera: Camera, source: SwitchSource = 'manual'): Promise<void> {
+    await storage.updateEvent(event.id, { activeCamera: camera.id });
+
+    await storage.createSwitchLog({
+      eventId: event.id,
+      cameraId: camera.id,
+      source,
+    });
+
+    // The director cutting away ends a replay; automatic cuts only change
+    // the camera the program returns to once it is over
+    if (source === 'manual') {
+      this.clearReplay(event.id);
+    }
+
+    if (programSwitcher.isRunning(event.id)) {
+      if (!programSwitcher.hasInput(event.id, camera.id)) {
+        await this.addCamera(camera);
+      }
+      if (!programSwitcher.hasInput(event.id, camera.id)) {
+        console.warn(`Camera ${camera.id} has no feed to cut to, program output unchanged`);
+      } else if (!this.replays.has(event.id)) {
+        programSwitcher.cut(event.id, camera.id);
+      }
+    }
+
+    // Viewers keep watching the event's program stream, which now carries the cut
+    const wsService = getWebSocketService();
+    const programUrl = event.playbackId ? streamingProvider.getPlaybackUrl(event.playbackId) : '';
+    wsService.broadcastProgramSwitch(event.id, camera.id, programUrl);
+  }
+
+  getReplay(eventId: string): OnAirReplay | null {
+    const replay = this.replays.get(eventId);
+    return replay ? { id: replay.id, label: replay.label } : null;
+  }
+
+  // Cuts a replay clip into the program for as long as the marked window,
+  // then back to the event's active camera. Returns false when the event has
+  // no program output to roll it into.
+  rollReplay(event: Event, mark: ReplayMark): boolean {
+    if (!programSwitcher.isRunning(event.id) || !mark.playbackUrl) return false;
+
+    this.clearReplay(event.id);
+    const inputId = `replay:${mark.id}`;
+    programSwitcher.addInput(event.id, inputId, { kind: 'clip', url: mark.playbackUrl });
+    programSwitcher.cut(event.id, inputId);
+
+    const duration = mark.endAt.getTime() - mark.startAt.getTime();
+    const timer = setTimeout(() => {
+      this.endReplay(event.id).catch((error) => console.error(`Failed to end replay for event ${event.id}:`, error));
+    }, duration);
+    timer.unref();
+    this.replays.set(event.id, { id: mark.id, label: mark.label, inputId, timer });
+
+    getWebSocketService().broadcastProgramReplay(event.id, { id: mark.id, label: mark.label }, true);
+    return true;
+  }
+
+  // Returns the program to the active camera; false when no replay was on air
+  async endReplay(eventId: string): Promise<boolean> {
+    if (!this.replays.has(eventId)) return false;
+
+    const event = await storage.getEvent(eventId);
+    if (event?.activeCamera && programSwitcher.hasInput(eventId, event.activeCamera)) {
+      programSwitcher.cut(eventId, event.activeCamera);
+    }
+    this.clearReplay(eventId);
+    return true;
+  }
+
+  private clearReplay(eventId: string) {
+    const replay = this.replays.get(eventId);
+    if (!replay) return;
+
+    clearTimeout(replay.timer);
+    this.replays.delete(eventId);
+    programSwitcher.removeInput(eventId, replay.inputId);
+    getWebSocketService().broadcastProgramReplay(eventId, { id: replay.id, label: replay.label }, false);
+  }
+
+  private addInput(camera: Camera, index: number) {
+    const source = this.getCameraSource(camera, index);
+    if (source) {
+      programSwitcher.addInput(camera.eventId, camera.id, source);
+    }
+  }
+}
+
+export const programService = new ProgramService();
@@ -0,0 +1,91 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Camera, Event } from "@shared/schema";
+import { PUBLISH_PATH, PublishRelayService } from "./publish-relay";
+
+const storage = vi.hoisted(() => ({
+  getCamera: vi.fn(),
+  getEvent: vi.fn(),
+  getCamerasByEvent: vi.fn(),
+  getAcceptedMembership: vi.fn(),
+}));
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("./camera-health", () => ({ cameraHealthService: { setLive: vi.fn(async () => {}) } }));
+
+const event = { id: "event-1", organizerId: "organizer", isPublic: false } as Event;
+const camera = { id: "camera-1", eventId: event.id, quality: "720p", accessToken: "phone-token" } as Camera;
+
+let server: http.Server;
+let url: string;
+
+// Opens a publish socket, sends `first` once it is open and resolves with
+// whatever the relay sent and how it closed the connection
+async function publish(first?: string | Buffer) {
+  const socket = new WebSocket(url);
+  const received: Array<Record<string, unknown>> = [];
+  socket.on("message", (data) => received.push(JSON.parse(data.toString())));
+  socket.on("open", () => first !== undefined && socket.send(first));
+  const [code, reason] = await new Promise<[number, string]>((resolve) => {
+    socket.on("close", (closeCode, closeReason) => resolve([closeCode, closeReason.toString()]));
+  });
+  return { code, reason, received };
+}
+
+const auth = (token: string) => JSON.stringify({ type: "publish_auth", cameraId: camera.id, token });
+
+beforeAll(async () => {
+  server = http.createServer();
+  // `true` stands in for ffmpeg: it starts and exits straight away
+  new PublishRelayService({ ffmpegPath: "true", authTimeoutMs: 100 }).attach(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${PUBLISH_PATH}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storage.getCamera.mockImplementation(async (id: string) => (id === camera.id ? camera : undefined));
+  storage.getEvent.mockImplementation(async (id: string) => (id === event.id ? event : undefined));
+  storage.getCamerasByEvent.mockResolvedValue([camera]);
+  storage.getAcceptedMembership.mockResolvedValue(undefined);
+});
+
+describe("publish_auth handshake", () => {
+  it("starts relaying for the camera's token", async () => {
+    const { received } = await publish(auth("phone-token"));
+    expect(received[0]).toEqual({ type: "PUBLISH_READY", cameraId: camera.id });
+  });
+
+  it("refuses a wrong token", async () => {
+    const { code, reason, received } = await publish(auth("not-the-token"));
+    expect([code, reason]).toEqual([4401, "Unauthorized"]);
+    expect(received).toEqual([]);
+  });
+
+  it("refuses an unknown camera", async () => {
+    const { code } = await publish(JSON.stringify({ type: "publish_auth", cameraId: "camera-2", token: "phone-token" }));
+    expect(code).toBe(4401);
+  });
+
+  it("refuses media sent before authenticating", async () => {
+    const { code, reason } = await publish(Buffer.from(auth("phone-token")));
+    expect([code, reason]).toEqual([4401, "Unauthorized"]);
+    expect(storage.getCamera).not.toHaveBeenCalledWith(camera.id);
+  });
+
+  it("refuses a first message that isn't publish_auth JSON", async () => {
+    expect((await publish("{not json")).code).toBe(4401);
+    expect((await publish(JSON.stringify({ type: "hello", version: 1 }))).code).toBe(4401);
+  });
+
+  it("closes a socket that never authenticates", async () => {
+    const { code, reason } = await publish();
+    expect([code, reason]).toEqual([4401, "Authentication timed out"]);
+  });
+});
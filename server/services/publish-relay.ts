@@ -0,0 +1,233 @@
+import { spawn, type ChildProcess } from 'child_process';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { z } from 'zod';
+import { cameraQualityProfiles, type Camera, type CameraQuality } from '@shared/schema';
+import { storage } from '../storage';
+import { eventAccess } from './event-access';
+import { cameraHealthService } from './camera-health';
+
+export const PUBLISH_PATH = '/ws/publish';
+
+// Stop reading from a phone whose encoder has fallen this far behind
+const MAX_PENDING_BYTES = 8 * 1024 * 1024;
+// A phone has this long after connecting to say which camera it publishes
+const AUTH_TIMEOUT_MS = 10 * 1000;
+
+// The first message on a publish socket. The camera token travels inside the
+// connection rather than in the URL, which proxies and access logs record.
+const publishAuthSchema = z.object({
+  type: z.literal('publish_auth'),
+  cameraId: z.string(),
+  token: z.string(),
+});
+
+export interface PublishRelayConfig {
+  ffmpegPath: string;
+  authTimeoutMs?: number;
+}
+
+// One phone publishing into its camera's ingest. The browser sends
+// MediaRecorder chunks (WebM or fragmented MP4) over the socket; ffmpeg probes
+// the container, re-encodes to the camera's quality and pushes RTMP.
+class PublishSession {
+  private process: ChildProcess;
+  private started = false;
+  private closed = false;
+  // Reading from the phone pauses while ffmpeg's input is full and resumes here
+  private readonly resumeReading = () => this.ws.resume();
+
+  constructor(
+    private ws: WebSocket,
+    private camera: Camera,
+    config: PublishRelayConfig,
+    private onClose: () => void,
+  ) {
+    const profile = cameraQualityProfiles[camera.quality as CameraQuality] ?? cameraQualityProfiles['720p'];
+
+    this.process = spawn(config.ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error',
+      '-fflags', '+genpts',
+      '-i', 'pipe:0',
+      '-vf', `scale=-2:${profile.height}`,
+      '-c:v', 'libx264', '-preset', 'veryfast', '-tune', 'zerolatency',
+      '-b:v', profile.videoBitrate, '-maxrate', profile.videoBitrate, '-bufsize', profile.videoBitrate,
+      '-g', '60', '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-ar', '44100', '-b:a', '128k',
+      '-f', 'flv', `${camera.rtmpUrl}/${camera.streamKey}`,
+    ], { stdio: ['pipe', 'ignore', 'pipe'] });
+
+    this.process.stderr!.on('data', (data: Buffer) => {
+      console.error(`Publish relay ${camera.id}: ${data.toString().trim()}`);
+    });
+    this.process.stdin!.on('drain', this.resumeReading);
+    this.process.stdin!.on('error', (error) => {
+      console.error(`Publish relay ${camera.id} input closed:`, error.message);
+    });
+    this.process.on('error', (error) => {
+      console.error(`Publish relay ${camera.id} failed to start:`, error);
+      this.fail('Relay encoder unavailable');
+    });
+    this.process.on('exit', (code) => {
+      if (!this.closed) {
+        this.fail(code ? `Relay encoder exited with code ${code}` : 'Relay encoder stopped');
+      }
+    });
+
+    ws.on('message', (data, isBinary) => {
+      if (isBinary) this.write(data as Buffer);
+    });
+    ws.on('close', () => this.close());
+    ws.on('error', () => this.close());
+
+    this.send({ type: 'PUBLISH_READY', cameraId: camera.id });
+  }
+
+  private write(chunk: Buffer) {
+    if (this.closed || !this.process.stdin!.writable) return;
+
+    if (!this.started) {
+      this.started = true;
+      this.send({ type: 'PUBLISH_STARTED', cameraId: this.camera.id });
+      cameraHealthService.setLive(this.camera, true).catch((error) => {
+        console.error(`Failed to mark camera ${this.camera.id} live:`, error);
+      });
+    }
+
+    if (this.process.stdin!.writableLength > MAX_PENDING_BYTES) {
+      return this.fail('Upload is too slow for the selected quality');
+    }
+
+    // Stop reading from the phone until ffmpeg catches up
+    if (!this.process.stdin!.write(chunk) && !this.ws.isPaused) {
+      this.ws.pause();
+    }
+  }
+
+  private send(message: Record<string, unknown>) {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private fail(message: string) {
+    this.send({ type: 'PUBLISH_ERROR', cameraId: this.camera.id, message });
+    this.close();
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+
+    // A paused socket wouldn't read the phone's side of the close handshake
+    this.process.stdin!.off('drain', this.resumeReading);
+    this.ws.resume();
+    this.process.stdin!.end();
+    // ffmpeg flushes and exits once stdin closes; make sure it does
+    const killTimer = setTimeout(() => this.process.kill('SIGKILL'), 5000);
+    this.process.once('exit', () => clearTimeout(killTimer));
+
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.close(1000, 'Publishing stopped');
+    }
+
+    if (this.started) {
+      storage.getCamera(this.camera.id)
+        .then((camera) => camera && cameraHealthService.setLive(camera, false))
+        .catch((error) => console.error(`Failed to mark camera ${this.camera.id} offline:`, error));
+    }
+    this.onClose();
+  }
+}
+
+// Browser publishing endpoint: phones open PUBLISH_PATH, send a publish_auth
+// message with their camera ID and token, wait for PUBLISH_READY and then
+// stream their MediaRecorder output, which is relayed into the camera's ingest
+export class PublishRelayService {
+  private wss = new WebSocketServer({ noServer: true });
+  private sessions: Map<string, PublishSession> = new Map();
+
+  constructor(private config: PublishRelayConfig) {}
+
+  attach(server: Server) {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname !== PUBLISH_PATH) return;
+
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.awaitAuth(ws));
+    });
+  }
+
+  isPublishing(cameraId: string): boolean {
+    return this.sessions.has(cameraId);
+  }
+
+  // Ends a phone's publish session, e.g. when the director kicks the camera
+  stopPublishing(cameraId: string) {
+    this.sessions.get(cameraId)?.close();
+  }
+
+  // Nothing is relayed until the first message proves which camera this is
+  private awaitAuth(ws: WebSocket) {
+    const timer = setTimeout(() => ws.close(4401, 'Authentication timed out'), this.config.authTimeoutMs ?? AUTH_TIMEOUT_MS);
+    ws.once('close', () => clearTimeout(timer));
+
+    ws.once('message', (data: RawData, isBinary: boolean) => {
+      clearTimeout(timer);
+      this.authenticate(data, isBinary)
+        .then((camera) => {
+          if (ws.readyState !== WebSocket.OPEN) return;
+          if (!camera) {
+            ws.close(4401, 'Unauthorized');
+            return;
+          }
+          this.startSession(ws, camera);
+        })
+        .catch((error) => {
+          console.error('Publish relay authentication failed:', error);
+          ws.close(1011, 'Authentication error');
+        });
+    });
+  }
+
+  private async authenticate(data: RawData, isBinary: boolean): Promise<Camera | undefined> {
+    if (isBinary) return undefined;
+
+    let parsed;
+    try {
+      parsed = publishAuthSchema.safeParse(JSON.parse(data.toString()));
+    } catch {
+      return undefined;
+    }
+    if (!parsed.success) return undefined;
+    return await this.authorize(parsed.data.cameraId, parsed.data.token);
+  }
+
+  private async authorize(cameraId: string, token: string): Promise<Camera | undefined> {
+    const camera = await storage.getCamera(cameraId);
+    if (!camera) return undefined;
+    const event = await storage.getEvent(camera.eventId);
+    if (!event) return undefined;
+
+    const context = { cameraToken: token };
+    const role = await eventAccess.resolveRole(event, context);
+    return eventAccess.canOperateCamera(role, camera, context) ? camera : undefined;
+  }
+
+  private startSession(ws: WebSocket, camera: Camera) {
+    // A phone that reconnects takes over from its previous session
+    this.sessions.get(camera.id)?.close();
+
+    const session = new PublishSession(ws, camera, this.config, () => {
+      if (this.sessions.get(camera.id) === session) {
+        this.sessions.delete(camera.id);
+      }
+    });
+    this.sessions.set(camera.id, session);
+  }
+}
+
+export const publishRelay = new PublishRelayService({
+  ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+});
@@ -0,0 +1,115 @@
+import { storage } from '../storage';
+import type { Camera, Event, Recording } from '@shared/schema';
+import { streamingProvider } from './streaming';
+import { getWebSocketService } from './websocket';
+
+export class RecordingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Recordings still preparing are re-checked with the provider at most this often
+const RESYNC_INTERVAL_MS = 30 * 1000;
+
+// Keeps the event's replay library in step with what the streaming provider
+// recorded: the program stream and each camera's own stream. Webhooks and the
+// end of the broadcast trigger a sync; organizers can hide or delete entries.
+export class RecordingService {
+  private lastSynced = new Map<string, number>();
+
+  async getRecordings(event: Event, includeHidden: boolean): Promise<Recording[]> {
+    let recordings = await storage.getRecordingsByEvent(event.id, includeHidden);
+
+    // Covers providers without webhooks, and webhooks that never arrived
+    const lastSynced = this.lastSynced.get(event.id) ?? 0;
+    if (recordings.some((recording) => recording.status === 'preparing') && Date.now() - lastSynced > RESYNC_INTERVAL_MS) {
+      try {
+        await this.syncEvent(event);
+        recordings = await storage.getRecordingsByEvent(event.id, includeHidden);
+      } catch (error) {
+        console.error(`Failed to sync recordings for event ${event.id}:`, error);
+      }
+    }
+    return recordings;
+  }
+
+  async syncEvent(event: Event) {
+    this.lastSynced.set(event.id, Date.now());
+    if (event.muxStreamId) {
+      await this.syncStream(event, null, event.muxStreamId);
+    }
+
+    const cameras = await storage.getCamerasByEvent(event.id);
+    for (const camera of cameras) {
+      if (camera.muxStreamId) {
+        await this.syncStream(event, camera, camera.muxStreamId);
+      }
+    }
+  }
+
+  // A provider reported a change to one live stream's recordings; returns
+  // false when the stream belongs to no event
+  async syncStreamById(streamId: string): Promise<boolean> {
+    const camera = await storage.getCameraByStreamId(streamId);
+    const event = camera ? await storage.getEvent(camera.eventId) : await storage.getEventByStreamId(streamId);
+    if (!event) return false;
+
+    await this.syncStream(event, camera ?? null, streamId);
+    return true;
+  }
+
+  // RECORDING_READY carries the playback URL to everyone in the event room, so
+  // it only goes out for recordings viewers may see: a hidden recording is
+  // announced once it is shown again
+  async setHidden(eventId: string, recordingId: string, hidden: boolean): Promise<Recording> {
+    const recording = await this.getRecording(eventId, recordingId);
+    const updated = await storage.updateRecording(recordingId, { hidden });
+    if (!updated) {
+      throw new RecordingError('Recording not found', 404);
+    }
+    if (recording.hidden && !updated.hidden && updated.status === 'ready') {
+      getWebSocketService().broadcastRecordingReady(updated);
+    }
+    return updated;
+  }
+
+  // Removes the recording from the provider as well, so it can't be played back
+  async deleteRecording(eventId: string, recordingId: string) {
+    const recording = await this.getRecording(eventId, recordingId);
+    await streamingProvider.deleteRecording(recording.assetId);
+    await storage.deleteRecording(recording.id);
+  }
+
+  private async syncStream(event: Event, camera: Camera | null, streamId: string) {
+    const found = await streamingProvider.getRecordings(streamId);
+    if (found.length === 0) return;
+
+    const known = new Map((await storage.getRecordingsByEvent(event.id, true)).map((recording) => [recording.assetId, recording]));
+    for (const stream of found) {
+      const recording = await storage.upsertRecording({
+        eventId: event.id,
+        cameraId: camera?.id ?? null,
+        cameraLabel: camera?.label ?? null,
+        assetId: stream.id,
+        status: stream.status,
+        playbackUrl: stream.playbackUrl,
+        durationSeconds: stream.durationSeconds,
+        recordedAt: stream.recordedAt,
+      });
+      if (recording.status === 'ready' && !recording.hidden && known.get(stream.id)?.status !== 'ready') {
+        getWebSocketService().broadcastRecordingReady(recording);
+      }
+    }
+  }
+
+  private async getRecording(eventId: string, recordingId: string): Promise<Recording> {
+    const recording = await storage.getRecording(recordingId);
+    if (!recording || recording.eventId !== eventId) {
+      throw new RecordingError('Recording not found', 404);
+    }
+    return recording;
+  }
+}
+
+export const recordingService = new RecordingService();
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Camera, Event, ReplayMark } from "@shared/schema";
+import { ReplayService } from "./replays";
+
+const storage = vi.hoisted(() => ({
+  getCamera: vi.fn(),
+  createReplayMark: vi.fn(),
+  getReplayMark: vi.fn(),
+  getReplayMarkByClipId: vi.fn(),
+  transitionReplayMark: vi.fn(),
+  updateReplayMark: vi.fn(),
+}));
+const streamingProvider = vi.hoisted(() => ({ createClip: vi.fn(), getClipStatus: vi.fn() }));
+const broadcastReplayMark = vi.hoisted(() => vi.fn());
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("./streaming", () => ({ streamingProvider }));
+vi.mock("./program", () => ({ programService: {} }));
+vi.mock("./websocket", () => ({ getWebSocketService: () => ({ broadcastReplayMark }) }));
+
+const event = { id: "event-1", activeCamera: "camera-1" } as Event;
+const camera = { id: "camera-1", eventId: event.id, label: "Goal line", muxStreamId: "stream-1" } as Camera;
+
+// A replay_marks table of one row, with the same compare-and-set as storage
+let row: ReplayMark | undefined;
+
+describe("ReplayService.markReplay", () => {
+  const service = new ReplayService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    row = undefined;
+    storage.getCamera.mockResolvedValue(camera);
+    storage.createReplayMark.mockImplementation(async (mark: Partial<ReplayMark>) => {
+      row = { ...mark, id: "replay-1", status: "preparing", clipId: null, playbackUrl: null, failureReason: null } as ReplayMark;
+      return row;
+    });
+    storage.getReplayMark.mockImplementation(async () => row);
+    storage.getReplayMarkByClipId.mockImplementation(async (clipId: string) => (row?.clipId === clipId ? row : undefined));
+    storage.updateReplayMark.mockImplementation(async (_id: string, updates: Partial<ReplayMark>) => (row = { ...row!, ...updates }));
+    storage.transitionReplayMark.mockImplementation(async (_id: string, from: string, updates: Partial<ReplayMark>) =>
+      (row?.status === from ? (row = { ...row, ...updates }) : undefined));
+    streamingProvider.createClip.mockResolvedValue({ id: "clip-1", status: "preparing", playbackUrl: "https://clips/1.m3u8" });
+  });
+
+  it("settles a clip whose ready webhook came in before its ID was saved", async () => {
+    // The webhook lands while createClip is still returning
+    streamingProvider.createClip.mockImplementation(async () => {
+      expect(await service.handleClipResult("clip-1", true)).toBe(false);
+      return { id: "clip-1", status: "preparing", playbackUrl: "https://clips/1.m3u8" };
+    });
+    streamingProvider.getClipStatus.mockResolvedValue("ready");
+
+    const mark = await service.markReplay(event, { seconds: 10 }, "director");
+
+    expect(mark).toMatchObject({ status: "ready", clipId: "clip-1" });
+    expect(row?.status).toBe("ready");
+    expect(broadcastReplayMark).toHaveBeenLastCalledWith(expect.objectContaining({ status: "ready" }));
+  });
+
+  it("fails a mark whose clip errored before its ID was saved", async () => {
+    streamingProvider.getClipStatus.mockResolvedValue("errored");
+
+    const mark = await service.markReplay(event, { seconds: 10 }, "director");
+    expect(mark).toMatchObject({ status: "failed", failureReason: "The clip could not be prepared" });
+  });
+
+  it("leaves a clip that is still preparing to its webhook", async () => {
+    streamingProvider.getClipStatus.mockResolvedValue("preparing");
+
+    expect(await service.markReplay(event, { seconds: 10 }, "director")).toMatchObject({ status: "preparing", clipId: "clip-1" });
+
+    expect(await service.handleClipResult("clip-1", true)).toBe(true);
+    expect(row?.status).toBe("ready");
+  });
+
+  it("keeps the mark preparing when the clip can't be looked up", async () => {
+    streamingProvider.getClipStatus.mockRejectedValue(new Error("Failed to get clip status"));
+
+    expect(await service.markReplay(event, { seconds: 10 }, "director")).toMatchObject({ status: "preparing", clipId: "clip-1" });
+  });
+});
@@ -0,0 +1,139 @@
+import { storage } from '../storage';
+import type { Camera, Event, MarkReplayData, ReplayMark } from '@shared/schema';
+import { programService } from './program';
+import { streamingProvider, type Clip } from './streaming';
+import { getWebSocketService } from './websocket';
+
+export class ReplayError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Instant replay: the director marks the last few seconds of the camera on
+// air, the streaming provider clips them from that camera's recording, and a
+// ready clip can be rolled into the program. Marks stay with the event, so
+// they can be looked back through after the game.
+export class ReplayService {
+  async markReplay(event: Event, data: MarkReplayData, userId: string): Promise<ReplayMark> {
+    const camera = event.activeCamera ? await storage.getCamera(event.activeCamera) : undefined;
+    if (!camera || camera.eventId !== event.id) {
+      throw new ReplayError('No camera is on air to replay', 409);
+    }
+
+    const endAt = new Date();
+    const mark = await storage.createReplayMark({
+      eventId: event.id,
+      cameraId: camera.id,
+      cameraLabel: camera.label,
+      label: data.label || null,
+      startAt: new Date(endAt.getTime() - data.seconds * 1000),
+      endAt,
+      createdBy: userId,
+    });
+
+    const clipped = await this.buildClip(mark, camera);
+    getWebSocketService().broadcastReplayMark(clipped);
+    return clipped;
+  }
+
+  async getReplays(eventId: string): Promise<ReplayMark[]> {
+    return storage.getReplayMarksByEvent(eventId);
+  }
+
+  async rollReplay(event: Event, replayId: string): Promise<ReplayMark> {
+    const mark = await this.getMark(event.id, replayId);
+    if (mark.status !== 'ready') {
+      throw new ReplayError(mark.status === 'failed' ? 'This replay has no clip' : 'The clip is still being prepared', 409);
+    }
+    if (!programService.rollReplay(event, mark)) {
+      throw new ReplayError('The program output is not running', 409);
+    }
+
+    const rolled = await storage.updateReplayMark(mark.id, { lastRolledAt: new Date() });
+    return rolled ?? mark;
+  }
+
+  async stopReplay(event: Event) {
+    if (!(await programService.endReplay(event.id))) {
+      throw new ReplayError('No replay is on air', 409);
+    }
+  }
+
+  // Providers that clip in the background report back through their webhooks;
+  // returns false when the clip belongs to no replay
+  async handleClipResult(clipId: string, ready: boolean): Promise<boolean> {
+    const mark = await storage.getReplayMarkByClipId(clipId);
+    if (!mark) return false;
+
+    const updated = await storage.transitionReplayMark(
+      mark.id,
+      'preparing',
+      ready ? { status: 'ready' } : { status: 'failed', failureReason: 'The clip could not be prepared' },
+    );
+    if (updated) {
+      getWebSocketService().broadcastReplayMark(updated);
+    }
+    return true;
+  }
+
+  // A mark is kept even when its clip can't be built, so the moment is
+  // still on record
+  private async buildClip(mark: ReplayMark, camera: Camera): Promise<ReplayMark> {
+    if (!camera.muxStreamId) {
+      return this.fail(mark, 'This camera has no recording');
+    }
+
+    let clip: Clip;
+    try {
+      clip = await streamingProvider.createClip(camera.muxStreamId, mark.startAt, mark.endAt);
+    } catch (error) {
+      console.error(`Replay ${mark.id} could not be clipped:`, error);
+      return this.fail(mark, 'The clip could not be built');
+    }
+
+    if (clip.status === 'ready') {
+      const ready = await storage.transitionReplayMark(mark.id, 'preparing', { status: 'ready', clipId: clip.id, playbackUrl: clip.playbackUrl });
+      return ready ?? mark;
+    }
+    const saved = await storage.updateReplayMark(mark.id, { clipId: clip.id, playbackUrl: clip.playbackUrl }) ?? mark;
+    return this.recheckClip(saved, clip.id);
+  }
+
+  // The provider's webhook can report the clip before its ID was saved, find
+  // no mark and be dropped, so the clip is looked up once more now that it is
+  // on record. A clip still preparing is left to the webhook.
+  private async recheckClip(mark: ReplayMark, clipId: string): Promise<ReplayMark> {
+    let status: Clip['status'] | 'errored';
+    try {
+      status = await streamingProvider.getClipStatus(clipId);
+    } catch (error) {
+      console.error(`Replay ${mark.id} clip status could not be checked:`, error);
+      return mark;
+    }
+    if (status === 'preparing') return mark;
+
+    const settled = await storage.transitionReplayMark(
+      mark.id,
+      'preparing',
+      status === 'ready' ? { status: 'ready' } : { status: 'failed', failureReason: 'The clip could not be prepared' },
+    );
+    // Otherwise a webhook settled it in the meantime
+    return settled ?? (await storage.getReplayMark(mark.id)) ?? mark;
+  }
+
+  private async fail(mark: ReplayMark, failureReason: string): Promise<ReplayMark> {
+    const failed = await storage.transitionReplayMark(mark.id, 'preparing', { status: 'failed', failureReason });
+    return failed ?? mark;
+  }
+
+  private async getMark(eventId: string, replayId: string): Promise<ReplayMark> {
+    const mark = await storage.getReplayMark(replayId);
+    if (!mark || mark.eventId !== eventId) {
+      throw new ReplayError('Replay not found', 404);
+    }
+    return mark;
+  }
+}
+
+export const replayService = new ReplayService();
@@ -0,0 +1,225 @@
+import { storage } from '../storage';
+import {
+  getScoreboardPreset,
+  type AddScoreData, type Event, type Scoreboard, type ScoreboardClockData, type ScoreboardPreset, type ScoreChange,
+  type UpdateScoreboardData,
+} from '@shared/schema';
+import type { ScoreboardPayload } from '@shared/ws-protocol';
+import { getWebSocketService } from './websocket';
+
+export class ScoreboardError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+type ClockState = { ms: number; startedAt: Date | null };
+
+// Where a clock reads at `now`. Countdowns stop at zero.
+function clockMsAt({ ms, startedAt }: ClockState, countdown: boolean, now: Date): number {
+  if (!startedAt) return ms;
+  const elapsed = now.getTime() - startedAt.getTime();
+  return countdown ? Math.max(0, ms - elapsed) : ms + elapsed;
+}
+
+function gameClock(scoreboard: Scoreboard): ClockState {
+  return { ms: scoreboard.clockMs, startedAt: scoreboard.clockStartedAt };
+}
+
+function shotClock(scoreboard: Scoreboard): ClockState | null {
+  if (scoreboard.shotClockMs === null) return null;
+  return { ms: scoreboard.shotClockMs, startedAt: scoreboard.shotClockStartedAt };
+}
+
+// A fresh scoreboard for the sport, with its clocks at their starting values
+function defaultScoreboard(event: Event, preset: ScoreboardPreset): Scoreboard {
+  return {
+    eventId: event.id,
+    homeName: 'Home',
+    awayName: 'Away',
+    homeColor: '#2563eb',
+    awayColor: '#dc2626',
+    homeScore: 0,
+    awayScore: 0,
+    period: 1,
+    visible: false,
+    clockMs: preset.clock === 'down' ? preset.periodSeconds * 1000 : 0,
+    clockStartedAt: null,
+    shotClockMs: preset.shotClockSeconds === null ? null : preset.shotClockSeconds * 1000,
+    shotClockStartedAt: null,
+    updatedAt: null,
+  };
+}
+
+export function toScoreboardPayload(scoreboard: Scoreboard, preset: ScoreboardPreset, now = new Date()): ScoreboardPayload {
+  const countdown = preset.clock === 'down';
+  const shot = shotClock(scoreboard);
+  return {
+    eventId: scoreboard.eventId,
+    homeName: scoreboard.homeName,
+    awayName: scoreboard.awayName,
+    homeColor: scoreboard.homeColor,
+    awayColor: scoreboard.awayColor,
+    homeScore: scoreboard.homeScore,
+    awayScore: scoreboard.awayScore,
+    period: scoreboard.period,
+    visible: scoreboard.visible,
+    clock: {
+      seconds: clockMsAt(gameClock(scoreboard), countdown, now) / 1000,
+      running: !!scoreboard.clockStartedAt,
+    },
+    shotClock: shot && {
+      seconds: clockMsAt(shot, true, now) / 1000,
+      running: !!shot.startedAt,
+    },
+  };
+}
+
+// The event's scoreboard: team names and colours, score, period, the game
+// clock and, for sports that have one, a shot clock. Every change is
+// broadcast to the event room, and score changes are kept as history.
+export class ScoreboardService {
+  async getScoreboard(event: Event): Promise<ScoreboardPayload> {
+    const preset = getScoreboardPreset(event.sportType);
+    const scoreboard = (await storage.getScoreboard(event.id)) ?? defaultScoreboard(event, preset);
+    return toScoreboardPayload(scoreboard, preset);
+  }
+
+  async getHistory(eventId: string): Promise<ScoreChange[]> {
+    return await storage.getScoreChangesByEvent(eventId);
+  }
+
+  async update(event: Event, data: UpdateScoreboardData): Promise<ScoreboardPayload> {
+    await this.ensureScoreboard(event);
+    const scoreboard = await storage.updateScoreboard(event.id, data);
+    if (!scoreboard) {
+      throw new ScoreboardError('Scoreboard not found', 404);
+    }
+    return this.publish(event, scoreboard);
+  }
+
+  async addScore(event: Event, { team, points }: AddScoreData, userId: string): Promise<ScoreboardPayload> {
+    const current = await this.ensureScoreboard(event);
+    const score = team === 'home' ? current.homeScore : current.awayScore;
+    if (score + points < 0) {
+      throw new ScoreboardError("Score can't go below zero", 400);
+    }
+
+    const scoreboard = await storage.addScore(event.id, team, points);
+    if (!scoreboard) {
+      throw new ScoreboardError('Scoreboard not found', 404);
+    }
+
+    const preset = getScoreboardPreset(event.sportType);
+    await storage.createScoreChange({
+      eventId: event.id,
+      team,
+      points,
+      homeScore: scoreboard.homeScore,
+      awayScore: scoreboard.awayScore,
+      period: scoreboard.period,
+      clockMs: preset.clock === 'none' ? null : Math.round(clockMsAt(gameClock(scoreboard), preset.clock === 'down', new Date())),
+      createdBy: userId,
+    });
+    return this.publish(event, scoreboard);
+  }
+
+  // Starting or stopping the game clock takes the shot clock with it, as a
+  // whistle stops both; the shot clock can also be run on its own.
+  async updateClock(event: Event, { clock, action, seconds }: ScoreboardClockData): Promise<ScoreboardPayload> {
+    const preset = getScoreboardPreset(event.sportType);
+    if (clock === 'game' && preset.clock === 'none') {
+      throw new ScoreboardError(`${event.sportType} has no game clock`, 400);
+    }
+    if (clock === 'shot' && preset.shotClockSeconds === null) {
+      throw new ScoreboardError(`${event.sportType} has no shot clock`, 400);
+    }
+
+    const current = await this.ensureScoreboard(event);
+    const now = new Date();
+    const game = gameClock(current);
+    // Scoreboards created before the sport had a shot clock start one at its full length
+    const shot = shotClock(current)
+      ?? (preset.shotClockSeconds === null ? null : { ms: preset.shotClockSeconds * 1000, startedAt: null });
+    const updates: Partial<Scoreboard> = {};
+
+    const stopped = (state: ClockState, countdown: boolean): ClockState => ({
+      ms: Math.round(clockMsAt(state, countdown, now)),
+      startedAt: null,
+    });
+    const started = (state: ClockState, countdown: boolean): ClockState =>
+      state.startedAt ? state : { ms: Math.round(clockMsAt(state, countdown, now)), startedAt: now };
+    const setGame = (state: ClockState) => {
+      updates.clockMs = state.ms;
+      updates.clockStartedAt = state.startedAt;
+    };
+    const setShot = (state: ClockState) => {
+      updates.shotClockMs = state.ms;
+      updates.shotClockStartedAt = state.startedAt;
+    };
+
+    const countdown = preset.clock === 'down';
+    const resetMs = clock === 'game'
+      ? (countdown ? preset.periodSeconds * 1000 : 0)
+      : (preset.shotClockSeconds ?? 0) * 1000;
+    // Set and reset keep a running clock running from its new value
+    const restarted = (state: ClockState, ms: number): ClockState => ({ ms, startedAt: state.startedAt ? now : null });
+
+    if (clock === 'game') {
+      switch (action) {
+        case 'start':
+          setGame(started(game, countdown));
+          if (shot) setShot(started(shot, true));
+          break;
+        case 'stop':
+          setGame(stopped(game, countdown));
+          if (shot) setShot(stopped(shot, true));
+          break;
+        case 'set':
+          setGame(restarted(game, Math.round(seconds! * 1000)));
+          break;
+        case 'reset':
+          setGame(restarted(game, resetMs));
+          break;
+      }
+    } else {
+      switch (action) {
+        case 'start':
+          setShot(started(shot!, true));
+          break;
+        case 'stop':
+          setShot(stopped(shot!, true));
+          break;
+        case 'set':
+          setShot(restarted(shot!, Math.round(seconds! * 1000)));
+          break;
+        case 'reset':
+          setShot(restarted(shot!, resetMs));
+          break;
+      }
+    }
+
+    const scoreboard = await storage.updateScoreboard(event.id, updates);
+    if (!scoreboard) {
+      throw new ScoreboardError('Scoreboard not found', 404);
+    }
+    return this.publish(event, scoreboard);
+  }
+
+  // The scoreboard is stored the first time it's changed
+  private async ensureScoreboard(event: Event): Promise<Scoreboard> {
+    const existing = await storage.getScoreboard(event.id);
+    if (existing) return existing;
+
+    const { updatedAt, ...defaults } = defaultScoreboard(event, getScoreboardPreset(event.sportType));
+    return await storage.createScoreboard(event.id, defaults);
+  }
+
+  private publish(event: Event, scoreboard: Scoreboard): ScoreboardPayload {
+    const payload = toScoreboardPayload(scoreboard, getScoreboardPreset(event.sportType));
+    getWebSocketService().broadcastScoreboard(payload);
+    return payload;
+  }
+}
+
+export const scoreboardService = new ScoreboardService();
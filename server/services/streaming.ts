@@ -0,0 +1,75 @@
+import { MuxService } from './mux';
+import { LocalStreamingProvider } from './local-streaming';
+
+export interface LiveStream {
+  id: string;
+  playbackId: string | null;
+  ingestUrl: string;
+  streamKey: string;
+  status: string;
+}
+
+export interface SimulcastTarget {
+  id: string;
+  url: string;
+  streamKey: string;
+  status: string;
+}
+
+// A section cut out of a live stream's recording. Some providers build clips
+// in the background and report them ready later; others serve them at once.
+export interface Clip {
+  id: string;
+  status: 'preparing' | 'ready';
+  playbackUrl: string;
+}
+
+// What a live stream was recorded into. Mux makes an asset each time the
+// stream goes live; the local provider one per start and stop.
+export interface StreamRecording {
+  id: string;
+  status: 'preparing' | 'ready' | 'errored';
+  playbackUrl: string | null;
+  durationSeconds: number | null;
+  recordedAt: Date | null;
+}
+
+// Everything the app needs from a live video backend. Mux is the production
+// implementation; the local provider lets the whole event flow run offline.
+export interface StreamingProvider {
+  readonly name: string;
+
+  createLiveStream(): Promise<LiveStream>;
+  startLiveStream(streamId: string): Promise<void>;
+  stopLiveStream(streamId: string): Promise<void>;
+  deleteLiveStream(streamId: string): Promise<void>;
+  getLiveStreamStatus(streamId: string): Promise<string>;
+
+  addSimulcastTarget(streamId: string, url: string, streamKey: string): Promise<SimulcastTarget>;
+  removeSimulcastTarget(streamId: string, targetId: string): Promise<void>;
+
+  createClip(streamId: string, startAt: Date, endAt: Date): Promise<Clip>;
+  getClipStatus(clipId: string): Promise<Clip['status'] | 'errored'>;
+  getRecordings(streamId: string): Promise<StreamRecording[]>;
+  deleteRecording(recordingId: string): Promise<void>;
+
+  getPlaybackUrl(playbackId: string): string;
+  getThumbnailUrl(playbackId: string): string | null;
+}
+
+// STREAMING_PROVIDER picks the backend explicitly; otherwise Mux is used
+// whenever credentials are configured and the local provider when they are not.
+export function createStreamingProvider(name = process.env.STREAMING_PROVIDER): StreamingProvider {
+  const hasMuxCredentials = !!(process.env.MUX_TOKEN_ID || process.env.MUX_TOKEN);
+
+  switch (name ?? (hasMuxCredentials ? 'mux' : 'local')) {
+    case 'mux':
+      return new MuxService();
+    case 'local':
+      return new LocalStreamingProvider();
+    default:
+      throw new Error(`Unknown streaming provider: ${name}`);
+  }
+}
+
+export const streamingProvider = createStreamingProvider();
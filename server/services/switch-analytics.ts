@@ -0,0 +1,148 @@
+import { storage } from '../storage';
+import type { Camera, Event, SwitchLog } from '@shared/schema';
+
+export interface ReportShot {
+  cameraId: string;
+  cameraLabel: string;
+  source: string;
+  // Seconds from the start of the broadcast
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface ReportCamera {
+  cameraId: string;
+  label: string;
+  operatorName: string | null;
+  onAirSeconds: number;
+  shots: number;
+  averageShotSeconds: number;
+  // Fraction of the broadcast this camera was on air
+  share: number;
+}
+
+export interface SwitchReport {
+  eventId: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  durationSeconds: number;
+  cuts: number;
+  averageShotSeconds: number;
+  cutsBySource: Record<string, number>;
+  cameras: ReportCamera[];
+  shots: ReportShot[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Turns an event's switch logs into a camera usage report: a shot runs from
+// one cut to the next, clipped to the broadcast, so cuts made before going
+// live only count from the moment the event started.
+export class SwitchAnalyticsService {
+  // Oldest first
+  async getSwitchLogs(eventId: string): Promise<SwitchLog[]> {
+    const logs = await storage.getSwitchLogsByEvent(eventId);
+    return logs.filter((log) => log.switchedAt).reverse();
+  }
+
+  async getReport(event: Event): Promise<SwitchReport> {
+    const [logs, cameras] = await Promise.all([
+      this.getSwitchLogs(event.id),
+      storage.getCamerasByEvent(event.id, true),
+    ]);
+    const camerasById = new Map(cameras.map((camera) => [camera.id, camera]));
+
+    const end = (event.endedAt ?? new Date()).getTime();
+    const start = event.startedAt?.getTime() ?? logs[0]?.switchedAt!.getTime() ?? end;
+    const toSeconds = (time: number) => (time - start) / 1000;
+
+    const shots: ReportShot[] = [];
+    logs.forEach((log, index) => {
+      const shotStart = Math.max(log.switchedAt!.getTime(), start);
+      const shotEnd = Math.min(logs[index + 1]?.switchedAt!.getTime() ?? end, end);
+      if (shotEnd <= shotStart) return;
+
+      shots.push({
+        cameraId: log.cameraId,
+        cameraLabel: camerasById.get(log.cameraId)?.label ?? 'Camera',
+        source: log.source,
+        startSeconds: round(toSeconds(shotStart)),
+        endSeconds: round(toSeconds(shotEnd)),
+      });
+    });
+
+    const durationSeconds = Math.max(0, toSeconds(end));
+    // Cameras kicked during the event still count for the time they were on air
+    const reportCameras = (await Promise.all(cameras.map((camera) => this.cameraUsage(camera, shots, durationSeconds))))
+      .filter((usage) => usage.shots > 0 || !camerasById.get(usage.cameraId)?.removedAt);
+    const onAirSeconds = shots.reduce((total, shot) => total + shot.endSeconds - shot.startSeconds, 0);
+
+    const cutsBySource: Record<string, number> = {};
+    logs.forEach((log) => {
+      cutsBySource[log.source] = (cutsBySource[log.source] ?? 0) + 1;
+    });
+
+    return {
+      eventId: event.id,
+      startedAt: event.startedAt?.toISOString() ?? null,
+      endedAt: event.endedAt?.toISOString() ?? null,
+      durationSeconds: round(durationSeconds),
+      cuts: logs.length,
+      averageShotSeconds: shots.length ? round(onAirSeconds / shots.length) : 0,
+      cutsBySource,
+      cameras: reportCameras.sort((a, b) => b.onAirSeconds - a.onAirSeconds),
+      shots,
+    };
+  }
+
+  // One row per shot, for spreadsheets
+  toCsv(report: SwitchReport): string {
+    const operators = new Map(report.cameras.map((camera) => [camera.cameraId, camera.operatorName ?? '']));
+    const escape = (value: string | number) => {
+      const text = String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = report.shots.map((shot, index) => [
+      index + 1,
+      shot.cameraLabel,
+      operators.get(shot.cameraId) ?? '',
+      shot.source,
+      shot.startSeconds,
+      shot.endSeconds,
+      round(shot.endSeconds - shot.startSeconds),
+    ]);
+    return [
+      ['shot', 'camera', 'operator', 'source', 'start_seconds', 'end_seconds', 'duration_seconds'],
+      ...rows,
+    ].map((row) => row.map(escape).join(',')).join('\n') + '\n';
+  }
+
+  private async cameraUsage(camera: Camera, shots: ReportShot[], durationSeconds: number): Promise<ReportCamera> {
+    const own = shots.filter((shot) => shot.cameraId === camera.id);
+    const onAirSeconds = own.reduce((total, shot) => total + shot.endSeconds - shot.startSeconds, 0);
+
+    return {
+      cameraId: camera.id,
+      label: camera.label,
+      operatorName: await this.operatorName(camera),
+      onAirSeconds: round(onAirSeconds),
+      shots: own.length,
+      averageShotSeconds: own.length ? round(onAirSeconds / own.length) : 0,
+      share: durationSeconds ? Math.round((onAirSeconds / durationSeconds) * 1000) / 1000 : 0,
+    };
+  }
+
+  private async operatorName(camera: Camera): Promise<string | null> {
+    if (camera.operatorId) {
+      const user = await storage.getUser(camera.operatorId);
+      const name = user && (user.displayName || [user.firstName, user.lastName].filter(Boolean).join(' '));
+      if (name) return name;
+    }
+    return camera.operatorName;
+  }
+}
+
+export const switchAnalyticsService = new SwitchAnalyticsService();
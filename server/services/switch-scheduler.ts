@@ -0,0 +1,296 @@
+import { storage } from '../storage';
+import type {
+  Camera, CreateSwitchSequenceData, Event, ScheduleSwitchData, ScheduledSwitch, SwitchSequence,
+} from '@shared/schema';
+import { programService } from './program';
+import { getWebSocketService } from './websocket';
+
+export class SwitchSchedulerError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Switches can be queued at most this far ahead
+const MAX_SCHEDULE_AHEAD_MS = 24 * 60 * 60 * 1000;
+
+// Cuts the server makes on the director's behalf: single switches queued for a
+// set time, and sequences that rotate through cameras on an interval. Both are
+// persisted, so they survive a restart, and claimed with compare-and-set
+// updates, so each cut is made once however many instances run timers.
+export class SwitchSchedulerService {
+  private switchTimers = new Map<string, NodeJS.Timeout>();
+  private sequenceTimers = new Map<string, NodeJS.Timeout>();
+
+  // Re-arms whatever was pending when the process last stopped
+  async start() {
+    const pending = await storage.getPendingScheduledSwitches();
+    pending.forEach((scheduled) => this.armSwitch(scheduled));
+
+    const sequences = await storage.getActiveSwitchSequences();
+    sequences
+      .filter((sequence) => sequence.status === 'running')
+      .forEach((sequence) => this.armSequence(sequence));
+  }
+
+  async scheduleSwitch(event: Event, data: ScheduleSwitchData, userId: string): Promise<ScheduledSwitch> {
+    await this.getCamera(event.id, data.cameraId);
+
+    const executeAt = data.executeAt ?? new Date(Date.now() + data.delaySeconds! * 1000);
+    const ahead = executeAt.getTime() - Date.now();
+    if (ahead < 0) {
+      throw new SwitchSchedulerError('That time has already passed', 400);
+    }
+    if (ahead > MAX_SCHEDULE_AHEAD_MS) {
+      throw new SwitchSchedulerError('Switches can be scheduled at most 24 hours ahead', 400);
+    }
+
+    const scheduled = await storage.createScheduledSwitch({
+      eventId: event.id,
+      cameraId: data.cameraId,
+      executeAt,
+      createdBy: userId,
+    });
+    this.armSwitch(scheduled);
+    getWebSocketService().broadcastScheduledSwitch(scheduled);
+    return scheduled;
+  }
+
+  async cancelSwitch(eventId: string, switchId: string): Promise<ScheduledSwitch> {
+    const scheduled = await storage.getScheduledSwitch(switchId);
+    if (!scheduled || scheduled.eventId !== eventId) {
+      throw new SwitchSchedulerError('Scheduled switch not found', 404);
+    }
+
+    const cancelled = await storage.transitionScheduledSwitch(switchId, 'pending', { status: 'cancelled' });
+    if (!cancelled) {
+      throw new SwitchSchedulerError('This switch has already run or been cancelled', 409);
+    }
+    this.clearTimer(this.switchTimers, switchId);
+    getWebSocketService().broadcastScheduledSwitch(cancelled);
+    return cancelled;
+  }
+
+  // Starting a sequence replaces the event's current one and cuts to its
+  // first camera straight away
+  async startSequence(event: Event, data: CreateSwitchSequenceData, userId: string): Promise<SwitchSequence> {
+    const cameras = await Promise.all(data.cameraIds.map((cameraId) => this.getCamera(event.id, cameraId)));
+    const offline = cameras.find((camera) => !camera.isLive);
+    if (offline) {
+      throw new SwitchSchedulerError(`${offline.label} is offline`, 409);
+    }
+
+    await this.cancelActiveSequences(event.id);
+
+    const sequence = await storage.createSwitchSequence({
+      eventId: event.id,
+      cameraIds: data.cameraIds,
+      intervalSeconds: data.intervalSeconds,
+      createdBy: userId,
+    });
+    await programService.switchCamera(event, cameras[0], 'sequence');
+    this.armSequence(sequence);
+    getWebSocketService().broadcastSwitchSequence(sequence);
+    return sequence;
+  }
+
+  // Picks up from the camera that was on air when the sequence paused
+  async resumeSequence(event: Event, sequenceId: string): Promise<SwitchSequence> {
+    const sequence = await this.getSequence(event.id, sequenceId);
+    if (sequence.status !== 'paused') {
+      throw new SwitchSchedulerError('Only a paused sequence can be resumed', 409);
+    }
+
+    const cameras = await Promise.all(sequence.cameraIds.map((cameraId) => storage.getCamera(cameraId)));
+    if (cameras.some((camera) => !camera || camera.eventId !== event.id)) {
+      throw new SwitchSchedulerError('A camera in this sequence has left the event', 409);
+    }
+    const offline = cameras.find((camera) => !camera!.isLive);
+    if (offline) {
+      throw new SwitchSchedulerError(`${offline.label} is still offline`, 409);
+    }
+
+    const resumed = await storage.transitionSwitchSequence(sequenceId, { status: 'paused' }, { status: 'running', pausedReason: null });
+    if (!resumed) {
+      throw new SwitchSchedulerError('This sequence was changed by someone else; reload and try again', 409);
+    }
+    this.armSequence(resumed);
+    getWebSocketService().broadcastSwitchSequence(resumed);
+    return resumed;
+  }
+
+  async cancelSequence(eventId: string, sequenceId: string): Promise<SwitchSequence> {
+    const sequence = await this.getSequence(eventId, sequenceId);
+    if (sequence.status === 'cancelled') {
+      throw new SwitchSchedulerError('This sequence has already been cancelled', 409);
+    }
+    const cancelled = await this.cancel(sequence);
+    if (!cancelled) {
+      throw new SwitchSchedulerError('This sequence was changed by someone else; reload and try again', 409);
+    }
+    return cancelled;
+  }
+
+  async getSchedule(eventId: string): Promise<{ switches: ScheduledSwitch[]; sequences: SwitchSequence[] }> {
+    const [switches, sequences] = await Promise.all([
+      storage.getPendingScheduledSwitches(eventId),
+      storage.getActiveSwitchSequences(eventId),
+    ]);
+    return { switches, sequences };
+  }
+
+  // Cutting to a dead feed on air is worse than holding the current shot
+  async handleCameraOffline(camera: Camera) {
+    const sequences = await storage.getActiveSwitchSequences(camera.eventId);
+    for (const sequence of sequences) {
+      if (sequence.status === 'running' && sequence.cameraIds.includes(camera.id)) {
+        await this.pause(sequence, `${camera.label} went offline`);
+      }
+    }
+  }
+
+  // Nothing queued should cut a program that has ended
+  async stopEvent(eventId: string) {
+    const pending = await storage.getPendingScheduledSwitches(eventId);
+    for (const scheduled of pending) {
+      const cancelled = await storage.transitionScheduledSwitch(scheduled.id, 'pending', { status: 'cancelled' });
+      this.clearTimer(this.switchTimers, scheduled.id);
+      if (cancelled) {
+        getWebSocketService().broadcastScheduledSwitch(cancelled);
+      }
+    }
+    await this.cancelActiveSequences(eventId);
+  }
+
+  private armSwitch(scheduled: ScheduledSwitch) {
+    this.clearTimer(this.switchTimers, scheduled.id);
+    const delay = Math.max(0, scheduled.executeAt.getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.switchTimers.delete(scheduled.id);
+      this.runSwitch(scheduled.id).catch((error) => console.error(`Scheduled switch ${scheduled.id} failed:`, error));
+    }, delay);
+    timer.unref();
+    this.switchTimers.set(scheduled.id, timer);
+  }
+
+  private async runSwitch(switchId: string) {
+    // Claiming first means a cancel that lands now, or another instance, wins cleanly
+    const claimed = await storage.transitionScheduledSwitch(switchId, 'pending', { status: 'executed', executedAt: new Date() });
+    if (!claimed) return;
+
+    const event = await storage.getEvent(claimed.eventId);
+    const camera = await storage.getCamera(claimed.cameraId);
+    let failureReason: string | null = null;
+    if (!event || !camera || camera.eventId !== claimed.eventId) {
+      failureReason = 'The camera has left the event';
+    } else if (!camera.isLive) {
+      failureReason = `${camera.label} was offline`;
+    } else {
+      try {
+        await programService.switchCamera(event, camera, 'scheduled');
+      } catch (error) {
+        console.error(`Scheduled switch ${switchId} could not cut:`, error);
+        failureReason = 'The switch could not be made';
+      }
+    }
+
+    const result = failureReason
+      ? await storage.transitionScheduledSwitch(switchId, 'executed', { status: 'failed', failureReason })
+      : claimed;
+    if (result) {
+      getWebSocketService().broadcastScheduledSwitch(result);
+    }
+  }
+
+  private armSequence(sequence: SwitchSequence) {
+    this.clearTimer(this.sequenceTimers, sequence.id);
+    const timer = setTimeout(() => {
+      this.sequenceTimers.delete(sequence.id);
+      this.advance(sequence.id).catch((error) => console.error(`Switch sequence ${sequence.id} failed to advance:`, error));
+    }, sequence.intervalSeconds * 1000);
+    timer.unref();
+    this.sequenceTimers.set(sequence.id, timer);
+  }
+
+  private async advance(sequenceId: string) {
+    const sequence = await storage.getSwitchSequence(sequenceId);
+    if (!sequence || sequence.status !== 'running') return;
+
+    const next = (sequence.position + 1) % sequence.cameraIds.length;
+    const camera = await storage.getCamera(sequence.cameraIds[next]);
+    if (!camera || camera.eventId !== sequence.eventId) {
+      return this.pause(sequence, 'A camera in the sequence has left the event');
+    }
+    if (!camera.isLive) {
+      return this.pause(sequence, `${camera.label} is offline`);
+    }
+
+    const claimed = await storage.transitionSwitchSequence(sequenceId, { status: 'running', position: sequence.position }, { position: next });
+    if (!claimed) {
+      // Another instance took this step; follow along from where it left the sequence
+      const latest = await storage.getSwitchSequence(sequenceId);
+      if (latest?.status === 'running') this.armSequence(latest);
+      return;
+    }
+
+    const event = await storage.getEvent(sequence.eventId);
+    if (!event) return;
+    try {
+      await programService.switchCamera(event, camera, 'sequence');
+    } catch (error) {
+      console.error(`Switch sequence ${sequenceId} could not cut:`, error);
+      return this.pause(claimed, 'The switch could not be made');
+    }
+    this.armSequence(claimed);
+  }
+
+  private async pause(sequence: SwitchSequence, reason: string) {
+    this.clearTimer(this.sequenceTimers, sequence.id);
+    const paused = await storage.transitionSwitchSequence(sequence.id, { status: 'running' }, { status: 'paused', pausedReason: reason });
+    if (paused) {
+      getWebSocketService().broadcastSwitchSequence(paused);
+    }
+  }
+
+  private async cancel(sequence: SwitchSequence): Promise<SwitchSequence | undefined> {
+    this.clearTimer(this.sequenceTimers, sequence.id);
+    const cancelled = await storage.transitionSwitchSequence(sequence.id, { status: sequence.status }, { status: 'cancelled' });
+    if (cancelled) {
+      getWebSocketService().broadcastSwitchSequence(cancelled);
+    }
+    return cancelled;
+  }
+
+  private async cancelActiveSequences(eventId: string) {
+    const sequences = await storage.getActiveSwitchSequences(eventId);
+    for (const sequence of sequences) {
+      await this.cancel(sequence);
+    }
+  }
+
+  private clearTimer(timers: Map<string, NodeJS.Timeout>, id: string) {
+    const timer = timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(id);
+    }
+  }
+
+  private async getCamera(eventId: string, cameraId: string): Promise<Camera> {
+    const camera = await storage.getCamera(cameraId);
+    if (!camera || camera.eventId !== eventId) {
+      throw new SwitchSchedulerError('Camera not found', 404);
+    }
+    return camera;
+  }
+
+  private async getSequence(eventId: string, sequenceId: string): Promise<SwitchSequence> {
+    const sequence = await storage.getSwitchSequence(sequenceId);
+    if (!sequence || sequence.eventId !== eventId) {
+      throw new SwitchSchedulerError('Switch sequence not found', 404);
+    }
+    return sequence;
+  }
+}
+
+export const switchSchedulerService = new SwitchSchedulerService();
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Event } from "@shared/schema";
+import { MuxWebhookService, WebhookSignatureError, type MuxWebhookEvent } from "./webhooks";
+
+const storage = vi.hoisted(() => ({
+  recordWebhookEvent: vi.fn(),
+  deleteWebhookEvent: vi.fn(),
+  getCameraByStreamId: vi.fn(),
+  getEventByStreamId: vi.fn(),
+  updateEvent: vi.fn(),
+}));
+const broadcastEventStatus = vi.hoisted(() => vi.fn());
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("./websocket", () => ({ getWebSocketService: () => ({ broadcastEventStatus }) }));
+vi.mock("./camera-health", () => ({ cameraHealthService: {} }));
+vi.mock("./replays", () => ({ replayService: {} }));
+vi.mock("./recordings", () => ({ recordingService: {} }));
+
+const secret = "whsec_test";
+const body = JSON.stringify({ id: "delivery-1", type: "video.live_stream.active" });
+const now = Date.parse("2026-01-01T12:00:00Z");
+
+function sign(timestamp: number, payload = body, key = secret) {
+  const digest = crypto.createHmac("sha256", key).update(`${timestamp}.${payload}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+describe("MuxWebhookService.verifySignature", () => {
+  const service = new MuxWebhookService(secret);
+  const timestamp = now / 1000;
+
+  it("accepts a delivery signed with the secret", () => {
+    expect(() => service.verifySignature(body, sign(timestamp), now)).not.toThrow();
+    expect(() => service.verifySignature(Buffer.from(body), sign(timestamp), now)).not.toThrow();
+  });
+
+  it("rejects a missing header", () => {
+    expect(() => service.verifySignature(body, undefined, now)).toThrow("Missing Mux-Signature header");
+  });
+
+  it("rejects a header without a v1 signature", () => {
+    expect(() => service.verifySignature(body, `t=${timestamp}`, now)).toThrow("Malformed Mux-Signature header");
+    expect(() => service.verifySignature(body, `t=${timestamp},v1=`, now)).toThrow("Malformed Mux-Signature header");
+  });
+
+  it("rejects a v1 signature that doesn't match", () => {
+    const invalid = [
+      sign(timestamp, body, "another-secret"),
+      sign(timestamp, body.replace("active", "idle")),
+      `t=${timestamp},v1=not-hex`,
+      `t=${timestamp},v1=abcd`,
+    ];
+    for (const header of invalid) {
+      expect(() => service.verifySignature(body, header, now)).toThrow(WebhookSignatureError);
+      expect(() => service.verifySignature(body, header, now)).toThrow("Invalid webhook signature");
+    }
+  });
+
+  it("rejects timestamps more than 300 seconds away", () => {
+    expect(() => service.verifySignature(body, sign(timestamp - 300), now)).not.toThrow();
+    expect(() => service.verifySignature(body, sign(timestamp - 301), now)).toThrow("Webhook timestamp outside tolerance");
+    expect(() => service.verifySignature(body, sign(timestamp + 301), now)).toThrow("Webhook timestamp outside tolerance");
+  });
+
+  it("rejects everything when no secret is configured", () => {
+    expect(() => new MuxWebhookService("").verifySignature(body, sign(timestamp), now)).toThrow("Webhook secret not configured");
+  });
+});
+
+describe("MuxWebhookService.handleEvent", () => {
+  const service = new MuxWebhookService(secret);
+  const delivery: MuxWebhookEvent = { id: "delivery-1", type: "video.live_stream.active", data: { id: "stream-1" } };
+  const event = { id: "event-1", status: "idle" } as Event;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // The webhook_events table: an ID can only be recorded once
+    const recorded = new Set<string>();
+    storage.recordWebhookEvent.mockImplementation(async (id: string) => !recorded.has(id) && !!recorded.add(id));
+    storage.deleteWebhookEvent.mockImplementation(async (id: string) => recorded.delete(id));
+    storage.getCameraByStreamId.mockResolvedValue(undefined);
+    storage.getEventByStreamId.mockResolvedValue(event);
+  });
+
+  it("applies a delivery once and reports its replay as a duplicate", async () => {
+    expect(await service.handleEvent(delivery)).toBe(true);
+    expect(await service.handleEvent(delivery)).toBe(false);
+
+    expect(storage.updateEvent).toHaveBeenCalledTimes(1);
+    expect(storage.updateEvent).toHaveBeenCalledWith("event-1", { status: "live" });
+    expect(broadcastEventStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it("forgets a delivery that failed so Mux's retry is applied", async () => {
+    storage.updateEvent.mockRejectedValueOnce(new Error("connection lost"));
+
+    await expect(service.handleEvent(delivery)).rejects.toThrow("connection lost");
+    expect(await service.handleEvent(delivery)).toBe(true);
+    expect(storage.updateEvent).toHaveBeenCalledTimes(2);
+  });
+});
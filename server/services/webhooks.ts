@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { getWebSocketService } from './websocket';
+import { cameraHealthService } from './camera-health';
+import { replayService } from './replays';
+import { recordingService } from './recordings';
+
+export interface MuxWebhookEvent {
+  id: string;
+  type: string;
+  created_at?: string;
+  object?: { type: string; id: string };
+  data: Record<string, any>;
+}
+
+export class WebhookSignatureError extends Error {}
+
+// Reject deliveries whose signature timestamp is older than this, so a
+// captured request cannot be replayed later with a valid signature
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export class MuxWebhookService {
+  constructor(private secret = process.env.MUX_WEBHOOK_SECRET) {}
+
+  isConfigured(): boolean {
+    return !!this.secret;
+  }
+
+  // Mux signs `${timestamp}.${rawBody}` with HMAC-SHA256 and sends it as
+  // `Mux-Signature: t=<timestamp>,v1=<hex digest>`
+  verifySignature(rawBody: Buffer | string, header: string | undefined, now = Date.now()) {
+    if (!this.secret) {
+      throw new WebhookSignatureError('Webhook secret not configured');
+    }
+    if (!header) {
+      throw new WebhookSignatureError('Missing Mux-Signature header');
+    }
+
+    const parts = Object.fromEntries(
+      header.split(',').map((part) => {
+        const [key, ...value] = part.split('=');
+        return [key.trim(), value.join('=').trim()];
+      }),
+    );
+    const timestamp = parseInt(parts.t, 10);
+    if (!parts.v1 || Number.isNaN(timestamp)) {
+      throw new WebhookSignatureError('Malformed Mux-Signature header');
+    }
+
+    if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new WebhookSignatureError('Webhook timestamp outside tolerance');
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.secret)
+      .update(`${timestamp}.${rawBody.toString()}`)
+      .digest();
+    const received = Buffer.from(parts.v1, 'hex');
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new WebhookSignatureError('Invalid webhook signature');
+    }
+  }
+
+  // Applies a delivery once. Returns false for replays of an already processed
+  // event; a failed delivery is forgotten again so Mux's retry gets processed.
+  async handleEvent(event: MuxWebhookEvent): Promise<boolean> {
+    const isNew = await storage.recordWebhookEvent(event.id, 'mux', event.type);
+    if (!isNew) {
+      return false;
+    }
+
+    try {
+      await this.applyEvent(event);
+      return true;
+    } catch (error) {
+      await storage.deleteWebhookEvent(event.id);
+      throw error;
+    }
+  }
+
+  private async applyEvent(event: MuxWebhookEvent) {
+    if (event.type.startsWith('video.live_stream.simulcast_target.')) {
+      return this.applySimulcastTargetStatus(event);
+    }
+
+    switch (event.type) {
+      case 'video.live_stream.active':
+      case 'video.live_stream.recording':
+        return this.applyLiveStreamStatus(event.data.id, 'live');
+      case 'video.live_stream.disconnected':
+        return this.applyLiveStreamStatus(event.data.id, 'disconnected');
+      case 'video.live_stream.idle':
+        return this.applyLiveStreamStatus(event.data.id, 'idle');
+      case 'video.asset.created':
+      case 'video.asset.live_stream_completed':
+        return this.applyRecording(event);
+      case 'video.asset.ready':
+        return this.applyAssetReady(event);
+      case 'video.asset.errored':
+        if (await replayService.handleClipResult(event.data.id, false)) return;
+        return this.applyRecording(event);
+      default:
+        console.log(`Ignoring Mux webhook ${event.type}`);
+    }
+  }
+
+  private async applyLiveStreamStatus(streamId: string, status: 'live' | 'disconnected' | 'idle') {
+    const wsService = getWebSocketService();
+
+    const camera = await storage.getCameraByStreamId(streamId);
+    if (camera) {
+      await cameraHealthService.setLive(camera, status === 'live');
+      return;
+    }
+
+    const event = await storage.getEventByStreamId(streamId);
+    if (!event) {
+      console.log(`Mux webhook for unknown live stream ${streamId}`);
+      return;
+    }
+
+    // An ended event stays ended; Mux goes idle after the stream is completed
+    if (event.status === 'ended' || event.status === status) {
+      return;
+    }
+    // A stream that was never started only goes idle -> live, not to disconnected
+    if (status === 'disconnected' && event.status !== 'live') {
+      return;
+    }
+
+    await storage.updateEvent(event.id, { status });
+    wsService.broadcastEventStatus(event.id, status);
+  }
+
+  private async applySimulcastTargetStatus(event: MuxWebhookEvent) {
+    const target = await storage.getSimulcastTargetByProviderId(event.data.id);
+    if (!target) {
+      console.log(`Mux webhook for unknown simulcast target ${event.data.id}`);
+      return;
+    }
+
+    if (event.type === 'video.live_stream.simulcast_target.deleted') {
+      await storage.deleteSimulcastTarget(target.id);
+      getWebSocketService().broadcastSimulcastUpdate(target.eventId, target.id, 'deleted');
+      return;
+    }
+
+    const status = event.data.status ?? event.type.split('.').pop();
+    await storage.updateSimulcastTarget(target.id, { status });
+    getWebSocketService().broadcastSimulcastUpdate(target.eventId, target.id, status);
+  }
+
+  private async applyAssetReady(event: MuxWebhookEvent) {
+    // Replay clips are assets of their own, cut from a recording
+    if (await replayService.handleClipResult(event.data.id, true)) return;
+    return this.applyRecording(event);
+  }
+
+  // Assets a live stream records into; the stream's recordings are read back
+  // from Mux, so deliveries arriving out of order can't regress them
+  private async applyRecording(event: MuxWebhookEvent) {
+    const streamId = event.data.live_stream_id;
+    if (!streamId) return;
+
+    if (!(await recordingService.syncStreamById(streamId))) {
+      console.log(`Mux asset ${event.data.id} for unknown live stream ${streamId}`);
+    }
+  }
+}
+
+export const muxWebhookService = new MuxWebhookService();
@@ -0,0 +1,165 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import type { RequestHandler } from "express";
+import { WebSocket } from "ws";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Event, EventMember, HighlightReel, ReplayMark, ScheduledSwitch } from "@shared/schema";
+import type { ServerMessage } from "@shared/ws-protocol";
+import { WebSocketService } from "./websocket";
+import { InProcessBackplane } from "./backplane";
+
+// Every storage method resolves to undefined unless a test says otherwise
+const storage = vi.hoisted(() => {
+  const methods: Record<string, ReturnType<typeof vi.fn>> = {};
+  return new Proxy(methods, {
+    get: (target, name: string) => (target[name] ??= vi.fn(async () => undefined)),
+  });
+});
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("../db", () => ({ db: {}, pool: {} }));
+vi.mock("./auth", () => ({
+  authService: {
+    getUserById: vi.fn(async (id: string) => ({ id, email: `${id}@example.com`, role: "user", displayName: id })),
+  },
+}));
+
+const event = { id: "event-1", organizerId: "organizer", isPublic: true } as Event;
+
+// Sockets sign in by naming their user in a header instead of a session cookie
+const sessionMiddleware: RequestHandler = (req, _res, next) => {
+  const userId = req.headers["x-test-user"];
+  (req as unknown as { session: { userId?: string } }).session = { userId: typeof userId === "string" ? userId : undefined };
+  next();
+};
+
+let server: http.Server;
+let service: WebSocketService;
+let url: string;
+
+type Client = {
+  socket: WebSocket;
+  // What a resuming socket was sent ahead of JOINED
+  replayed: ServerMessage[];
+  received: ServerMessage[];
+  joined: Extract<ServerMessage, { type: "JOINED" }>;
+};
+
+// Connects, joins the event and collects everything the socket is sent afterwards
+async function join(userId?: string, resume?: { epoch: string; seq: number }): Promise<Client> {
+  const socket = new WebSocket(url, { headers: userId ? { "x-test-user": userId } : {} });
+  const received: ServerMessage[] = [];
+  socket.on("message", (data) => received.push(JSON.parse(data.toString())));
+  await new Promise((resolve) => socket.once("open", resolve));
+
+  socket.send(JSON.stringify({ type: "hello", version: 1 }));
+  socket.send(JSON.stringify({ type: "join_event", eventId: event.id, resume }));
+  await vi.waitFor(() => expect(received.some((message) => message.type === "JOINED")).toBe(true));
+  const index = received.findIndex((message) => message.type === "JOINED");
+  const joined = received[index] as Client["joined"];
+  const replayed = received.splice(0, received.length).slice(0, index).filter((message) => message.type !== "WELCOME");
+  return { socket, replayed, received, joined };
+}
+
+// A message everyone in the room gets, so once it arrives anything broadcast
+// before it has arrived too
+async function flush(...clients: Client[]) {
+  service.broadcastEventStatus(event.id, "live");
+  for (const client of clients) {
+    await vi.waitFor(() => expect(client.received.some((message) => message.type === "EVENT_STATUS_UPDATE")).toBe(true));
+  }
+}
+
+const types = (client: Client) => client.received.map((message) => message.type);
+
+beforeAll(async () => {
+  server = http.createServer();
+  service = new WebSocketService(server, sessionMiddleware, new InProcessBackplane());
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  storage.getEvent.mockImplementation(async (id: string) => (id === event.id ? event : undefined));
+  storage.getCamerasByEvent.mockResolvedValue([]);
+  storage.getAcceptedMembership.mockImplementation(async (eventId: string, userId: string) =>
+    userId === "viewer" ? undefined : ({ eventId, userId, role: userId, status: "accepted" } as EventMember));
+});
+
+describe("scheduled switch broadcasts", () => {
+  const scheduled = {
+    id: "switch-1",
+    eventId: event.id,
+    cameraId: "camera-1",
+    executeAt: new Date(),
+    status: "pending",
+    failureReason: null,
+  } as ScheduledSwitch;
+
+  it("reach directors but not viewers", async () => {
+    const director = await join("director");
+    const viewer = await join();
+
+    service.broadcastScheduledSwitch(scheduled);
+    await flush(director, viewer);
+
+    expect(types(director)).toEqual(["SCHEDULED_SWITCH_UPDATE", "EVENT_STATUS_UPDATE"]);
+    expect(types(viewer)).toEqual(["EVENT_STATUS_UPDATE"]);
+    director.socket.close();
+    viewer.socket.close();
+  });
+
+  it("aren't replayed to a viewer resuming after them", async () => {
+    const viewer = await join();
+    const resume = { epoch: viewer.joined.epoch, seq: viewer.joined.seq };
+    viewer.socket.close();
+
+    service.broadcastScheduledSwitch(scheduled);
+    service.broadcastEventStatus(event.id, "live");
+
+    const resumed = await join(undefined, resume);
+    expect(resumed.joined.resumed).toBe(true);
+    expect(resumed.replayed.map((message) => message.type)).toEqual(["EVENT_STATUS_UPDATE"]);
+    resumed.socket.close();
+  });
+});
+
+describe("replay mark broadcasts", () => {
+  const mark = { id: "replay-1", eventId: event.id, cameraId: "camera-1", status: "ready", failureReason: null } as ReplayMark;
+
+  it("reach directors and producers only", async () => {
+    const clients = await Promise.all(["director", "producer", "moderator", "scorekeeper"].map((role) => join(role)));
+    const viewer = await join();
+
+    service.broadcastReplayMark(mark);
+    await flush(...clients, viewer);
+
+    const [director, producer, moderator, scorekeeper] = clients;
+    expect(types(director)).toContain("REPLAY_MARK_UPDATE");
+    expect(types(producer)).toContain("REPLAY_MARK_UPDATE");
+    for (const client of [moderator, scorekeeper, viewer]) {
+      expect(types(client)).toEqual(["EVENT_STATUS_UPDATE"]);
+    }
+    [...clients, viewer].forEach((client) => client.socket.close());
+  });
+});
+
+describe("highlight reel broadcasts", () => {
+  it("reach only those who may manage highlights", async () => {
+    const director = await join("director");
+    const producer = await join("producer");
+    const viewer = await join();
+
+    service.broadcastHighlightReel({ id: "reel-1", eventId: event.id, status: "ready", failureReason: null } as HighlightReel);
+    await flush(director, producer, viewer);
+
+    expect(types(director)).toEqual(["HIGHLIGHT_REEL_UPDATE", "EVENT_STATUS_UPDATE"]);
+    expect(types(producer)).toEqual(["EVENT_STATUS_UPDATE"]);
+    expect(types(viewer)).toEqual(["EVENT_STATUS_UPDATE"]);
+    [director, producer, viewer].forEach((client) => client.socket.close());
+  });
+});
@@ -1,31 +1,181 @@
+import crypto from 'crypto';
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { Server, type IncomingMessage } from 'http';
+import type { Request, RequestHandler, Response } from 'express';
+import { storage } from '../storage';
+import type { Camera, ChatMessage, ChatSettings, Event, HighlightReel, Recording, ReplayMark, ScheduledSwitch, SwitchSequence } from '@shared/schema';
+import { eventAccess, toCameraPayload, type EventPermission, type EventRole } from './event-access';
+import { authService } from './auth';
+import { chatService, ChatError, toPublicChatMessage } from './chat';
+import { chatModerationService, ChatModerationError } from './chat-moderation';
+import { programService } from './program';
+import { presenceService, isBotUserAgent } from './presence';
+import { InProcessBackplane, type BroadcastBackplane } from './backplane';
+import {
+  clientMessageSchema, WS_CLOSE_UPGRADE_REQUIRED, WS_MIN_PROTOCOL_VERSION, WS_PROTOCOL_VERSION,
+  type ClientMessage, type ScoreboardPayload, type ServerMessage,
+} from '@shared/ws-protocol';
+
+// name is what the user chats as, from their profile
+type SocketUser = { id: string; role: string; name: string };
 
 interface WebSocketClient extends WebSocket {
   eventId?: string;
-  userId?: string;
+  user?: SocketUser;
+  eventRole?: EventRole;
+  ip?: string;
+  // Set once the client's hello handshake succeeds
+  protocolVersion?: number;
+  // The upgrade request, kept so the session can be re-read for privileged messages
+  request?: IncomingMessage;
+  // Set while the socket counts towards its event's viewers
+  viewerKey?: string;
+  // Guest browser ID, fixed by the first join so guests can't shed chat limits
+  // or bans by sending a new one
+  clientId?: string;
+  // Cleared on each ping; a socket that hasn't answered by the next one is dead
+  isAlive?: boolean;
+}
+
+type ResumePoint = NonNullable<Extract<ClientMessage, { type: 'join_event' }>['resume']>;
+
+// Recent broadcasts per room, so reconnecting clients can catch up. Every room
+// message after `since` is still in `entries`, with the permission a socket
+// needs to be sent it
+interface RoomHistory {
+  since: number;
+  entries: { seq: number; at: number; frame: string; permission?: EventPermission }[];
+}
+
+const PING_INTERVAL_MS = parseInt(process.env.WS_PING_INTERVAL_MS || '30000', 10);
+// A client this far behind is on a dead or hopeless link; dropping it lets it
+// reconnect and resume instead of growing the server's memory
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+const RESUME_WINDOW_MS = 2 * 60 * 1000;
+const RESUME_MAX_MESSAGES = 200;
+
+// Express's compiled 'trust proxy' setting: whether the address at this hop
+// (0 being the socket's peer) is a proxy whose X-Forwarded-For can be believed
+export type TrustProxy = (address: string, hop: number) => boolean;
+
+// The client's address the way Express works out req.ip: X-Forwarded-For is
+// only followed back through trusted proxies, so without 'trust proxy' it's
+// the socket's peer and can't be spoofed with a header
+function clientIp(req: IncomingMessage, trustProxy: TrustProxy): string | undefined {
+  const peer = req.socket.remoteAddress;
+  if (!peer) return undefined;
+
+  const forwarded = req.headers['x-forwarded-for'];
+  const addresses = [peer, ...(Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+    .reverse()];
+  for (let hop = 0; hop < addresses.length - 1; hop++) {
+    if (!trustProxy(addresses[hop], hop)) return addresses[hop];
+  }
+  return addresses[addresses.length - 1];
+}
+
+function isClientId(clientId: string | undefined): clientId is string {
+  return !!clientId && /^[\w-]{8,64}$/.test(clientId);
+}
+
+// Signed-in viewers count once per account and guests once per browser; a
+// guest without a browser ID counts per connection
+function viewerKeyFor(user: SocketUser | undefined, clientId: string | undefined): string {
+  if (user) return `user:${user.id}`;
+  if (clientId) return `guest:${clientId}`;
+  return `socket:${crypto.randomUUID()}`;
 }
 
 export class WebSocketService {
   private wss: WebSocketServer;
   private clients: Map<string, Set<WebSocketClient>> = new Map();
+  private history: Map<string, RoomHistory> = new Map();
+  // Sequence numbers are shared by all rooms and only meaningful within one
+  // instance's lifetime
+  private seq = 0;
+  private readonly epoch = crypto.randomUUID();
 
-  constructor(server: Server) {
-    this.wss = new WebSocketServer({ server, path: '/ws' });
+  constructor(
+    server: Server,
+    private sessionMiddleware?: RequestHandler,
+    private backplane: BroadcastBackplane = new InProcessBackplane(),
+    private trustProxy: TrustProxy = () => false,
+  ) {
+    // noServer so other endpoints (the publish relay, Vite HMR) can share the HTTP server
+    this.wss = new WebSocketServer({ noServer: true });
+    server.on('upgrade', (req, socket, head) => {
+      if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/ws') return;
+
+      // Signed-in browsers send their session cookie with the upgrade; anyone
+      // else connects anonymously and can still join public events
+      this.resolveUser(req)
+        .catch((error) => {
+          console.error('WebSocket session lookup failed:', error);
+          return undefined;
+        })
+        .then((user) => {
+          this.wss.handleUpgrade(req, socket, head, (ws) => this.wss.emit('connection', ws, req, user));
+        });
+    });
     this.setupWebSocket();
+    this.startHeartbeat();
+
+    // Room broadcasts go through the backplane so viewers connected to other
+    // server instances get them too
+    this.backplane.subscribe((eventId, message, permission) => this.deliverToEvent(eventId, message, permission))
+      .catch((error) => console.error('Failed to subscribe to the broadcast backplane:', error));
+  }
+
+  // Reads the Express session named by the request's connect.sid cookie, from
+  // the same store the HTTP routes use
+  private async resolveUser(req: IncomingMessage): Promise<SocketUser | undefined> {
+    const middleware = this.sessionMiddleware;
+    if (!middleware) return undefined;
+
+    // A fresh request object every time, so the session is read from the store
+    // again rather than reused from an earlier lookup
+    const sessionReq = {
+      headers: req.headers,
+      url: req.url,
+      originalUrl: req.url,
+      socket: req.socket,
+      connection: req.socket,
+    } as unknown as Request;
+    await new Promise<void>((resolve, reject) => {
+      middleware(sessionReq, {} as Response, (error?: unknown) => (error ? reject(error) : resolve()));
+    });
+
+    const userId = sessionReq.session?.userId;
+    if (!userId) return undefined;
+    const user = await authService.getUserById(userId);
+    if (!user) return undefined;
+    const name = user.displayName || [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email.split('@')[0];
+    return { id: user.id, role: user.role, name };
   }
 
   private setupWebSocket() {
-    this.wss.on('connection', (ws: WebSocketClient, req) => {
-      console.log('WebSocket client connected');
+    this.wss.on('connection', (ws: WebSocketClient, req: IncomingMessage, user?: SocketUser) => {
+      console.log(`WebSocket client connected${user ? ` as user ${user.id}` : ''}`);
+      ws.ip = clientIp(req, this.trustProxy);
+      ws.user = user;
+      ws.request = req;
+      ws.isAlive = true;
+
+      ws.on('pong', () => {
+        ws.isAlive = true;
+      });
 
       ws.on('message', (data) => {
+        let message: unknown;
         try {
-          const message = JSON.parse(data.toString());
-          this.handleMessage(ws, message);
+          message = JSON.parse(data.toString());
         } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
+          return this.sendError(ws, 'INVALID_MESSAGE', 'Messages must be JSON');
         }
+        this.handleMessage(ws, message);
       });
 
       ws.on('close', () => {
@@ -40,22 +190,147 @@ export class WebSocketService {
     });
   }
 
-  private handleMessage(ws: WebSocketClient, message: any) {
+  // Pings every client and drops the ones that didn't answer the previous ping,
+  // so half-open connections don't linger in rooms or the viewer count
+  private startHeartbeat() {
+    const timer = setInterval(() => {
+      this.wss.clients.forEach((socket) => {
+        const ws = socket as WebSocketClient;
+        if (ws.isAlive === false) {
+          console.log('Dropping unresponsive WebSocket client');
+          ws.terminate();
+          return;
+        }
+        ws.isAlive = false;
+        ws.ping();
+      });
+      this.pruneHistory();
+    }, PING_INTERVAL_MS);
+    timer.unref();
+    this.wss.on('close', () => clearInterval(timer));
+  }
+
+  private handleMessage(ws: WebSocketClient, raw: unknown) {
+    const parsed = clientMessageSchema.safeParse(raw);
+    if (!parsed.success) {
+      const type = typeof raw === 'object' && raw && 'type' in raw ? String(raw.type) : 'message';
+      const issue = parsed.error.errors[0];
+      return this.sendError(ws, 'INVALID_MESSAGE', `Invalid ${type}: ${issue.path.join('.') || 'type'} ${issue.message.toLowerCase()}`);
+    }
+
+    const message = parsed.data;
+    if (message.type === 'hello') {
+      return this.handshake(ws, message.version);
+    }
+    // Clients from before the protocol was versioned never say hello
+    if (ws.protocolVersion === undefined) {
+      return this.requireUpgrade(ws);
+    }
+
+    this.dispatch(ws, message);
+  }
+
+  private dispatch(ws: WebSocketClient, message: Exclude<ClientMessage, { type: 'hello' }>) {
     switch (message.type) {
       case 'join_event':
-        this.joinEvent(ws, message.eventId, message.userId);
+        this.joinEvent(ws, message).catch((error) => {
+          console.error('Error joining event:', error);
+          this.sendError(ws, 'JOIN_FAILED', 'Failed to join event');
+        });
         break;
       case 'leave_event':
-        this.leaveEvent(ws, message.eventId);
+        // Only the room the socket is in can be left; anything else would
+        // leave the socket where it is with its viewer still counted
+        if (message.eventId !== ws.eventId) {
+          return this.sendError(ws, 'NOT_JOINED', 'Not joined to that event');
+        }
+        this.leaveEvent(ws);
+        break;
+      case 'chat_send':
+        this.sendChat(ws, message);
+        break;
+      case 'switch_camera':
+        this.switchCamera(ws, message.cameraId).catch((error) => {
+          console.error('Error switching camera:', error);
+          this.sendError(ws, 'SWITCH_FAILED', error instanceof Error ? error.message : 'Failed to switch camera');
+        });
         break;
-      default:
-        console.log('Unknown message type:', message.type);
+      case 'chat_hide':
+      case 'chat_unhide':
+        this.moderateChat(ws, message.messageId, message.type === 'chat_hide').catch((error) => {
+          if (error instanceof ChatModerationError) {
+            return this.sendError(ws, 'MODERATION_FAILED', error.message);
+          }
+          console.error('Error moderating chat:', error);
+          this.sendError(ws, 'MODERATION_FAILED', 'Failed to moderate message');
+        });
+        break;
+    }
+  }
+
+  private handshake(ws: WebSocketClient, version: number) {
+    if (version < WS_MIN_PROTOCOL_VERSION) {
+      return this.requireUpgrade(ws);
+    }
+    ws.protocolVersion = Math.min(version, WS_PROTOCOL_VERSION);
+    this.send(ws, { type: 'WELCOME', version: ws.protocolVersion, minVersion: WS_MIN_PROTOCOL_VERSION });
+  }
+
+  private requireUpgrade(ws: WebSocketClient) {
+    this.sendError(ws, 'UPGRADE_REQUIRED', 'This page is out of date. Reload it to get the latest version.');
+    ws.close(WS_CLOSE_UPGRADE_REQUIRED, 'Upgrade required');
+  }
+
+  private send(ws: WebSocketClient, message: ServerMessage) {
+    this.sendFrame(ws, JSON.stringify(message));
+  }
+
+  private sendFrame(ws: WebSocketClient, frame: string) {
+    if (ws.readyState !== WebSocket.OPEN) return;
+    if (ws.bufferedAmount > MAX_BUFFERED_BYTES) {
+      console.warn(`Dropping WebSocket client with ${ws.bufferedAmount} bytes queued`);
+      ws.terminate();
+      return;
     }
+    ws.send(frame);
   }
 
-  private joinEvent(ws: WebSocketClient, eventId: string, userId?: string) {
+  private sendError(
+    ws: WebSocketClient,
+    code: string,
+    message: string,
+    details: { reason?: string; retryAfterMs?: number | null } = {},
+  ) {
+    this.send(ws, { type: 'ERROR', code, message, ...details });
+  }
+
+  // Rooms follow the same access rules as the REST API: private events are
+  // only joinable by sockets whose user holds a role on the event. Camera phones
+  // pass their camera token so they hear about their own camera
+  private async joinEvent(ws: WebSocketClient, { eventId, cameraToken, clientId, resume }: Extract<ClientMessage, { type: 'join_event' }>) {
+    const event = await storage.getEvent(eventId);
+    if (!event) {
+      return this.sendError(ws, 'EVENT_NOT_FOUND', 'Event not found');
+    }
+
+    const role = await eventAccess.resolveRole(event, {
+      user: ws.user ?? null,
+      cameraToken: cameraToken ?? null,
+    });
+    if (!eventAccess.hasPermission(role, 'view')) {
+      return this.sendError(ws, 'FORBIDDEN', 'Not allowed to join this event');
+    }
+
+    // Rejoining the same room is a leave and join too, so the viewer isn't counted twice
+    if (ws.eventId) {
+      this.leaveEvent(ws);
+    }
+
     ws.eventId = eventId;
-    ws.userId = userId;
+    ws.eventRole = role!;
+    if (!ws.clientId && isClientId(clientId)) {
+      ws.clientId = clientId;
+    }
 
     if (!this.clients.has(eventId)) {
       this.clients.set(eventId, new Set());
@@ -63,9 +338,103 @@ export class WebSocketService {
     
     this.clients.get(eventId)!.add(ws);
     console.log(`Client joined event ${eventId}`);
+
+    // Replay what a reconnecting client missed. This runs in the same tick the
+    // socket entered the room, so nothing falls between replay and live delivery
+    const missed = this.missedSince(eventId, role!, resume);
+    missed?.forEach((frame) => this.sendFrame(ws, frame));
+    this.send(ws, {
+      type: 'JOINED',
+      eventId,
+      epoch: this.epoch,
+      seq: this.seq,
+      resumed: missed !== null,
+    });
+
+    // Crew, camera phones and bots are in the room but aren't audience
+    if (role === 'viewer' && !cameraToken && !isBotUserAgent(ws.request?.headers['user-agent'])) {
+      ws.viewerKey = viewerKeyFor(ws.user, ws.clientId);
+      presenceService.join(eventId, ws.viewerKey);
+    }
   }
 
-  private leaveEvent(ws: WebSocketClient, eventId: string) {
+  // Privileged messages act on the joined event and re-check the caller's role
+  // against a freshly read session, so a sign-out or revoked membership takes
+  // effect without waiting for the socket to reconnect
+  private async authorize(ws: WebSocketClient, permission: EventPermission): Promise<Event | undefined> {
+    if (!ws.eventId) {
+      this.sendError(ws, 'NOT_JOINED', 'Join an event first');
+      return undefined;
+    }
+
+    const event = await storage.getEvent(ws.eventId);
+    if (!event) {
+      this.sendError(ws, 'EVENT_NOT_FOUND', 'Event not found');
+      return undefined;
+    }
+
+    ws.user = ws.request ? await this.resolveUser(ws.request) : undefined;
+    const role = await eventAccess.resolveRole(event, { user: ws.user ?? null });
+    if (!ws.user || !eventAccess.hasPermission(role, permission)) {
+      this.sendError(ws, ws.user ? 'FORBIDDEN' : 'UNAUTHORIZED', ws.user ? 'Insufficient permissions' : 'Authentication required');
+      return undefined;
+    }
+
+    ws.eventRole = role!;
+    return event;
+  }
+
+  private async switchCamera(ws: WebSocketClient, cameraId: string) {
+    const event = await this.authorize(ws, 'switch');
+    if (!event) return;
+
+    const camera = await storage.getCamera(cameraId);
+    if (!camera || camera.eventId !== event.id) {
+      return this.sendError(ws, 'CAMERA_NOT_FOUND', 'Camera not found');
+    }
+    await programService.switchCamera(event, camera);
+  }
+
+  private async moderateChat(ws: WebSocketClient, messageId: string, hidden: boolean) {
+    const event = await this.authorize(ws, 'moderate_chat');
+    if (!event) return;
+
+    await chatModerationService.setMessageHidden(event.id, messageId, hidden, ws.user!.id);
+  }
+
+  // Chat goes to the room the socket has joined, never to an arbitrary event ID
+  private sendChat(ws: WebSocketClient, message: Extract<ClientMessage, { type: 'chat_send' }>) {
+    if (!ws.eventId) {
+      return this.sendError(ws, 'NOT_JOINED', 'Join an event before chatting');
+    }
+
+    const author = { userId: ws.user?.id ?? null, clientId: ws.clientId ?? null, role: ws.eventRole ?? null, ip: ws.ip ?? null };
+    // Signed-in users chat under their profile name, whatever the client sent
+    const username = ws.user ? ws.user.name : message.username;
+    chatService.send(ws.eventId, { username, message: message.message }, author)
+      .catch((error) => {
+        // Rejections carry a reason and, for rate limits, when to try again
+        if (error instanceof ChatError) {
+          return this.sendError(ws, 'CHAT_REJECTED', error.message, {
+            reason: error.reason,
+            retryAfterMs: error.retryAfterMs ?? null,
+          });
+        }
+        console.error('Error sending chat message:', error);
+        this.sendError(ws, 'CHAT_FAILED', 'Failed to send message');
+      });
+  }
+
+  // Leaves whichever room the socket is in, releasing its viewer presence there
+  private leaveEvent(ws: WebSocketClient) {
+    const eventId = ws.eventId;
+    if (!eventId) return;
+
+    if (ws.viewerKey) {
+      presenceService.leave(eventId, ws.viewerKey);
+      ws.viewerKey = undefined;
+    }
+
     const eventClients = this.clients.get(eventId);
     if (eventClients) {
       eventClients.delete(ws);
@@ -75,26 +444,79 @@ export class WebSocketService {
     }
     
     ws.eventId = undefined;
-    ws.userId = undefined;
+    ws.eventRole = undefined;
   }
 
   private removeClient(ws: WebSocketClient) {
-    if (ws.eventId) {
-      this.leaveEvent(ws, ws.eventId);
+    this.leaveEvent(ws);
+  }
+
+  // Broadcast to all clients in an event, on every server instance. Crew-only
+  // messages name the permission a client's role needs to get them
+  broadcastToEvent(eventId: string, message: ServerMessage, permission?: EventPermission) {
+    this.backplane.publish(eventId, message, permission).catch((error) => {
+      console.error(`Failed to publish ${message.type} for event ${eventId}:`, error);
+    });
+  }
+
+  // Send to the clients in an event connected to this instance, numbering
+  // and keeping the message for clients that reconnect
+  private deliverToEvent(eventId: string, message: ServerMessage, permission?: EventPermission) {
+    if (!this.history.has(eventId)) {
+      this.history.set(eventId, { since: this.seq, entries: [] });
+    }
+    const history = this.history.get(eventId)!;
+    const seq = ++this.seq;
+    const frame = JSON.stringify({ ...message, seq });
+    history.entries.push({ seq, at: Date.now(), frame, permission });
+    if (history.entries.length > RESUME_MAX_MESSAGES) {
+      history.since = history.entries.shift()!.seq;
     }
+
+    this.clients.get(eventId)?.forEach((client) => {
+      if (!permission || eventAccess.hasPermission(client.eventRole ?? null, permission)) {
+        this.sendFrame(client, frame);
+      }
+    });
   }
 
-  // Broadcast to all clients in an event
-  broadcastToEvent(eventId: string, message: any) {
-    const eventClients = this.clients.get(eventId);
-    if (!eventClients) return;
+  // Frames after the client's resume point, or null when they can't all be
+  // replayed and the client has to refetch instead. Only frames the client's
+  // role may see are replayed
+  private missedSince(eventId: string, role: EventRole, resume?: ResumePoint): string[] | null {
+    if (!resume || resume.epoch !== this.epoch) return null;
 
-    const messageStr = JSON.stringify(message);
-    
-    eventClients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(messageStr);
+    // No history means whatever the client missed has already aged out
+    const history = this.history.get(eventId);
+    if (!history || resume.seq < history.since || resume.seq > this.seq) return null;
+
+    return history.entries
+      .filter((entry) => entry.seq > resume.seq)
+      .filter((entry) => !entry.permission || eventAccess.hasPermission(role, entry.permission))
+      .map((entry) => entry.frame);
+  }
+
+  private pruneHistory() {
+    const cutoff = Date.now() - RESUME_WINDOW_MS;
+    for (const [eventId, history] of Array.from(this.history)) {
+      const expired = history.entries.filter((entry) => entry.at < cutoff);
+      if (expired.length > 0) {
+        history.since = expired[expired.length - 1].seq;
+        history.entries = history.entries.slice(expired.length);
       }
+      if (history.entries.length === 0 && !this.clients.has(eventId)) {
+        this.history.delete(eventId);
+      }
+    }
+  }
+
+  // Broadcast that a camera joined, so dashboards list it without refetching
+  broadcastCameraAdded(eventId: string, camera: Camera, slotId: string | null) {
+    this.broadcastToEvent(eventId, {
+      type: 'CAMERA_ADDED',
+      camera: toCameraPayload(camera),
+      slotId,
+      timestamp: new Date().toISOString()
     });
   }
 
@@ -108,6 +530,26 @@ export class WebSocketService {
     });
   }
 
+  // Broadcast that the director kicked or replaced a camera; its phone stops streaming
+  broadcastCameraRemoved(eventId: string, cameraId: string, reason: 'kicked' | 'replaced') {
+    this.broadcastToEvent(eventId, {
+      type: 'CAMERA_REMOVED',
+      cameraId,
+      reason,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast that the on-air camera dropped, and which camera took over if any
+  broadcastActiveCameraOffline(eventId: string, cameraId: string, fallbackCameraId: string | null) {
+    this.broadcastToEvent(eventId, {
+      type: 'ACTIVE_CAMERA_OFFLINE',
+      cameraId,
+      fallbackCameraId,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   // Broadcast program switch
   broadcastProgramSwitch(eventId: string, activeCameraId: string, programUrl: string) {
     this.broadcastToEvent(eventId, {
@@ -118,11 +560,141 @@ export class WebSocketService {
     });
   }
 
+  // Broadcast to directors that a scheduled switch was queued, ran, failed or
+  // was cancelled
+  broadcastScheduledSwitch(scheduled: ScheduledSwitch) {
+    this.broadcastToEvent(scheduled.eventId, {
+      type: 'SCHEDULED_SWITCH_UPDATE',
+      switchId: scheduled.id,
+      cameraId: scheduled.cameraId,
+      executeAt: scheduled.executeAt.toISOString(),
+      status: scheduled.status,
+      failureReason: scheduled.failureReason,
+      timestamp: new Date().toISOString()
+    }, 'switch');
+  }
+
+  // Broadcast to directors that a switch sequence started, paused, resumed or
+  // was cancelled
+  broadcastSwitchSequence(sequence: SwitchSequence) {
+    this.broadcastToEvent(sequence.eventId, {
+      type: 'SWITCH_SEQUENCE_UPDATE',
+      sequenceId: sequence.id,
+      status: sequence.status,
+      position: sequence.position,
+      pausedReason: sequence.pausedReason,
+      timestamp: new Date().toISOString()
+    }, 'switch');
+  }
+
+  // Broadcast to directors and producers that a replay mark's clip became
+  // ready or failed
+  broadcastReplayMark(mark: ReplayMark) {
+    this.broadcastToEvent(mark.eventId, {
+      type: 'REPLAY_MARK_UPDATE',
+      replayId: mark.id,
+      cameraId: mark.cameraId,
+      status: mark.status,
+      failureReason: mark.failureReason,
+      timestamp: new Date().toISOString()
+    }, 'manage');
+  }
+
+  // Broadcast a replay rolling into or out of the program
+  broadcastProgramReplay(eventId: string, replay: { id: string; label: string | null }, onAir: boolean) {
+    this.broadcastToEvent(eventId, {
+      type: 'PROGRAM_REPLAY_UPDATE',
+      replayId: replay.id,
+      label: replay.label,
+      onAir,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast event status change (live, disconnected, idle, ended)
+  broadcastEventStatus(eventId: string, status: string) {
+    this.broadcastToEvent(eventId, {
+      type: 'EVENT_STATUS_UPDATE',
+      status,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast simulcast target status change
+  broadcastSimulcastUpdate(eventId: string, targetId: string, status: string) {
+    this.broadcastToEvent(eventId, {
+      type: 'SIMULCAST_UPDATE',
+      targetId,
+      status,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast that a recording of the event or one of its cameras is playable
+  broadcastRecordingReady(recording: Recording) {
+    this.broadcastToEvent(recording.eventId, {
+      type: 'RECORDING_READY',
+      recordingId: recording.id,
+      assetId: recording.assetId,
+      playbackUrl: recording.playbackUrl,
+      cameraId: recording.cameraId,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast to directors that a highlight reel was queued, rendered or failed
+  broadcastHighlightReel(reel: HighlightReel) {
+    this.broadcastToEvent(reel.eventId, {
+      type: 'HIGHLIGHT_REEL_UPDATE',
+      reelId: reel.id,
+      status: reel.status,
+      failureReason: reel.failureReason,
+      timestamp: new Date().toISOString()
+    }, 'switch');
+  }
+
+  broadcastScoreboard(scoreboard: ScoreboardPayload) {
+    this.broadcastToEvent(scoreboard.eventId, {
+      type: 'SCOREBOARD_UPDATE',
+      scoreboard,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast a new (or restored) chat message to the event room
+  broadcastChatMessage(eventId: string, message: ChatMessage) {
+    this.broadcastToEvent(eventId, {
+      type: 'CHAT_MESSAGE',
+      message: toPublicChatMessage(message),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast that a moderator hid a message; clients drop it from their chat
+  broadcastChatMessageHidden(eventId: string, messageId: string) {
+    this.broadcastToEvent(eventId, {
+      type: 'CHAT_MESSAGE_HIDDEN',
+      messageId,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast the chat rules viewers need to know about; blocked words stay private
+  broadcastChatSettings(eventId: string, settings: ChatSettings) {
+    this.broadcastToEvent(eventId, {
+      type: 'CHAT_SETTINGS_UPDATE',
+      slowModeSeconds: settings.slowModeSeconds,
+      registeredOnly: settings.registeredOnly,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   // Broadcast viewer count update
-  broadcastViewerCount(eventId: string, count: number) {
+  broadcastViewerCount(eventId: string, count: number, peak: number) {
     this.broadcastToEvent(eventId, {
       type: 'VIEWER_COUNT_UPDATE',
       count,
+      peak,
       timestamp: new Date().toISOString()
     });
   }
@@ -130,8 +702,13 @@ export class WebSocketService {
 
 let wsService: WebSocketService;
 
-export function initializeWebSocket(server: Server): WebSocketService {
-  wsService = new WebSocketService(server);
+export function initializeWebSocket(
+  server: Server,
+  sessionMiddleware?: RequestHandler,
+  backplane?: BroadcastBackplane,
+  trustProxy?: TrustProxy,
+): WebSocketService {
+  wsService = new WebSocketService(server, sessionMiddleware, backplane, trustProxy);
   return wsService;
 }
 
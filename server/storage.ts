@@ -1,14 +1,39 @@
 import { 
-  events, cameras, switchLogs, simulcastTargets, users, chatMessages,
+  events, eventMembers, cameras, switchLogs, simulcastTargets, users, chatMessages, webhookEvents, cameraInvites, cameraSlots,
+  chatSettings, chatBans, chatModerationLogs, scheduledSwitches, switchSequences, replayMarks, recordings, eventMarkers, highlightReels,
+  highlightReelChunks,
+  scoreboards, scoreChanges, viewerPresence,
   type Event, type InsertEvent,
+  type EventMember, type InsertEventMember,
   type Camera, type InsertCamera,
+  type CameraInvite, type InsertCameraInvite,
+  type CameraSlot,
   type SwitchLog, type InsertSwitchLog,
+  type ScheduledSwitch, type InsertScheduledSwitch,
+  type SwitchSequence, type InsertSwitchSequence,
+  type ReplayMark, type InsertReplayMark,
+  type Recording, type InsertRecording,
+  type EventMarker, type InsertEventMarker,
+  type HighlightReel, type InsertHighlightReel,
+  type Scoreboard, type ScoreChange, type InsertScoreChange, type ScoreTeam,
   type SimulcastTarget, type InsertSimulcastTarget,
   type User, type InsertUser,
-  type ChatMessage, type InsertChatMessage
+  type ChatMessage, type InsertChatMessage,
+  type ChatSettings, type UpdateChatSettingsData,
+  type ChatBan, type InsertChatBan,
+  type ChatModerationLog, type InsertChatModerationLog
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, asc, desc, or, inArray, gt, isNull, lt, sql } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// An event's viewer count is the sum of every instance's presence row
+const viewerTotal = sql<number>`(select coalesce(sum(${viewerPresence.count}), 0)::int from ${viewerPresence} where ${viewerPresence.eventId} = ${events.id})`;
+const recountViewers = {
+  viewerCount: viewerTotal,
+  peakViewerCount: sql<number>`greatest(coalesce(${events.peakViewerCount}, 0), ${viewerTotal})`,
+};
 
 export interface IStorage {
   // Users
@@ -21,30 +46,138 @@ export interface IStorage {
   createEvent(event: InsertEvent): Promise<Event>;
   getEvent(id: string): Promise<Event | undefined>;
   getEventByCode(eventCode: string): Promise<Event | undefined>;
-  getEventsByOrganizer(organizerId: string): Promise<Event[]>;
+  getEventByStreamId(streamId: string): Promise<Event | undefined>;
+  getEventsForMember(userId: string): Promise<Event[]>;
   updateEvent(id: string, updates: Partial<Event>): Promise<Event | undefined>;
+  setViewerPresence(eventId: string, instanceId: string, count: number): Promise<Event | undefined>;
+  touchViewerPresence(instanceId: string): Promise<number>;
+  pruneViewerPresence(staleBefore: Date): Promise<Event[]>;
   deleteEvent(id: string): Promise<boolean>;
   
+  // Event Members
+  createEventMember(member: InsertEventMember): Promise<EventMember>;
+  getEventMember(id: string): Promise<EventMember | undefined>;
+  getEventMemberByToken(inviteToken: string): Promise<EventMember | undefined>;
+  getEventMembersByEvent(eventId: string): Promise<EventMember[]>;
+  getActiveEventMemberByEmail(eventId: string, email: string): Promise<EventMember | undefined>;
+  getAcceptedMembership(eventId: string, userId: string): Promise<EventMember | undefined>;
+  getPendingInvitationsByEmail(email: string): Promise<EventMember[]>;
+  updateEventMember(id: string, updates: Partial<EventMember>): Promise<EventMember | undefined>;
+  
   // Cameras
   createCamera(camera: InsertCamera): Promise<Camera>;
   getCamera(id: string): Promise<Camera | undefined>;
-  getCamerasByEvent(eventId: string): Promise<Camera[]>;
+  getCameraByStreamId(streamId: string): Promise<Camera | undefined>;
+  getCamerasByEvent(eventId: string, includeRemoved?: boolean): Promise<Camera[]>;
   updateCamera(id: string, updates: Partial<Camera>): Promise<Camera | undefined>;
-  deleteCamera(id: string): Promise<boolean>;
+  removeCamera(id: string): Promise<Camera | undefined>;
+  createCameraWithinLimit(camera: InsertCamera, slotId?: string | null): Promise<Camera | undefined>;
+  getStaleLiveCameras(cutoff: Date): Promise<Camera[]>;
+  
+  // Camera Slots
+  getCameraSlot(id: string): Promise<CameraSlot | undefined>;
+  getCameraSlotsByEvent(eventId: string): Promise<CameraSlot[]>;
+  createCameraSlotWithinLimit(eventId: string, label: string): Promise<CameraSlot | undefined>;
+  updateCameraSlot(id: string, updates: Partial<CameraSlot>): Promise<CameraSlot | undefined>;
+  reorderCameraSlots(eventId: string, slotIds: string[]): Promise<CameraSlot[]>;
+  deleteCameraSlot(id: string): Promise<boolean>;
+  
+  // Camera Invites
+  createCameraInvite(invite: InsertCameraInvite): Promise<CameraInvite>;
+  getCameraInvite(id: string): Promise<CameraInvite | undefined>;
+  getActiveCameraInvitesByEvent(eventId: string): Promise<CameraInvite[]>;
+  consumeCameraInvite(id: string): Promise<CameraInvite | undefined>;
+  releaseCameraInvite(id: string): Promise<void>;
+  revokeCameraInvite(id: string): Promise<CameraInvite | undefined>;
   
   // Switch Logs
   createSwitchLog(switchLog: InsertSwitchLog): Promise<SwitchLog>;
   getSwitchLogsByEvent(eventId: string): Promise<SwitchLog[]>;
+
+  // Scheduled Switches
+  createScheduledSwitch(scheduled: InsertScheduledSwitch): Promise<ScheduledSwitch>;
+  getScheduledSwitch(id: string): Promise<ScheduledSwitch | undefined>;
+  getPendingScheduledSwitches(eventId?: string): Promise<ScheduledSwitch[]>;
+  transitionScheduledSwitch(id: string, fromStatus: string, updates: Partial<ScheduledSwitch>): Promise<ScheduledSwitch | undefined>;
+
+  // Switch Sequences
+  createSwitchSequence(sequence: InsertSwitchSequence): Promise<SwitchSequence>;
+  getSwitchSequence(id: string): Promise<SwitchSequence | undefined>;
+  getActiveSwitchSequences(eventId?: string): Promise<SwitchSequence[]>;
+  transitionSwitchSequence(
+    id: string,
+    expected: { status: string; position?: number },
+    updates: Partial<SwitchSequence>,
+  ): Promise<SwitchSequence | undefined>;
+
+  // Replay Marks
+  createReplayMark(mark: InsertReplayMark): Promise<ReplayMark>;
+  getReplayMark(id: string): Promise<ReplayMark | undefined>;
+  getReplayMarksByEvent(eventId: string): Promise<ReplayMark[]>;
+  getReplayMarkByClipId(clipId: string): Promise<ReplayMark | undefined>;
+  transitionReplayMark(id: string, fromStatus: string, updates: Partial<ReplayMark>): Promise<ReplayMark | undefined>;
+  updateReplayMark(id: string, updates: Partial<ReplayMark>): Promise<ReplayMark | undefined>;
+
+  // Recordings
+  upsertRecording(recording: InsertRecording): Promise<Recording>;
+  getRecording(id: string): Promise<Recording | undefined>;
+  getRecordingsByEvent(eventId: string, includeHidden?: boolean): Promise<Recording[]>;
+  updateRecording(id: string, updates: Partial<Recording>): Promise<Recording | undefined>;
+  deleteRecording(id: string): Promise<void>;
+
+  // Event Markers
+  createEventMarker(marker: InsertEventMarker): Promise<EventMarker>;
+  getEventMarker(id: string): Promise<EventMarker | undefined>;
+  getEventMarkersByEvent(eventId: string): Promise<EventMarker[]>;
+  deleteEventMarker(id: string): Promise<void>;
+
+  // Highlight Reels
+  createHighlightReel(reel: InsertHighlightReel): Promise<HighlightReel>;
+  getHighlightReel(id: string): Promise<HighlightReel | undefined>;
+  getHighlightReelsByEvent(eventId: string): Promise<HighlightReel[]>;
+  getHighlightReelsByStatus(statuses: string[]): Promise<HighlightReel[]>;
+  transitionHighlightReel(id: string, fromStatus: string, updates: Partial<HighlightReel>): Promise<HighlightReel | undefined>;
+  deleteHighlightReel(id: string): Promise<void>;
+  addHighlightReelChunk(reelId: string, file: string, seq: number, data: Buffer): Promise<void>;
+  getHighlightReelChunk(reelId: string, file: string, seq: number): Promise<Buffer | undefined>;
+  deleteHighlightReelChunks(reelId: string): Promise<void>;
+
+  // Scoreboards
+  getScoreboard(eventId: string): Promise<Scoreboard | undefined>;
+  createScoreboard(eventId: string, defaults: Partial<Scoreboard>): Promise<Scoreboard>;
+  updateScoreboard(eventId: string, updates: Partial<Scoreboard>): Promise<Scoreboard | undefined>;
+  addScore(eventId: string, team: ScoreTeam, points: number): Promise<Scoreboard | undefined>;
+  createScoreChange(change: InsertScoreChange): Promise<ScoreChange>;
+  getScoreChangesByEvent(eventId: string): Promise<ScoreChange[]>;
   
   // Simulcast Targets
   createSimulcastTarget(target: InsertSimulcastTarget): Promise<SimulcastTarget>;
   getSimulcastTargetsByEvent(eventId: string): Promise<SimulcastTarget[]>;
+  getSimulcastTargetByProviderId(providerTargetId: string): Promise<SimulcastTarget | undefined>;
+  updateSimulcastTarget(id: string, updates: Partial<SimulcastTarget>): Promise<SimulcastTarget | undefined>;
   deleteSimulcastTarget(id: string): Promise<boolean>;
   
   // Chat Messages
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
-  getChatMessagesByEvent(eventId: string): Promise<ChatMessage[]>;
-  moderateChatMessage(id: string, moderatorId: string): Promise<boolean>;
+  getChatMessage(id: string): Promise<ChatMessage | undefined>;
+  getChatMessagesByEvent(eventId: string, limit: number, before?: ChatMessage, includeHidden?: boolean): Promise<ChatMessage[]>;
+  getLatestChatMessageByAuthor(eventId: string, authorKey: string): Promise<ChatMessage | undefined>;
+  moderateChatMessage(id: string, moderatorId: string, hidden?: boolean): Promise<ChatMessage | undefined>;
+
+  // Chat Moderation
+  getChatSettings(eventId: string): Promise<ChatSettings | undefined>;
+  upsertChatSettings(eventId: string, updates: UpdateChatSettingsData): Promise<ChatSettings>;
+  createChatBan(ban: InsertChatBan): Promise<ChatBan>;
+  getChatBan(id: string): Promise<ChatBan | undefined>;
+  getActiveChatBan(eventId: string, authorKey: string): Promise<ChatBan | undefined>;
+  getActiveChatBansByEvent(eventId: string): Promise<ChatBan[]>;
+  deleteChatBan(id: string): Promise<boolean>;
+  createChatModerationLog(log: InsertChatModerationLog): Promise<ChatModerationLog>;
+  getChatModerationLogsByEvent(eventId: string, limit: number): Promise<ChatModerationLog[]>;
+
+  // Webhook Events
+  recordWebhookEvent(id: string, provider: string, type: string): Promise<boolean>;
+  deleteWebhookEvent(id: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -99,8 +232,23 @@ export class DatabaseStorage implements IStorage {
     return event || undefined;
   }
 
-  async getEventsByOrganizer(organizerId: string): Promise<Event[]> {
-    return await db.select().from(events).where(eq(events.organizerId, organizerId));
+  async getEventByStreamId(streamId: string): Promise<Event | undefined> {
+    const [event] = await db.select().from(events).where(eq(events.muxStreamId, streamId));
+    return event || undefined;
+  }
+
+  // Events the user organizes or has accepted an invitation to
+  async getEventsForMember(userId: string): Promise<Event[]> {
+    const memberEventIds = db
+      .select({ eventId: eventMembers.eventId })
+      .from(eventMembers)
+      .where(and(eq(eventMembers.userId, userId), eq(eventMembers.status, "accepted")));
+
+    return await db
+      .select()
+      .from(events)
+      .where(or(eq(events.organizerId, userId), inArray(events.id, memberEventIds)))
+      .orderBy(desc(events.startDateTime));
   }
 
   async updateEvent(id: string, updates: Partial<Event>): Promise<Event | undefined> {
@@ -112,11 +260,131 @@ export class DatabaseStorage implements IStorage {
     return event || undefined;
   }
 
+  // Stores one instance's viewers of an event, then recounts the event across
+  // instances and raises the peak if it was beaten. The event row is locked
+  // first so concurrent recounts each see the others' rows.
+  async setViewerPresence(eventId: string, instanceId: string, count: number): Promise<Event | undefined> {
+    return await db.transaction(async (tx) => {
+      const [locked] = await tx.select({ id: events.id }).from(events).where(eq(events.id, eventId)).for("update");
+      if (!locked) return undefined;
+
+      if (count > 0) {
+        await tx
+          .insert(viewerPresence)
+          .values({ eventId, instanceId, count })
+          .onConflictDoUpdate({
+            target: [viewerPresence.eventId, viewerPresence.instanceId],
+            set: { count, updatedAt: new Date() },
+          });
+      } else {
+        await tx
+          .delete(viewerPresence)
+          .where(and(eq(viewerPresence.eventId, eventId), eq(viewerPresence.instanceId, instanceId)));
+      }
+
+      const [event] = await tx.update(events).set(recountViewers).where(eq(events.id, eventId)).returning();
+      return event || undefined;
+    });
+  }
+
+  // Returns how many of the instance's rows were still there
+  async touchViewerPresence(instanceId: string): Promise<number> {
+    const result = await db
+      .update(viewerPresence)
+      .set({ updatedAt: new Date() })
+      .where(eq(viewerPresence.instanceId, instanceId));
+    return result.rowCount || 0;
+  }
+
+  // Drops the rows of instances that stopped refreshing them and returns the
+  // recounted events
+  async pruneViewerPresence(staleBefore: Date): Promise<Event[]> {
+    return await db.transaction(async (tx) => {
+      const stale = await tx
+        .delete(viewerPresence)
+        .where(lt(viewerPresence.updatedAt, staleBefore))
+        .returning({ eventId: viewerPresence.eventId });
+      const eventIds = Array.from(new Set(stale.map((row) => row.eventId)));
+      if (eventIds.length === 0) return [];
+
+      return await tx.update(events).set(recountViewers).where(inArray(events.id, eventIds)).returning();
+    });
+  }
+
   async deleteEvent(id: string): Promise<boolean> {
     const result = await db.delete(events).where(eq(events.id, id));
     return (result.rowCount || 0) > 0;
   }
 
+  // Event Members
+  async createEventMember(insertMember: InsertEventMember): Promise<EventMember> {
+    const [member] = await db
+      .insert(eventMembers)
+      .values(insertMember)
+      .returning();
+    return member;
+  }
+
+  async getEventMember(id: string): Promise<EventMember | undefined> {
+    const [member] = await db.select().from(eventMembers).where(eq(eventMembers.id, id));
+    return member || undefined;
+  }
+
+  async getEventMemberByToken(inviteToken: string): Promise<EventMember | undefined> {
+    const [member] = await db.select().from(eventMembers).where(eq(eventMembers.inviteToken, inviteToken));
+    return member || undefined;
+  }
+
+  async getEventMembersByEvent(eventId: string): Promise<EventMember[]> {
+    return await db
+      .select()
+      .from(eventMembers)
+      .where(eq(eventMembers.eventId, eventId))
+      .orderBy(eventMembers.createdAt);
+  }
+
+  // A pending or accepted membership; declined and revoked ones may be re-invited
+  async getActiveEventMemberByEmail(eventId: string, email: string): Promise<EventMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(eventMembers)
+      .where(and(
+        eq(eventMembers.eventId, eventId),
+        eq(eventMembers.email, email),
+        inArray(eventMembers.status, ["pending", "accepted"]),
+      ));
+    return member || undefined;
+  }
+
+  async getAcceptedMembership(eventId: string, userId: string): Promise<EventMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(eventMembers)
+      .where(and(
+        eq(eventMembers.eventId, eventId),
+        eq(eventMembers.userId, userId),
+        eq(eventMembers.status, "accepted"),
+      ));
+    return member || undefined;
+  }
+
+  async getPendingInvitationsByEmail(email: string): Promise<EventMember[]> {
+    return await db
+      .select()
+      .from(eventMembers)
+      .where(and(eq(eventMembers.email, email), eq(eventMembers.status, "pending")))
+      .orderBy(desc(eventMembers.createdAt));
+  }
+
+  async updateEventMember(id: string, updates: Partial<EventMember>): Promise<EventMember | undefined> {
+    const [member] = await db
+      .update(eventMembers)
+      .set(updates)
+      .where(eq(eventMembers.id, id))
+      .returning();
+    return member || undefined;
+  }
+
   // Cameras
   async createCamera(insertCamera: InsertCamera): Promise<Camera> {
     const [camera] = await db
@@ -127,15 +395,27 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getCamera(id: string): Promise<Camera | undefined> {
-    const [camera] = await db.select().from(cameras).where(eq(cameras.id, id));
+    const [camera] = await db
+      .select()
+      .from(cameras)
+      .where(and(eq(cameras.id, id), isNull(cameras.removedAt)));
+    return camera || undefined;
+  }
+
+  async getCameraByStreamId(streamId: string): Promise<Camera | undefined> {
+    const [camera] = await db
+      .select()
+      .from(cameras)
+      .where(and(eq(cameras.muxStreamId, streamId), isNull(cameras.removedAt)));
     return camera || undefined;
   }
 
-  async getCamerasByEvent(eventId: string): Promise<Camera[]> {
+  // Removed cameras are only wanted for history, such as labelling old cuts
+  async getCamerasByEvent(eventId: string, includeRemoved = false): Promise<Camera[]> {
     return await db
       .select()
       .from(cameras)
-      .where(eq(cameras.eventId, eventId))
+      .where(includeRemoved ? eq(cameras.eventId, eventId) : and(eq(cameras.eventId, eventId), isNull(cameras.removedAt)))
       .orderBy(cameras.joinedAt);
   }
 
@@ -148,11 +428,196 @@ export class DatabaseStorage implements IStorage {
     return camera || undefined;
   }
 
-  async deleteCamera(id: string): Promise<boolean> {
-    const result = await db.delete(cameras).where(eq(cameras.id, id));
+  // Takes the camera out of the event: frees its slot and invalidates its
+  // camera token, but keeps the row so switch logs still point at it
+  async removeCamera(id: string): Promise<Camera | undefined> {
+    return await db.transaction(async (tx) => {
+      const [camera] = await tx
+        .update(cameras)
+        .set({ removedAt: new Date(), isLive: false, accessToken: null })
+        .where(and(eq(cameras.id, id), isNull(cameras.removedAt)))
+        .returning();
+      if (!camera) return undefined;
+
+      await tx.update(cameraSlots).set({ cameraId: null }).where(eq(cameraSlots.cameraId, id));
+      return camera;
+    });
+  }
+
+  // Cameras still flagged live whose last sign of life is older than cutoff
+  async getStaleLiveCameras(cutoff: Date): Promise<Camera[]> {
+    return await db
+      .select()
+      .from(cameras)
+      .where(and(eq(cameras.isLive, true), lt(cameras.lastActiveAt, cutoff)));
+  }
+
+  // Inserts the camera only if the event still has room, filling slotId (or an empty
+  // slot with the camera's label) when one is free. Runs under a lock on the event
+  // row so concurrent joins can't overshoot maxCameras.
+  async createCameraWithinLimit(insertCamera: InsertCamera, slotId?: string | null): Promise<Camera | undefined> {
+    return await db.transaction(async (tx) => {
+      const capacity = await this.lockCameraCapacity(tx, insertCamera.eventId);
+      if (!capacity) return undefined;
+
+      const label = insertCamera.label.toLowerCase();
+      const slot = capacity.emptySlots.find((s) => s.id === slotId)
+        ?? capacity.emptySlots.find((s) => s.label.toLowerCase() === label);
+
+      // A camera taking an empty slot uses capacity that slot already reserved
+      const reserved = capacity.cameraCount + capacity.emptySlots.length + (slot ? 0 : 1);
+      if (reserved > capacity.maxCameras) return undefined;
+
+      const [camera] = await tx.insert(cameras).values(insertCamera).returning();
+      if (slot) {
+        await tx.update(cameraSlots).set({ cameraId: camera.id }).where(eq(cameraSlots.id, slot.id));
+      }
+      return camera;
+    });
+  }
+
+  private async lockCameraCapacity(tx: Transaction, eventId: string) {
+    const [event] = await tx
+      .select({ maxCameras: events.maxCameras })
+      .from(events)
+      .where(eq(events.id, eventId))
+      .for("update");
+    if (!event) return undefined;
+
+    const [{ count }] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(cameras)
+      .where(and(eq(cameras.eventId, eventId), isNull(cameras.removedAt)));
+    const slots = await tx
+      .select()
+      .from(cameraSlots)
+      .where(eq(cameraSlots.eventId, eventId))
+      .orderBy(asc(cameraSlots.position));
+
+    return {
+      maxCameras: event.maxCameras ?? 9,
+      cameraCount: count,
+      slots,
+      emptySlots: slots.filter((slot) => !slot.cameraId),
+    };
+  }
+
+  // Camera Slots
+  async getCameraSlot(id: string): Promise<CameraSlot | undefined> {
+    const [slot] = await db.select().from(cameraSlots).where(eq(cameraSlots.id, id));
+    return slot || undefined;
+  }
+
+  async getCameraSlotsByEvent(eventId: string): Promise<CameraSlot[]> {
+    return await db
+      .select()
+      .from(cameraSlots)
+      .where(eq(cameraSlots.eventId, eventId))
+      .orderBy(asc(cameraSlots.position), asc(cameraSlots.createdAt));
+  }
+
+  async createCameraSlotWithinLimit(eventId: string, label: string): Promise<CameraSlot | undefined> {
+    return await db.transaction(async (tx) => {
+      const capacity = await this.lockCameraCapacity(tx, eventId);
+      if (!capacity) return undefined;
+
+      if (capacity.cameraCount + capacity.emptySlots.length + 1 > capacity.maxCameras) {
+        return undefined;
+      }
+
+      const position = capacity.slots.reduce((max, slot) => Math.max(max, slot.position + 1), 0);
+      const [slot] = await tx
+        .insert(cameraSlots)
+        .values({ eventId, label, position })
+        .returning();
+      return slot;
+    });
+  }
+
+  async updateCameraSlot(id: string, updates: Partial<CameraSlot>): Promise<CameraSlot | undefined> {
+    const [slot] = await db
+      .update(cameraSlots)
+      .set(updates)
+      .where(eq(cameraSlots.id, id))
+      .returning();
+    return slot || undefined;
+  }
+
+  async reorderCameraSlots(eventId: string, slotIds: string[]): Promise<CameraSlot[]> {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < slotIds.length; position++) {
+        await tx
+          .update(cameraSlots)
+          .set({ position })
+          .where(and(eq(cameraSlots.id, slotIds[position]), eq(cameraSlots.eventId, eventId)));
+      }
+    });
+    return await this.getCameraSlotsByEvent(eventId);
+  }
+
+  async deleteCameraSlot(id: string): Promise<boolean> {
+    const result = await db.delete(cameraSlots).where(eq(cameraSlots.id, id));
     return (result.rowCount || 0) > 0;
   }
 
+  // Camera Invites
+  async createCameraInvite(insertInvite: InsertCameraInvite): Promise<CameraInvite> {
+    const [invite] = await db
+      .insert(cameraInvites)
+      .values(insertInvite)
+      .returning();
+    return invite;
+  }
+
+  async getCameraInvite(id: string): Promise<CameraInvite | undefined> {
+    const [invite] = await db.select().from(cameraInvites).where(eq(cameraInvites.id, id));
+    return invite || undefined;
+  }
+
+  async getActiveCameraInvitesByEvent(eventId: string): Promise<CameraInvite[]> {
+    return await db
+      .select()
+      .from(cameraInvites)
+      .where(and(
+        eq(cameraInvites.eventId, eventId),
+        isNull(cameraInvites.revokedAt),
+        gt(cameraInvites.expiresAt, new Date()),
+        lt(cameraInvites.uses, cameraInvites.maxUses),
+      ))
+      .orderBy(desc(cameraInvites.createdAt));
+  }
+
+  // Claims one use in a single statement so two phones scanning at once can't both get the last one
+  async consumeCameraInvite(id: string): Promise<CameraInvite | undefined> {
+    const [invite] = await db
+      .update(cameraInvites)
+      .set({ uses: sql`${cameraInvites.uses} + 1` })
+      .where(and(
+        eq(cameraInvites.id, id),
+        isNull(cameraInvites.revokedAt),
+        gt(cameraInvites.expiresAt, new Date()),
+        lt(cameraInvites.uses, cameraInvites.maxUses),
+      ))
+      .returning();
+    return invite || undefined;
+  }
+
+  async releaseCameraInvite(id: string): Promise<void> {
+    await db
+      .update(cameraInvites)
+      .set({ uses: sql`greatest(${cameraInvites.uses} - 1, 0)` })
+      .where(eq(cameraInvites.id, id));
+  }
+
+  async revokeCameraInvite(id: string): Promise<CameraInvite | undefined> {
+    const [invite] = await db
+      .update(cameraInvites)
+      .set({ revokedAt: new Date() })
+      .where(eq(cameraInvites.id, id))
+      .returning();
+    return invite || undefined;
+  }
+
   // Switch Logs
   async createSwitchLog(insertSwitchLog: InsertSwitchLog): Promise<SwitchLog> {
     const [switchLog] = await db
@@ -170,6 +635,332 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(switchLogs.switchedAt));
   }
 
+  // Scheduled Switches
+  async createScheduledSwitch(insertScheduled: InsertScheduledSwitch): Promise<ScheduledSwitch> {
+    const [scheduled] = await db
+      .insert(scheduledSwitches)
+      .values(insertScheduled)
+      .returning();
+    return scheduled;
+  }
+
+  async getScheduledSwitch(id: string): Promise<ScheduledSwitch | undefined> {
+    const [scheduled] = await db.select().from(scheduledSwitches).where(eq(scheduledSwitches.id, id));
+    return scheduled || undefined;
+  }
+
+  // Pending switches of one event, or of every event when re-arming after a restart
+  async getPendingScheduledSwitches(eventId?: string): Promise<ScheduledSwitch[]> {
+    return await db
+      .select()
+      .from(scheduledSwitches)
+      .where(and(
+        eq(scheduledSwitches.status, "pending"),
+        eventId ? eq(scheduledSwitches.eventId, eventId) : undefined,
+      ))
+      .orderBy(asc(scheduledSwitches.executeAt));
+  }
+
+  // Only applies while the switch is still in fromStatus, so a switch runs or
+  // is cancelled exactly once even with several instances racing for it
+  async transitionScheduledSwitch(id: string, fromStatus: string, updates: Partial<ScheduledSwitch>): Promise<ScheduledSwitch | undefined> {
+    const [scheduled] = await db
+      .update(scheduledSwitches)
+      .set(updates)
+      .where(and(eq(scheduledSwitches.id, id), eq(scheduledSwitches.status, fromStatus)))
+      .returning();
+    return scheduled || undefined;
+  }
+
+  // Switch Sequences
+  async createSwitchSequence(insertSequence: InsertSwitchSequence): Promise<SwitchSequence> {
+    const [sequence] = await db
+      .insert(switchSequences)
+      .values(insertSequence)
+      .returning();
+    return sequence;
+  }
+
+  async getSwitchSequence(id: string): Promise<SwitchSequence | undefined> {
+    const [sequence] = await db.select().from(switchSequences).where(eq(switchSequences.id, id));
+    return sequence || undefined;
+  }
+
+  // Running and paused sequences of one event, or of every event
+  async getActiveSwitchSequences(eventId?: string): Promise<SwitchSequence[]> {
+    return await db
+      .select()
+      .from(switchSequences)
+      .where(and(
+        inArray(switchSequences.status, ["running", "paused"]),
+        eventId ? eq(switchSequences.eventId, eventId) : undefined,
+      ))
+      .orderBy(desc(switchSequences.createdAt));
+  }
+
+  // Compare-and-set on status (and position), so each step of a sequence is
+  // taken once even when several instances tick it
+  async transitionSwitchSequence(
+    id: string,
+    expected: { status: string; position?: number },
+    updates: Partial<SwitchSequence>,
+  ): Promise<SwitchSequence | undefined> {
+    const [sequence] = await db
+      .update(switchSequences)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(switchSequences.id, id),
+        eq(switchSequences.status, expected.status),
+        expected.position !== undefined ? eq(switchSequences.position, expected.position) : undefined,
+      ))
+      .returning();
+    return sequence || undefined;
+  }
+
+  // Replay Marks
+  async createReplayMark(insertMark: InsertReplayMark): Promise<ReplayMark> {
+    const [mark] = await db
+      .insert(replayMarks)
+      .values(insertMark)
+      .returning();
+    return mark;
+  }
+
+  async getReplayMark(id: string): Promise<ReplayMark | undefined> {
+    const [mark] = await db.select().from(replayMarks).where(eq(replayMarks.id, id));
+    return mark || undefined;
+  }
+
+  async getReplayMarksByEvent(eventId: string): Promise<ReplayMark[]> {
+    return await db
+      .select()
+      .from(replayMarks)
+      .where(eq(replayMarks.eventId, eventId))
+      .orderBy(asc(replayMarks.startAt));
+  }
+
+  async getReplayMarkByClipId(clipId: string): Promise<ReplayMark | undefined> {
+    const [mark] = await db.select().from(replayMarks).where(eq(replayMarks.clipId, clipId));
+    return mark || undefined;
+  }
+
+  // Only applies while the mark is still in fromStatus, so a clip that
+  // becomes ready and one that fails can't overwrite each other
+  async transitionReplayMark(id: string, fromStatus: string, updates: Partial<ReplayMark>): Promise<ReplayMark | undefined> {
+    const [mark] = await db
+      .update(replayMarks)
+      .set(updates)
+      .where(and(eq(replayMarks.id, id), eq(replayMarks.status, fromStatus)))
+      .returning();
+    return mark || undefined;
+  }
+
+  async updateReplayMark(id: string, updates: Partial<ReplayMark>): Promise<ReplayMark | undefined> {
+    const [mark] = await db
+      .update(replayMarks)
+      .set(updates)
+      .where(eq(replayMarks.id, id))
+      .returning();
+    return mark || undefined;
+  }
+
+  // Recordings
+  // Providers report the same asset several times as it is created, finishes
+  // and is resynced, so recordings are keyed by asset. Reports can arrive out
+  // of order: a late "preparing" never undoes a finished recording.
+  async upsertRecording(insertRecording: InsertRecording): Promise<Recording> {
+    const [recording] = await db
+      .insert(recordings)
+      .values(insertRecording)
+      .onConflictDoUpdate({
+        target: recordings.assetId,
+        set: {
+          status: sql`case when excluded.status = 'preparing' then ${recordings.status} else excluded.status end`,
+          playbackUrl: sql`coalesce(excluded.playback_url, ${recordings.playbackUrl})`,
+          durationSeconds: sql`coalesce(excluded.duration_seconds, ${recordings.durationSeconds})`,
+          recordedAt: sql`coalesce(excluded.recorded_at, ${recordings.recordedAt})`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return recording;
+  }
+
+  async getRecording(id: string): Promise<Recording | undefined> {
+    const [recording] = await db.select().from(recordings).where(eq(recordings.id, id));
+    return recording || undefined;
+  }
+
+  async getRecordingsByEvent(eventId: string, includeHidden = false): Promise<Recording[]> {
+    return await db
+      .select()
+      .from(recordings)
+      .where(and(
+        eq(recordings.eventId, eventId),
+        includeHidden ? undefined : eq(recordings.hidden, false),
+      ))
+      .orderBy(asc(recordings.recordedAt), asc(recordings.createdAt));
+  }
+
+  async updateRecording(id: string, updates: Partial<Recording>): Promise<Recording | undefined> {
+    const [recording] = await db
+      .update(recordings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(recordings.id, id))
+      .returning();
+    return recording || undefined;
+  }
+
+  async deleteRecording(id: string): Promise<void> {
+    await db.delete(recordings).where(eq(recordings.id, id));
+  }
+
+  // Event Markers
+  async createEventMarker(insertMarker: InsertEventMarker): Promise<EventMarker> {
+    const [marker] = await db
+      .insert(eventMarkers)
+      .values(insertMarker)
+      .returning();
+    return marker;
+  }
+
+  async getEventMarker(id: string): Promise<EventMarker | undefined> {
+    const [marker] = await db.select().from(eventMarkers).where(eq(eventMarkers.id, id));
+    return marker || undefined;
+  }
+
+  async getEventMarkersByEvent(eventId: string): Promise<EventMarker[]> {
+    return await db
+      .select()
+      .from(eventMarkers)
+      .where(eq(eventMarkers.eventId, eventId))
+      .orderBy(asc(eventMarkers.at));
+  }
+
+  async deleteEventMarker(id: string): Promise<void> {
+    await db.delete(eventMarkers).where(eq(eventMarkers.id, id));
+  }
+
+  // Highlight Reels
+  async createHighlightReel(insertReel: InsertHighlightReel): Promise<HighlightReel> {
+    const [reel] = await db
+      .insert(highlightReels)
+      .values(insertReel)
+      .returning();
+    return reel;
+  }
+
+  async getHighlightReel(id: string): Promise<HighlightReel | undefined> {
+    const [reel] = await db.select().from(highlightReels).where(eq(highlightReels.id, id));
+    return reel || undefined;
+  }
+
+  async getHighlightReelsByEvent(eventId: string): Promise<HighlightReel[]> {
+    return await db
+      .select()
+      .from(highlightReels)
+      .where(eq(highlightReels.eventId, eventId))
+      .orderBy(desc(highlightReels.createdAt));
+  }
+
+  async getHighlightReelsByStatus(statuses: string[]): Promise<HighlightReel[]> {
+    return await db
+      .select()
+      .from(highlightReels)
+      .where(inArray(highlightReels.status, statuses))
+      .orderBy(asc(highlightReels.createdAt));
+  }
+
+  // Only applies while the reel is still in fromStatus, so each reel is
+  // rendered once
+  async transitionHighlightReel(id: string, fromStatus: string, updates: Partial<HighlightReel>): Promise<HighlightReel | undefined> {
+    const [reel] = await db
+      .update(highlightReels)
+      .set(updates)
+      .where(and(eq(highlightReels.id, id), eq(highlightReels.status, fromStatus)))
+      .returning();
+    return reel || undefined;
+  }
+
+  async deleteHighlightReel(id: string): Promise<void> {
+    await db.delete(highlightReels).where(eq(highlightReels.id, id));
+  }
+
+  async addHighlightReelChunk(reelId: string, file: string, seq: number, data: Buffer): Promise<void> {
+    await db.insert(highlightReelChunks).values({ reelId, file, seq, data });
+  }
+
+  async getHighlightReelChunk(reelId: string, file: string, seq: number): Promise<Buffer | undefined> {
+    const [chunk] = await db
+      .select({ data: highlightReelChunks.data })
+      .from(highlightReelChunks)
+      .where(and(
+        eq(highlightReelChunks.reelId, reelId),
+        eq(highlightReelChunks.file, file),
+        eq(highlightReelChunks.seq, seq),
+      ));
+    return chunk?.data;
+  }
+
+  async deleteHighlightReelChunks(reelId: string): Promise<void> {
+    await db.delete(highlightReelChunks).where(eq(highlightReelChunks.reelId, reelId));
+  }
+
+  // Scoreboards
+  async getScoreboard(eventId: string): Promise<Scoreboard | undefined> {
+    const [scoreboard] = await db.select().from(scoreboards).where(eq(scoreboards.eventId, eventId));
+    return scoreboard || undefined;
+  }
+
+  // Returns the existing scoreboard when another request created it first
+  async createScoreboard(eventId: string, defaults: Partial<Scoreboard>): Promise<Scoreboard> {
+    const [created] = await db
+      .insert(scoreboards)
+      .values({ ...defaults, eventId })
+      .onConflictDoNothing()
+      .returning();
+    return created ?? (await this.getScoreboard(eventId))!;
+  }
+
+  async updateScoreboard(eventId: string, updates: Partial<Scoreboard>): Promise<Scoreboard | undefined> {
+    const [scoreboard] = await db
+      .update(scoreboards)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scoreboards.eventId, eventId))
+      .returning();
+    return scoreboard || undefined;
+  }
+
+  // Adds in SQL so concurrent scorekeepers don't overwrite each other; never below zero
+  async addScore(eventId: string, team: ScoreTeam, points: number): Promise<Scoreboard | undefined> {
+    const column = team === "home" ? scoreboards.homeScore : scoreboards.awayScore;
+    const [scoreboard] = await db
+      .update(scoreboards)
+      .set({
+        [team === "home" ? "homeScore" : "awayScore"]: sql`greatest(0, ${column} + ${points})`,
+        updatedAt: new Date(),
+      })
+      .where(eq(scoreboards.eventId, eventId))
+      .returning();
+    return scoreboard || undefined;
+  }
+
+  async createScoreChange(insertChange: InsertScoreChange): Promise<ScoreChange> {
+    const [change] = await db
+      .insert(scoreChanges)
+      .values(insertChange)
+      .returning();
+    return change;
+  }
+
+  async getScoreChangesByEvent(eventId: string): Promise<ScoreChange[]> {
+    return await db
+      .select()
+      .from(scoreChanges)
+      .where(eq(scoreChanges.eventId, eventId))
+      .orderBy(asc(scoreChanges.at));
+  }
+
   // Simulcast Targets
   async createSimulcastTarget(insertTarget: InsertSimulcastTarget): Promise<SimulcastTarget> {
     const [target] = await db
@@ -186,6 +977,23 @@ export class DatabaseStorage implements IStorage {
       .where(eq(simulcastTargets.eventId, eventId));
   }
 
+  async getSimulcastTargetByProviderId(providerTargetId: string): Promise<SimulcastTarget | undefined> {
+    const [target] = await db
+      .select()
+      .from(simulcastTargets)
+      .where(eq(simulcastTargets.muxTargetId, providerTargetId));
+    return target || undefined;
+  }
+
+  async updateSimulcastTarget(id: string, updates: Partial<SimulcastTarget>): Promise<SimulcastTarget | undefined> {
+    const [target] = await db
+      .update(simulcastTargets)
+      .set(updates)
+      .where(eq(simulcastTargets.id, id))
+      .returning();
+    return target || undefined;
+  }
+
   async deleteSimulcastTarget(id: string): Promise<boolean> {
     const result = await db.delete(simulcastTargets).where(eq(simulcastTargets.id, id));
     return (result.rowCount || 0) > 0;
@@ -200,22 +1008,142 @@ export class DatabaseStorage implements IStorage {
     return message;
   }
 
-  async getChatMessagesByEvent(eventId: string): Promise<ChatMessage[]> {
+  async getChatMessage(id: string): Promise<ChatMessage | undefined> {
+    const [message] = await db.select().from(chatMessages).where(eq(chatMessages.id, id));
+    return message;
+  }
+
+  // Newest first, hiding moderated messages unless asked. Paging is keyed on (createdAt, id)
+  // so messages sent in the same instant are neither repeated nor skipped
+  async getChatMessagesByEvent(eventId: string, limit: number, before?: ChatMessage, includeHidden = false): Promise<ChatMessage[]> {
+    const conditions = [eq(chatMessages.eventId, eventId)];
+    if (!includeHidden) {
+      conditions.push(eq(chatMessages.isModerated, false));
+    }
+    if (before?.createdAt) {
+      conditions.push(or(
+        lt(chatMessages.createdAt, before.createdAt),
+        and(eq(chatMessages.createdAt, before.createdAt), lt(chatMessages.id, before.id)),
+      )!);
+    }
+
     return await db
       .select()
       .from(chatMessages)
-      .where(eq(chatMessages.eventId, eventId))
-      .orderBy(desc(chatMessages.createdAt));
+      .where(and(...conditions))
+      .orderBy(desc(chatMessages.createdAt), desc(chatMessages.id))
+      .limit(limit);
   }
 
-  async moderateChatMessage(id: string, moderatorId: string): Promise<boolean> {
-    const result = await db
+  async getLatestChatMessageByAuthor(eventId: string, authorKey: string): Promise<ChatMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(chatMessages)
+      .where(and(eq(chatMessages.eventId, eventId), eq(chatMessages.authorKey, authorKey)))
+      .orderBy(desc(chatMessages.createdAt))
+      .limit(1);
+    return message;
+  }
+
+  // Hides a message, or restores it when hidden is false
+  async moderateChatMessage(id: string, moderatorId: string, hidden = true): Promise<ChatMessage | undefined> {
+    const [message] = await db
       .update(chatMessages)
       .set({
-        isModerated: true,
-        moderatedBy: moderatorId,
+        isModerated: hidden,
+        moderatedBy: hidden ? moderatorId : null,
+      })
+      .where(eq(chatMessages.id, id))
+      .returning();
+    return message;
+  }
+
+  // Chat Moderation
+  async getChatSettings(eventId: string): Promise<ChatSettings | undefined> {
+    const [settings] = await db.select().from(chatSettings).where(eq(chatSettings.eventId, eventId));
+    return settings;
+  }
+
+  async upsertChatSettings(eventId: string, updates: UpdateChatSettingsData): Promise<ChatSettings> {
+    const [settings] = await db
+      .insert(chatSettings)
+      .values({ eventId, ...updates })
+      .onConflictDoUpdate({
+        target: chatSettings.eventId,
+        set: { ...updates, updatedAt: new Date() },
       })
-      .where(eq(chatMessages.id, id));
+      .returning();
+    return settings;
+  }
+
+  async createChatBan(ban: InsertChatBan): Promise<ChatBan> {
+    const [created] = await db.insert(chatBans).values(ban).returning();
+    return created;
+  }
+
+  async getChatBan(id: string): Promise<ChatBan | undefined> {
+    const [ban] = await db.select().from(chatBans).where(eq(chatBans.id, id));
+    return ban;
+  }
+
+  // Bans outrank timeouts, and longer timeouts outrank shorter ones
+  async getActiveChatBan(eventId: string, authorKey: string): Promise<ChatBan | undefined> {
+    const [ban] = await db
+      .select()
+      .from(chatBans)
+      .where(and(
+        eq(chatBans.eventId, eventId),
+        eq(chatBans.authorKey, authorKey),
+        or(isNull(chatBans.expiresAt), gt(chatBans.expiresAt, new Date())),
+      ))
+      .orderBy(sql`${chatBans.expiresAt} desc nulls first`)
+      .limit(1);
+    return ban;
+  }
+
+  async getActiveChatBansByEvent(eventId: string): Promise<ChatBan[]> {
+    return await db
+      .select()
+      .from(chatBans)
+      .where(and(
+        eq(chatBans.eventId, eventId),
+        or(isNull(chatBans.expiresAt), gt(chatBans.expiresAt, new Date())),
+      ))
+      .orderBy(desc(chatBans.createdAt));
+  }
+
+  async deleteChatBan(id: string): Promise<boolean> {
+    const result = await db.delete(chatBans).where(eq(chatBans.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async createChatModerationLog(log: InsertChatModerationLog): Promise<ChatModerationLog> {
+    const [created] = await db.insert(chatModerationLogs).values(log).returning();
+    return created;
+  }
+
+  async getChatModerationLogsByEvent(eventId: string, limit: number): Promise<ChatModerationLog[]> {
+    return await db
+      .select()
+      .from(chatModerationLogs)
+      .where(eq(chatModerationLogs.eventId, eventId))
+      .orderBy(desc(chatModerationLogs.createdAt))
+      .limit(limit);
+  }
+
+  // Webhook Events
+  async recordWebhookEvent(id: string, provider: string, type: string): Promise<boolean> {
+    // Returns false when the delivery was already recorded, i.e. it is a replay
+    const inserted = await db
+      .insert(webhookEvents)
+      .values({ id, provider, type })
+      .onConflictDoNothing()
+      .returning();
+    return inserted.length > 0;
+  }
+
+  async deleteWebhookEvent(id: string): Promise<boolean> {
+    const result = await db.delete(webhookEvents).where(eq(webhookEvents.id, id));
     return (result.rowCount || 0) > 0;
   }
 }
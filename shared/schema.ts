@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, json, index, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, json, index, jsonb, primaryKey, customType } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -42,19 +42,42 @@ export const events = pgTable("events", {
   muxStreamId: text("mux_stream_id"),
   playbackId: text("playback_id"),
   ingestUrl: text("ingest_url"),
+  streamKey: text("stream_key"), // Program output is pushed here
   
   // Event ownership and permissions (nullable initially for migration)
   organizerId: text("organizer_id").references(() => users.id, { onDelete: "cascade" }),
   isPublic: boolean("is_public").default(true),
   maxCameras: integer("max_cameras").default(9),
   
-  status: text("status").notNull().default("idle"), // idle, live, ended
+  status: text("status").notNull().default("idle"), // idle, live, disconnected, ended
   activeCamera: text("active_camera"),
-  viewerCount: integer("viewer_count").default(0),
+  backupCameraId: text("backup_camera_id"), // Cut to when the active camera goes offline
+  autoFallback: boolean("auto_fallback").default(false),
+  viewerCount: integer("viewer_count").default(0), // Concurrent viewers right now
+  peakViewerCount: integer("peak_viewer_count").default(0),
+  startedAt: timestamp("started_at"), // When the broadcast first went live
+  endedAt: timestamp("ended_at"),
   createdAt: timestamp("created_at").default(sql`now()`),
   updatedAt: timestamp("updated_at").default(sql`now()`),
 });
 
+// Collaborators invited onto an event by its organizer
+export const eventMembers = pgTable("event_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }), // Set once the invitee accepts
+  email: varchar("email", { length: 255 }).notNull(),
+  role: text("role").notNull(), // director, producer, moderator, camera_operator, scorekeeper
+  status: text("status").notNull().default("pending"), // pending, accepted, declined, revoked
+  inviteToken: text("invite_token").notNull().unique(),
+  invitedBy: text("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  respondedAt: timestamp("responded_at"),
+}, (table) => [
+  index("IDX_event_members_event").on(table.eventId),
+  index("IDX_event_members_user").on(table.userId),
+]);
+
 export const cameras = pgTable("cameras", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
@@ -62,6 +85,9 @@ export const cameras = pgTable("cameras", {
   label: text("label").notNull(),
   streamKey: text("stream_key").notNull(),
   rtmpUrl: text("rtmp_url").notNull(),
+  muxStreamId: text("mux_stream_id"), // Each camera owns its own Mux ingest
+  playbackId: text("playback_id"),
+  accessToken: text("access_token"), // Proves an anonymous phone owns this camera
   isLive: boolean("is_live").default(false),
   thumbnailUrl: text("thumbnail_url"),
   quality: text("quality").default("720p"),
@@ -69,15 +95,212 @@ export const cameras = pgTable("cameras", {
   deviceInfo: json("device_info"), // Mobile device info
   joinedAt: timestamp("joined_at").default(sql`now()`),
   lastActiveAt: timestamp("last_active_at").default(sql`now()`),
+  // Kicked or replaced cameras are kept, with their cut history, but leave the event
+  removedAt: timestamp("removed_at"),
 });
 
+// Director-issued QR invitations that let a phone register a camera without an account
+export const cameraInvites = pgTable("camera_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  label: text("label"), // Pre-assigned camera label, e.g. "End Zone"
+  slotId: text("slot_id").references(() => cameraSlots.id, { onDelete: "set null" }), // Slot the joining camera fills
+  maxUses: integer("max_uses").notNull().default(1),
+  uses: integer("uses").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => [
+  index("IDX_camera_invites_event").on(table.eventId),
+]);
+
+// Named positions a director reserves for cameras; empty slots hold capacity under maxCameras
+export const cameraSlots = pgTable("camera_slots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  label: text("label").notNull(),
+  position: integer("position").notNull().default(0),
+  cameraId: text("camera_id").references(() => cameras.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => [
+  index("IDX_camera_slots_event").on(table.eventId),
+]);
+
 export const switchLogs = pgTable("switch_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
   cameraId: text("camera_id").notNull().references(() => cameras.id, { onDelete: "cascade" }),
+  source: text("source").notNull().default("manual"), // manual, fallback, scheduled, sequence
   switchedAt: timestamp("switched_at").default(sql`now()`),
 });
 
+// Cuts a director queued to happen at a set time
+export const scheduledSwitches = pgTable("scheduled_switches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  cameraId: text("camera_id").notNull().references(() => cameras.id, { onDelete: "cascade" }),
+  executeAt: timestamp("execute_at").notNull(),
+  status: text("status").notNull().default("pending"), // pending, executed, cancelled, failed
+  failureReason: text("failure_reason"),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  executedAt: timestamp("executed_at"),
+}, (table) => [
+  index("IDX_scheduled_switches_event").on(table.eventId, table.status),
+]);
+
+// Camera rotations the server cuts through on a fixed interval
+export const switchSequences = pgTable("switch_sequences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  cameraIds: jsonb("camera_ids").$type<string[]>().notNull(),
+  intervalSeconds: integer("interval_seconds").notNull(),
+  status: text("status").notNull().default("running"), // running, paused, cancelled
+  position: integer("position").notNull().default(0), // Index into cameraIds of the camera on air
+  pausedReason: text("paused_reason"),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  updatedAt: timestamp("updated_at").default(sql`now()`),
+}, (table) => [
+  index("IDX_switch_sequences_event").on(table.eventId, table.status),
+]);
+
+// Moments the director marked for instant replay, clipped from the camera
+// that was on air
+export const replayMarks = pgTable("replay_marks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  cameraId: text("camera_id").references(() => cameras.id, { onDelete: "set null" }),
+  cameraLabel: text("camera_label").notNull(), // Kept so the mark still reads after the camera leaves
+  label: text("label"),
+  startAt: timestamp("start_at").notNull(),
+  endAt: timestamp("end_at").notNull(),
+  status: text("status").notNull().default("preparing"), // preparing, ready, failed
+  clipId: text("clip_id"), // Provider's identifier for the clip, e.g. a Mux asset
+  playbackUrl: text("playback_url"),
+  failureReason: text("failure_reason"),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  lastRolledAt: timestamp("last_rolled_at"),
+}, (table) => [
+  index("IDX_replay_marks_event").on(table.eventId, table.startAt),
+  index("IDX_replay_marks_clip").on(table.clipId),
+]);
+
+// Recordings the streaming provider made of the event's program and of each
+// camera's own stream
+export const recordings = pgTable("recordings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  cameraId: text("camera_id").references(() => cameras.id, { onDelete: "set null" }), // Null for the program
+  cameraLabel: text("camera_label"),
+  assetId: text("asset_id").notNull().unique(), // Provider's identifier, e.g. a Mux asset
+  status: text("status").notNull().default("preparing"), // preparing, ready, errored
+  playbackUrl: text("playback_url"),
+  durationSeconds: integer("duration_seconds"),
+  hidden: boolean("hidden").notNull().default(false), // Hidden recordings are only listed to organizers
+  recordedAt: timestamp("recorded_at"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  updatedAt: timestamp("updated_at").default(sql`now()`),
+}, (table) => [
+  index("IDX_recordings_event").on(table.eventId),
+]);
+
+// Moments a director placed on the event timeline: scores, timeouts, breaks
+export const eventMarkers = pgTable("event_markers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // See markerKinds
+  label: text("label"),
+  at: timestamp("at").notNull(),
+  // Seconds either side of the moment that make its highlight
+  leadSeconds: integer("lead_seconds").notNull().default(15),
+  trailSeconds: integer("trail_seconds").notNull().default(5),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => [
+  index("IDX_event_markers_event").on(table.eventId, table.at),
+]);
+
+// One segment of a highlight reel, cut from a program recording
+export interface HighlightSegment {
+  markerId: string;
+  title: string;
+  sourceUrl: string;
+  offsetSeconds: number;
+  durationSeconds: number;
+}
+
+const bytea = customType<{ data: Buffer }>({
+  dataType: () => "bytea",
+});
+
+// Highlight reels rendered from the event's marked moments: one clip per
+// segment plus the clips joined into a single video
+export const highlightReels = pgTable("highlight_reels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  segments: jsonb("segments").$type<HighlightSegment[]>().notNull(),
+  status: text("status").notNull().default("queued"), // queued, rendering, ready, failed
+  failureReason: text("failure_reason"),
+  renderedBy: text("rendered_by"), // Server instance rendering the reel
+  heartbeatAt: timestamp("heartbeat_at"), // Refreshed by that instance while it renders
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("IDX_highlight_reels_event").on(table.eventId),
+]);
+
+// Rendered reel files, stored in the database in order so any instance can
+// serve them. `file` is reel.mp4 or clip-<n>.mp4.
+export const highlightReelChunks = pgTable("highlight_reel_chunks", {
+  reelId: text("reel_id").notNull().references(() => highlightReels.id, { onDelete: "cascade" }),
+  file: text("file").notNull(),
+  seq: integer("seq").notNull(),
+  data: bytea("data").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.reelId, table.file, table.seq] }),
+]);
+
+// On-screen scoreboard of an event. Clocks are stored as their value when
+// last started, stopped or set plus when they started running, so every
+// reader derives the same running time.
+export const scoreboards = pgTable("scoreboards", {
+  eventId: text("event_id").primaryKey().references(() => events.id, { onDelete: "cascade" }),
+  homeName: text("home_name").notNull().default("Home"),
+  awayName: text("away_name").notNull().default("Away"),
+  homeColor: text("home_color").notNull().default("#2563eb"),
+  awayColor: text("away_color").notNull().default("#dc2626"),
+  homeScore: integer("home_score").notNull().default(0),
+  awayScore: integer("away_score").notNull().default(0),
+  period: integer("period").notNull().default(1),
+  visible: boolean("visible").notNull().default(false), // Shown over the viewer's player
+  clockMs: integer("clock_ms").notNull().default(0),
+  clockStartedAt: timestamp("clock_started_at"), // Null while stopped
+  shotClockMs: integer("shot_clock_ms"), // Null for sports without one
+  shotClockStartedAt: timestamp("shot_clock_started_at"),
+  updatedAt: timestamp("updated_at").default(sql`now()`),
+});
+
+// Every score change, with the wall-clock time it happened so it can be
+// lined up with the recordings afterwards
+export const scoreChanges = pgTable("score_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  team: text("team").notNull(), // home, away
+  points: integer("points").notNull(), // Negative for corrections
+  homeScore: integer("home_score").notNull(),
+  awayScore: integer("away_score").notNull(),
+  period: integer("period").notNull(),
+  clockMs: integer("clock_ms"), // Game clock when it happened
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  at: timestamp("at").notNull().default(sql`now()`),
+}, (table) => [
+  index("IDX_score_changes_event").on(table.eventId, table.at),
+]);
+
 export const simulcastTargets = pgTable("simulcast_targets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
@@ -96,14 +319,77 @@ export const chatMessages = pgTable("chat_messages", {
   userId: text("user_id").references(() => users.id, { onDelete: "set null" }),
   username: text("username").notNull(),
   message: text("message").notNull(),
+  // Who sent it, for bans and slow mode: "user:<id>" or "guest:<browser id>"
+  authorKey: text("author_key"),
   isModerated: boolean("is_moderated").default(false),
   moderatedBy: text("moderated_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => [
+  index("IDX_chat_messages_event_created").on(table.eventId, table.createdAt),
+  index("IDX_chat_messages_author").on(table.eventId, table.authorKey),
+]);
+
+// Per-event chat rules set by moderators
+export const chatSettings = pgTable("chat_settings", {
+  eventId: text("event_id").primaryKey().references(() => events.id, { onDelete: "cascade" }),
+  slowModeSeconds: integer("slow_mode_seconds").notNull().default(0),
+  registeredOnly: boolean("registered_only").notNull().default(false),
+  blockedWords: jsonb("blocked_words").$type<string[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at").default(sql`now()`),
+});
+
+// Timeouts (expiresAt set) and bans (expiresAt null) of a chat author
+export const chatBans = pgTable("chat_bans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  authorKey: text("author_key").notNull(),
+  username: text("username").notNull(),
+  reason: text("reason"),
+  expiresAt: timestamp("expires_at"),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => [
+  index("IDX_chat_bans_event_author").on(table.eventId, table.authorKey),
+]);
+
+// Audit trail of every moderation action
+export const chatModerationLogs = pgTable("chat_moderation_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  moderatorId: text("moderator_id").references(() => users.id, { onDelete: "set null" }),
+  action: text("action").notNull(), // hide, unhide, timeout, ban, unban, settings
+  messageId: text("message_id").references(() => chatMessages.id, { onDelete: "set null" }),
+  targetUsername: text("target_username"),
+  details: text("details"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => [
+  index("IDX_chat_moderation_logs_event").on(table.eventId, table.createdAt),
+]);
+
+// Viewers each server instance has connected to an event. The event's
+// viewerCount is the sum of these rows; instances refresh theirs while they
+// run, and rows that stop being refreshed are dropped.
+export const viewerPresence = pgTable("viewer_presence", {
+  eventId: text("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  instanceId: text("instance_id").notNull(),
+  count: integer("count").notNull(),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  primaryKey({ columns: [table.eventId, table.instanceId] }),
+]);
+
+// Processed webhook deliveries, keyed by the provider's event ID so replays are ignored
+export const webhookEvents = pgTable("webhook_events", {
+  id: varchar("id").primaryKey(),
+  provider: text("provider").notNull(),
+  type: text("type").notNull(),
+  receivedAt: timestamp("received_at").default(sql`now()`),
 });
 
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   events: many(events),
+  memberships: many(eventMembers),
   cameras: many(cameras),
   chatMessages: many(chatMessages),
 }));
@@ -113,12 +399,44 @@ export const eventsRelations = relations(events, ({ one, many }) => ({
     fields: [events.organizerId],
     references: [users.id],
   }),
+  members: many(eventMembers),
   cameras: many(cameras),
+  cameraInvites: many(cameraInvites),
+  cameraSlots: many(cameraSlots),
   switchLogs: many(switchLogs),
   simulcastTargets: many(simulcastTargets),
   chatMessages: many(chatMessages),
 }));
 
+export const eventMembersRelations = relations(eventMembers, ({ one }) => ({
+  event: one(events, {
+    fields: [eventMembers.eventId],
+    references: [events.id],
+  }),
+  user: one(users, {
+    fields: [eventMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const cameraInvitesRelations = relations(cameraInvites, ({ one }) => ({
+  event: one(events, {
+    fields: [cameraInvites.eventId],
+    references: [events.id],
+  }),
+}));
+
+export const cameraSlotsRelations = relations(cameraSlots, ({ one }) => ({
+  event: one(events, {
+    fields: [cameraSlots.eventId],
+    references: [events.id],
+  }),
+  camera: one(cameras, {
+    fields: [cameraSlots.cameraId],
+    references: [cameras.id],
+  }),
+}));
+
 export const camerasRelations = relations(cameras, ({ one, many }) => ({
   event: one(events, {
     fields: [cameras.eventId],
@@ -178,13 +496,40 @@ export const insertEventSchema = createInsertSchema(events).omit({
   muxStreamId: true,
   playbackId: true,
   ingestUrl: true,
+  streamKey: true,
   status: true,
   activeCamera: true,
+  backupCameraId: true,
+  autoFallback: true,
   viewerCount: true,
+  peakViewerCount: true,
+  startedAt: true,
+  endedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertEventMemberSchema = createInsertSchema(eventMembers).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  respondedAt: true,
+});
+
+export const memberRoles = ["director", "producer", "moderator", "camera_operator", "scorekeeper"] as const;
+
+export const inviteMemberSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.enum(memberRoles),
+});
+
+// Capture resolution and encode bitrate for each camera quality option
+export const cameraQualityProfiles = {
+  "480p": { width: 854, height: 480, videoBitrate: "1000k" },
+  "720p": { width: 1280, height: 720, videoBitrate: "2500k" },
+  "1080p": { width: 1920, height: 1080, videoBitrate: "4500k" },
+} as const;
+
 export const insertCameraSchema = createInsertSchema(cameras).omit({
   id: true,
   isLive: true,
@@ -193,18 +538,283 @@ export const insertCameraSchema = createInsertSchema(cameras).omit({
   lastActiveAt: true,
 });
 
-export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
+export const insertCameraInviteSchema = createInsertSchema(cameraInvites).omit({
+  id: true,
+  uses: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const createCameraInviteSchema = z.object({
+  label: z.string().trim().max(50).optional(),
+  slotId: z.string().optional(),
+  maxUses: z.number().int().min(1).max(20).default(1),
+  expiresInMinutes: z.number().int().min(5).max(24 * 60).default(60),
+});
+
+export const insertCameraSlotSchema = createInsertSchema(cameraSlots).omit({
+  id: true,
+  cameraId: true,
+  createdAt: true,
+});
+
+export const cameraSlotLabelSchema = z.object({
+  label: z.string().trim().min(1, "Slot label is required").max(50),
+});
+
+export const reorderCameraSlotsSchema = z.object({
+  slotIds: z.array(z.string()).min(1),
+});
+
+export const backupCameraSchema = z.object({
+  cameraId: z.string().nullable(),
+  autoFallback: z.boolean(),
+});
+
+export const cameraHeartbeatSchema = z.object({
+  isLive: z.boolean().optional(),
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages, {
+  username: (schema) => schema.trim().min(1, "Name is required").max(32, "Name is too long"),
+  message: (schema) => schema.trim().min(1, "Message is empty").max(500, "Message is too long"),
+}).omit({
   id: true,
   isModerated: true,
   moderatedBy: true,
   createdAt: true,
 });
 
+export const chatHistoryQuerySchema = z.object({
+  before: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  // Moderators only: include hidden messages
+  includeHidden: z.enum(["true", "false"]).optional().transform((value) => value === "true"),
+});
+
+export const insertChatBanSchema = createInsertSchema(chatBans).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertChatModerationLogSchema = createInsertSchema(chatModerationLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const chatModerationActions = ["hide", "unhide", "timeout", "ban", "unban", "settings"] as const;
+
+export const updateChatSettingsSchema = z.object({
+  slowModeSeconds: z.number().int().min(0).max(300).optional(),
+  registeredOnly: z.boolean().optional(),
+  blockedWords: z.array(z.string().trim().min(1).max(50)).max(200).optional(),
+});
+
+export const chatBanSchema = z.object({
+  messageId: z.string(),
+  // Omit for a ban that lasts until lifted
+  durationMinutes: z.number().int().min(1).max(1440).optional(),
+  reason: z.string().trim().max(200).optional(),
+});
+
 export const insertSwitchLogSchema = createInsertSchema(switchLogs).omit({
   id: true,
   switchedAt: true,
 });
 
+export const insertScheduledSwitchSchema = createInsertSchema(scheduledSwitches).omit({
+  id: true,
+  status: true,
+  failureReason: true,
+  createdAt: true,
+  executedAt: true,
+});
+
+// Queue a cut either for a set time or a number of seconds from now
+export const scheduleSwitchSchema = z.object({
+  cameraId: z.string(),
+  executeAt: z.coerce.date().optional(),
+  delaySeconds: z.number().int().min(1).max(24 * 60 * 60).optional(),
+}).refine((data) => (data.executeAt === undefined) !== (data.delaySeconds === undefined), {
+  message: "Give either executeAt or delaySeconds",
+  path: ["executeAt"],
+});
+
+export const insertSwitchSequenceSchema = createInsertSchema(switchSequences, {
+  cameraIds: z.array(z.string()),
+}).omit({
+  id: true,
+  status: true,
+  position: true,
+  pausedReason: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const createSwitchSequenceSchema = z.object({
+  cameraIds: z.array(z.string()).min(2, "A sequence needs at least two cameras").max(20),
+  intervalSeconds: z.number().int().min(5).max(600),
+});
+
+export const insertReplayMarkSchema = createInsertSchema(replayMarks).omit({
+  id: true,
+  status: true,
+  clipId: true,
+  playbackUrl: true,
+  failureReason: true,
+  createdAt: true,
+  lastRolledAt: true,
+});
+
+// Marks the last `seconds` of the camera on air
+export const markReplaySchema = z.object({
+  seconds: z.number().int().min(3).max(120).default(10),
+  label: z.string().trim().max(100).optional(),
+});
+
+export const insertRecordingSchema = createInsertSchema(recordings).omit({
+  id: true,
+  hidden: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const recordingsQuerySchema = z.object({
+  // Organizers only: include hidden recordings
+  includeHidden: z.enum(["true", "false"]).optional().transform((value) => value === "true"),
+});
+
+export const updateRecordingSchema = z.object({
+  hidden: z.boolean(),
+});
+
+// Moments a director can mark; scoring moments make the highlight reel
+export const markerKinds = {
+  goal: { label: "Goal", highlight: true },
+  touchdown: { label: "Touchdown", highlight: true },
+  score: { label: "Score", highlight: true },
+  highlight: { label: "Highlight", highlight: true },
+  timeout: { label: "Timeout", highlight: false },
+  period: { label: "Period break", highlight: false },
+} as const;
+
+export type MarkerKind = keyof typeof markerKinds;
+
+// The marker buttons offered for each sport
+export const sportMarkerKinds: Record<string, MarkerKind[]> = {
+  football: ["touchdown", "score", "highlight", "timeout", "period"],
+  basketball: ["score", "highlight", "timeout", "period"],
+  soccer: ["goal", "highlight", "period"],
+  baseball: ["score", "highlight", "period"],
+  volleyball: ["score", "highlight", "timeout", "period"],
+};
+
+export const insertEventMarkerSchema = createInsertSchema(eventMarkers).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Markers default to now; a time can be given to mark a moment afterwards
+export const createEventMarkerSchema = z.object({
+  kind: z.enum(Object.keys(markerKinds) as [MarkerKind, ...MarkerKind[]]),
+  label: z.string().trim().max(100).optional(),
+  at: z.coerce.date().optional(),
+  leadSeconds: z.number().int().min(0).max(120).optional(),
+  trailSeconds: z.number().int().min(0).max(120).optional(),
+});
+
+export const insertHighlightReelSchema = createInsertSchema(highlightReels, {
+  segments: z.array(z.object({
+    markerId: z.string(),
+    title: z.string(),
+    sourceUrl: z.string(),
+    offsetSeconds: z.number(),
+    durationSeconds: z.number(),
+  })),
+}).omit({
+  id: true,
+  status: true,
+  failureReason: true,
+  renderedBy: true,
+  heartbeatAt: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const chaptersQuerySchema = z.object({
+  format: z.enum(["json", "vtt"]).default("json"),
+});
+
+// How each sport keeps time and score
+export interface ScoreboardPreset {
+  periodLabel: string;
+  periods: number;
+  // Whether the game clock counts down from periodSeconds, up from zero, or isn't used
+  clock: "down" | "up" | "none";
+  periodSeconds: number;
+  shotClockSeconds: number | null;
+  scoreButtons: number[];
+}
+
+export const defaultScoreboardPreset: ScoreboardPreset = {
+  periodLabel: "Period",
+  periods: 4,
+  clock: "up",
+  periodSeconds: 0,
+  shotClockSeconds: null,
+  scoreButtons: [1],
+};
+
+export const scoreboardPresets: Record<string, ScoreboardPreset> = {
+  football: { periodLabel: "Quarter", periods: 4, clock: "down", periodSeconds: 15 * 60, shotClockSeconds: 40, scoreButtons: [1, 2, 3, 6] },
+  basketball: { periodLabel: "Quarter", periods: 4, clock: "down", periodSeconds: 10 * 60, shotClockSeconds: 24, scoreButtons: [1, 2, 3] },
+  soccer: { periodLabel: "Half", periods: 2, clock: "up", periodSeconds: 0, shotClockSeconds: null, scoreButtons: [1] },
+  baseball: { periodLabel: "Inning", periods: 9, clock: "none", periodSeconds: 0, shotClockSeconds: null, scoreButtons: [1] },
+  volleyball: { periodLabel: "Set", periods: 5, clock: "none", periodSeconds: 0, shotClockSeconds: null, scoreButtons: [1] },
+};
+
+export function getScoreboardPreset(sportType: string): ScoreboardPreset {
+  return scoreboardPresets[sportType] ?? defaultScoreboardPreset;
+}
+
+const teamColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex value like #2563eb");
+
+export const updateScoreboardSchema = z.object({
+  homeName: z.string().trim().min(1).max(40).optional(),
+  awayName: z.string().trim().min(1).max(40).optional(),
+  homeColor: teamColor.optional(),
+  awayColor: teamColor.optional(),
+  period: z.number().int().min(1).max(99).optional(),
+  visible: z.boolean().optional(),
+});
+
+export const scoreTeams = ["home", "away"] as const;
+
+// Points added to a team; negative to correct a mistake
+export const addScoreSchema = z.object({
+  team: z.enum(scoreTeams),
+  points: z.number().int().min(-10).max(10).refine((points) => points !== 0, "Points can't be zero"),
+});
+
+// reset puts a clock back to the sport's starting value
+export const scoreboardClockSchema = z.object({
+  clock: z.enum(["game", "shot"]).default("game"),
+  action: z.enum(["start", "stop", "set", "reset"]),
+  seconds: z.number().min(0).max(24 * 60 * 60).optional(),
+}).refine((data) => data.action !== "set" || data.seconds !== undefined, {
+  message: "Seconds are required to set a clock",
+  path: ["seconds"],
+});
+
+export const insertScoreChangeSchema = createInsertSchema(scoreChanges).omit({
+  id: true,
+  at: true,
+});
+
+export const reportExportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+});
+
 export const insertSimulcastTargetSchema = createInsertSchema(simulcastTargets).omit({
   id: true,
   status: true,
@@ -249,11 +859,54 @@ export type LoginData = z.infer<typeof loginSchema>;
 export type RegisterData = z.infer<typeof registerSchema>;
 export type Event = typeof events.$inferSelect;
 export type InsertEvent = z.infer<typeof insertEventSchema>;
+export type EventMember = typeof eventMembers.$inferSelect;
+export type InsertEventMember = z.infer<typeof insertEventMemberSchema>;
+export type MemberRole = typeof memberRoles[number];
+export type InviteMemberData = z.infer<typeof inviteMemberSchema>;
 export type Camera = typeof cameras.$inferSelect;
+export type CameraQuality = keyof typeof cameraQualityProfiles;
 export type InsertCamera = z.infer<typeof insertCameraSchema>;
+export type CameraInvite = typeof cameraInvites.$inferSelect;
+export type InsertCameraInvite = z.infer<typeof insertCameraInviteSchema>;
+export type CreateCameraInviteData = z.infer<typeof createCameraInviteSchema>;
+export type CameraSlot = typeof cameraSlots.$inferSelect;
+export type InsertCameraSlot = z.infer<typeof insertCameraSlotSchema>;
 export type SwitchLog = typeof switchLogs.$inferSelect;
 export type InsertSwitchLog = z.infer<typeof insertSwitchLogSchema>;
+export type ScheduledSwitch = typeof scheduledSwitches.$inferSelect;
+export type InsertScheduledSwitch = z.infer<typeof insertScheduledSwitchSchema>;
+export type ScheduleSwitchData = z.infer<typeof scheduleSwitchSchema>;
+export type SwitchSequence = typeof switchSequences.$inferSelect;
+export type InsertSwitchSequence = z.infer<typeof insertSwitchSequenceSchema>;
+export type CreateSwitchSequenceData = z.infer<typeof createSwitchSequenceSchema>;
+export type ReplayMark = typeof replayMarks.$inferSelect;
+export type InsertReplayMark = z.infer<typeof insertReplayMarkSchema>;
+export type MarkReplayData = z.infer<typeof markReplaySchema>;
+export type Recording = typeof recordings.$inferSelect;
+export type InsertRecording = z.infer<typeof insertRecordingSchema>;
+export type EventMarker = typeof eventMarkers.$inferSelect;
+export type InsertEventMarker = z.infer<typeof insertEventMarkerSchema>;
+export type CreateEventMarkerData = z.infer<typeof createEventMarkerSchema>;
+export type HighlightReel = typeof highlightReels.$inferSelect;
+export type InsertHighlightReel = z.infer<typeof insertHighlightReelSchema>;
+export type Scoreboard = typeof scoreboards.$inferSelect;
+export type UpdateScoreboardData = z.infer<typeof updateScoreboardSchema>;
+export type AddScoreData = z.infer<typeof addScoreSchema>;
+export type ScoreboardClockData = z.infer<typeof scoreboardClockSchema>;
+export type ScoreTeam = typeof scoreTeams[number];
+export type ScoreChange = typeof scoreChanges.$inferSelect;
+export type InsertScoreChange = z.infer<typeof insertScoreChangeSchema>;
 export type SimulcastTarget = typeof simulcastTargets.$inferSelect;
 export type InsertSimulcastTarget = z.infer<typeof insertSimulcastTargetSchema>;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type ViewerPresence = typeof viewerPresence.$inferSelect;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type ChatSettings = typeof chatSettings.$inferSelect;
+export type UpdateChatSettingsData = z.infer<typeof updateChatSettingsSchema>;
+export type ChatBan = typeof chatBans.$inferSelect;
+export type InsertChatBan = z.infer<typeof insertChatBanSchema>;
+export type ChatBanData = z.infer<typeof chatBanSchema>;
+export type ChatModerationLog = typeof chatModerationLogs.$inferSelect;
+export type InsertChatModerationLog = z.infer<typeof insertChatModerationLogSchema>;
+export type ChatModerationAction = typeof chatModerationActions[number];
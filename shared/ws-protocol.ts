@@ -0,0 +1,266 @@
+import { z } from "zod";
+
+// Version of the /ws protocol. Bump it on breaking changes and raise
+// WS_MIN_PROTOCOL_VERSION once old clients can no longer be served.
+export const WS_PROTOCOL_VERSION = 1;
+export const WS_MIN_PROTOCOL_VERSION = 1;
+
+// Close code for clients whose protocol version is no longer supported
+export const WS_CLOSE_UPGRADE_REQUIRED = 4426;
+
+// Client → server
+
+export const helloMessageSchema = z.object({
+  type: z.literal("hello"),
+  version: z.number().int(),
+});
+
+export const joinEventMessageSchema = z.object({
+  type: z.literal("join_event"),
+  eventId: z.string(),
+  // Browser ID, so a viewer with several tabs open is counted once
+  clientId: z.string().optional(),
+  // Camera phones pass their camera token so they hear about their own camera
+  cameraToken: z.string().optional(),
+  // From the last JOINED and room message seen; a reconnecting client gets
+  // the room messages it missed replayed instead of refetching everything
+  resume: z.object({
+    epoch: z.string(),
+    seq: z.number().int(),
+  }).optional(),
+});
+
+export const leaveEventMessageSchema = z.object({
+  type: z.literal("leave_event"),
+  eventId: z.string(),
+});
+
+export const chatSendMessageSchema = z.object({
+  type: z.literal("chat_send"),
+  username: z.string(),
+  message: z.string(),
+});
+
+export const switchCameraMessageSchema = z.object({
+  type: z.literal("switch_camera"),
+  cameraId: z.string(),
+});
+
+export const chatModerationMessageSchema = z.object({
+  type: z.enum(["chat_hide", "chat_unhide"]),
+  messageId: z.string(),
+});
+
+export const clientMessageSchema = z.union([
+  helloMessageSchema,
+  joinEventMessageSchema,
+  leaveEventMessageSchema,
+  chatSendMessageSchema,
+  switchCameraMessageSchema,
+  chatModerationMessageSchema,
+]);
+
+// Server → client
+
+// Chat messages as they go over the wire: the author key stays on the server
+export const chatMessagePayloadSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  userId: z.string().nullable(),
+  username: z.string(),
+  message: z.string(),
+  isModerated: z.boolean().nullable(),
+  moderatedBy: z.string().nullable(),
+  createdAt: z.string().nullable(),
+});
+
+// Cameras as the event page lists them: ingest credentials stay on the server
+export const cameraPayloadSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  operatorId: z.string().nullable(),
+  label: z.string(),
+  muxStreamId: z.string().nullable(),
+  playbackId: z.string().nullable(),
+  isLive: z.boolean().nullable(),
+  thumbnailUrl: z.string().nullable(),
+  quality: z.string().nullable(),
+  operatorName: z.string().nullable(),
+  deviceInfo: z.unknown(),
+  joinedAt: z.string().nullable(),
+  lastActiveAt: z.string().nullable(),
+});
+
+// A scoreboard clock as of when the message was sent; running clocks are
+// advanced locally from the moment the message arrives
+export const scoreboardClockPayloadSchema = z.object({
+  seconds: z.number(),
+  running: z.boolean(),
+});
+
+export const scoreboardPayloadSchema = z.object({
+  eventId: z.string(),
+  homeName: z.string(),
+  awayName: z.string(),
+  homeColor: z.string(),
+  awayColor: z.string(),
+  homeScore: z.number(),
+  awayScore: z.number(),
+  period: z.number(),
+  visible: z.boolean(),
+  clock: scoreboardClockPayloadSchema,
+  shotClock: scoreboardClockPayloadSchema.nullable(),
+});
+
+// Room broadcasts carry the room's sequence number, for resuming
+const timestamped = { timestamp: z.string(), seq: z.number().int().optional() };
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("WELCOME"),
+    version: z.number(),
+    minVersion: z.number(),
+  }),
+  z.object({
+    type: z.literal("JOINED"),
+    eventId: z.string(),
+    // Identifies the server's room history; a resume against another epoch
+    // (another instance, or a restart) can't be replayed
+    epoch: z.string(),
+    seq: z.number().int(),
+    // False when missed messages couldn't be replayed and state must be refetched
+    resumed: z.boolean(),
+  }),
+  z.object({
+    type: z.literal("ERROR"),
+    code: z.string(),
+    message: z.string(),
+    // Chat rejections say why and, for rate limits, when to try again
+    reason: z.string().optional(),
+    retryAfterMs: z.number().nullable().optional(),
+  }),
+  z.object({
+    type: z.literal("CAMERA_ADDED"),
+    camera: cameraPayloadSchema,
+    // Slot the camera filled, if it joined through a slot invitation
+    slotId: z.string().nullable(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("CAMERA_UPDATE"),
+    cameraId: z.string(),
+    isLive: z.boolean(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("CAMERA_REMOVED"),
+    cameraId: z.string(),
+    reason: z.enum(["kicked", "replaced"]),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("ACTIVE_CAMERA_OFFLINE"),
+    cameraId: z.string(),
+    fallbackCameraId: z.string().nullable(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("PROGRAM_UPDATE"),
+    programUrl: z.string(),
+    activeCamera: z.string(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("SCHEDULED_SWITCH_UPDATE"),
+    switchId: z.string(),
+    cameraId: z.string(),
+    executeAt: z.string(),
+    status: z.string(),
+    failureReason: z.string().nullable(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("SWITCH_SEQUENCE_UPDATE"),
+    sequenceId: z.string(),
+    status: z.string(),
+    position: z.number(),
+    pausedReason: z.string().nullable(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("REPLAY_MARK_UPDATE"),
+    replayId: z.string(),
+    cameraId: z.string().nullable(),
+    status: z.string(),
+    failureReason: z.string().nullable(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("PROGRAM_REPLAY_UPDATE"),
+    replayId: z.string(),
+    label: z.string().nullable(),
+    onAir: z.boolean(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("EVENT_STATUS_UPDATE"),
+    status: z.string(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("SIMULCAST_UPDATE"),
+    targetId: z.string(),
+    status: z.string(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("RECORDING_READY"),
+    recordingId: z.string(),
+    assetId: z.string(),
+    playbackUrl: z.string().nullable(),
+    cameraId: z.string().nullable(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("HIGHLIGHT_REEL_UPDATE"),
+    reelId: z.string(),
+    status: z.string(),
+    failureReason: z.string().nullable(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("SCOREBOARD_UPDATE"),
+    scoreboard: scoreboardPayloadSchema,
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("VIEWER_COUNT_UPDATE"),
+    count: z.number(),
+    peak: z.number(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("CHAT_MESSAGE"),
+    message: chatMessagePayloadSchema,
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("CHAT_MESSAGE_HIDDEN"),
+    messageId: z.string(),
+    ...timestamped,
+  }),
+  z.object({
+    type: z.literal("CHAT_SETTINGS_UPDATE"),
+    slowModeSeconds: z.number(),
+    registeredOnly: z.boolean(),
+    ...timestamped,
+  }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerMessageType = ServerMessage["type"];
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+export type ChatMessagePayload = z.infer<typeof chatMessagePayloadSchema>;
+export type CameraPayload = z.infer<typeof cameraPayloadSchema>;
+export type ScoreboardPayload = z.infer<typeof scoreboardPayloadSchema>;
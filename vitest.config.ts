@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    env: {
+      // server/db.ts insists on one; tests mock storage and never connect
+      DATABASE_URL: "postgres://test@localhost/test",
+      STREAMING_PROVIDER: "local",
+    },
+  },
+});